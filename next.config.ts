@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Recordings' audio goes to the transcription flow as a data URI.
+      bodySizeLimit: '20mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,16 @@
+'use server';
+
+/**
+ * @fileOverview Server actions the app calls to run its Genkit flows.
+ */
+
+import {describeRecordingFlow, type DescribeRecordingInput, type RecordingDescription} from '@/ai/flows/describe-recording';
+import {transcribeRecordingFlow, type TranscribeRecordingInput, type Transcript} from '@/ai/flows/transcribe-recording';
+
+export async function transcribeRecording(input: TranscribeRecordingInput): Promise<Transcript> {
+  return transcribeRecordingFlow(input);
+}
+
+export async function describeRecording(input: DescribeRecordingInput): Promise<RecordingDescription> {
+  return describeRecordingFlow(input);
+}
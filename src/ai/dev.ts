@@ -1 +1,3 @@
 // Flows will be imported for their side effects in this file.
+import '@/ai/flows/transcribe-recording';
+import '@/ai/flows/describe-recording';
@@ -0,0 +1,15 @@
+import { genkit, type GenerateRequest } from "genkit";
+
+/** A Genkit instance whose default model answers with `reply` as JSON and records what it was asked. */
+export function stubModelReplying(reply: unknown) {
+  const ai = genkit({ model: "stub/model" });
+  const requests: GenerateRequest[] = [];
+  ai.defineModel({ name: "stub/model" }, async request => {
+    requests.push(request);
+    return {
+      message: { role: "model", content: reply === undefined ? [] : [{ text: JSON.stringify(reply) }] },
+      finishReason: "stop",
+    };
+  });
+  return { ai, requests };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { defineDescribeRecordingFlow, type DescribeRecordingInput } from "./describe-recording";
+import { stubModelReplying } from "./__fixtures__";
+
+const FRAME = "data:image/jpeg;base64,/9j/4AAQ";
+const INPUT: DescribeRecordingInput = {
+  keyframes: [{ time: 0, imageDataUri: FRAME }, { time: 12.5, imageDataUri: FRAME }],
+  transcript: "[0:00] Let's fix the log-in bug.",
+};
+
+function describerReplying(reply: unknown) {
+  const { ai, requests } = stubModelReplying(reply);
+  return { flow: defineDescribeRecordingFlow(ai), requests };
+}
+
+describe("describeRecordingFlow", () => {
+  it("sends every frame and the transcript", async () => {
+    const { flow, requests } = describerReplying({ title: "Fixing the log-in bug", summary: "A bug fix.", tags: [] });
+    await flow(INPUT);
+
+    const parts = requests[0].messages.flatMap(message => message.content);
+    expect(parts.filter(part => part.media)).toEqual([{ media: { url: FRAME } }, { media: { url: FRAME } }]);
+    const text = parts.map(part => part.text ?? "").join("");
+    expect(text).toContain("Frame at 12.5s:");
+    expect(text).toContain("Let's fix the log-in bug.");
+  });
+
+  it("cleans up the title and tags", async () => {
+    const { flow } = describerReplying({
+      title: ' "Fixing the log-in bug." ',
+      summary: " Walks through the login form and fixes a redirect. ",
+      tags: ["Auth", "#auth", " Next.js ", "", "debugging"],
+    });
+
+    const description = await flow(INPUT);
+    expect(description).toEqual({
+      title: "Fixing the log-in bug",
+      summary: "Walks through the login form and fixes a redirect.",
+      tags: ["auth", "next.js", "debugging"],
+    });
+  });
+
+  it("falls back to the summary for an empty title", async () => {
+    const { flow } = describerReplying({ title: ' "" ', summary: "Reviewing the Q3 roadmap. Then a demo.", tags: [] });
+    const description = await flow(INPUT);
+    expect(description.title).toBe("Reviewing the Q3 roadmap");
+  });
+
+  it("fails when neither the title nor the summary says anything", async () => {
+    const { flow } = describerReplying({ title: "", summary: "  ", tags: ["demo"] });
+    await expect(flow(INPUT)).rejects.toThrow("The model returned no title.");
+  });
+
+  it("cuts long titles at a word", async () => {
+    const title = "A very long walkthrough of configuring the continuous integration pipeline for the monorepo";
+    const { flow } = describerReplying({ title, summary: "CI setup.", tags: [] });
+    const description = await flow(INPUT);
+    expect(description.title).toBe("A very long walkthrough of configuring the continuous");
+  });
+
+  it("drops over-long tags and keeps at most eight", async () => {
+    const sentence = "this recording shows how to configure the build";
+    const tags = ["one", sentence, "two", "three", "four", "five", "six", "seven", "eight", "nine"];
+    const { flow } = describerReplying({ title: "Build setup", summary: "Build setup.", tags });
+    const description = await flow(INPUT);
+    expect(description.tags).toEqual(["one", "two", "three", "four", "five", "six", "seven", "eight"]);
+  });
+
+  it("refuses to describe a recording with no frames and no transcript", async () => {
+    const { flow, requests } = describerReplying({ title: "x", summary: "x", tags: [] });
+    await expect(flow({ keyframes: [], transcript: "  " })).rejects.toThrow("A recording needs frames or a transcript to be described.");
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @fileOverview Suggests a title, summary and tags for a recording from a few of its frames and its transcript.
+ *
+ * - defineDescribeRecordingFlow - Registers the flow on a Genkit instance, so tests can use one with a stand-in model.
+ * - describeRecordingFlow - The flow on the app's Genkit instance.
+ * - DescribeRecordingInput - The input type for the flow.
+ * - RecordingDescription - The return type for the flow.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z, type Genkit} from 'genkit';
+
+/** Frames sent per recording; more adds cost without telling the model much more. */
+const MAX_DESCRIBE_KEYFRAMES = 8;
+const MAX_TAGS = 8;
+const MAX_TITLE_CHARS = 60;
+/** Longer "tags" are sentences the model slipped in; they're dropped rather than cut mid-word. */
+const MAX_TAG_CHARS = 32;
+
+/** Cuts `text` to `max` characters at a word boundary where there is one. */
+function clip(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max + 1);
+  const space = cut.lastIndexOf(' ');
+  return (space > 0 ? cut.slice(0, space) : text.slice(0, max)).replace(/[\s,;:.-]+$/, '');
+}
+
+function cleanTitle(title: string): string {
+  return title.trim().replace(/^["']|["']$/g, '').replace(/\.$/, '').trim();
+}
+
+const DescribeRecordingInputSchema = z.object({
+  keyframes: z
+    .array(
+      z.object({
+        time: z.number().describe('Seconds from the start of the recording.'),
+        imageDataUri: z
+          .string()
+          .describe(
+            "A frame of the recording, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+          ),
+      })
+    )
+    .max(MAX_DESCRIBE_KEYFRAMES)
+    .describe('Frames spread across the recording, in order. Empty for audio-only recordings.'),
+  transcript: z.string().optional().describe('What was said, one timestamped line per segment, when the recording was transcribed.'),
+});
+export type DescribeRecordingInput = z.infer<typeof DescribeRecordingInputSchema>;
+
+const RecordingDescriptionSchema = z.object({
+  title: z.string().describe(`A short, specific title of at most ${MAX_TITLE_CHARS} characters, without quotes or a trailing period.`),
+  summary: z.string().describe('One paragraph of two to four sentences on what the recording shows or discusses.'),
+  tags: z.array(z.string()).describe(`Up to ${MAX_TAGS} short lowercase tags, e.g. app names, topics or the kind of recording.`),
+});
+export type RecordingDescription = z.infer<typeof RecordingDescriptionSchema>;
+
+export function defineDescribeRecordingFlow(genkit: Genkit) {
+  const prompt = genkit.definePrompt({
+    name: 'describeRecordingPrompt',
+    input: {schema: DescribeRecordingInputSchema},
+    output: {schema: RecordingDescriptionSchema},
+    prompt: `You label screen recordings so people can find them again later.
+
+Describe this recording from the frames and transcript below. Name what is actually on screen or discussed (apps, sites, documents, topics) rather than writing generic titles like "Screen recording". Don't invent details that aren't shown or said.
+
+{{#each keyframes}}
+Frame at {{time}}s: {{media url=imageDataUri}}
+{{/each}}
+{{#if transcript}}
+Transcript:
+{{{transcript}}}
+{{/if}}`,
+  });
+
+  return genkit.defineFlow(
+    {
+      name: 'describeRecordingFlow',
+      inputSchema: DescribeRecordingInputSchema,
+      outputSchema: RecordingDescriptionSchema,
+    },
+    async input => {
+      if (input.keyframes.length === 0 && !input.transcript?.trim()) {
+        throw new Error('A recording needs frames or a transcript to be described.');
+      }
+      const {output} = await prompt(input);
+      if (!output) throw new Error('The model returned no description.');
+      const summary = output.summary.trim();
+      // An empty title would blank the library name; the summary's first sentence says the same thing.
+      const title = clip(cleanTitle(output.title) || cleanTitle(summary.split(/[.!?]\s/)[0]), MAX_TITLE_CHARS);
+      if (!title) throw new Error('The model returned no title.');
+      const tags = output.tags
+        .map(tag => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, ' '))
+        .filter(tag => tag && tag.length <= MAX_TAG_CHARS);
+      return {title, summary, tags: [...new Set(tags)].slice(0, MAX_TAGS)};
+    }
+  );
+}
+
+export const describeRecordingFlow = defineDescribeRecordingFlow(ai);
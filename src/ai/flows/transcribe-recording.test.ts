@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { defineTranscribeRecordingFlow } from "./transcribe-recording";
+import { stubModelReplying } from "./__fixtures__";
+
+const AUDIO = "data:audio/webm;base64,GkXfow==";
+
+function transcriberReplying(reply: unknown) {
+  const { ai, requests } = stubModelReplying(reply);
+  return { flow: defineTranscribeRecordingFlow(ai), requests };
+}
+
+describe("transcribeRecordingFlow", () => {
+  it("sends the instructions and the audio as a media part", async () => {
+    const { flow, requests } = transcriberReplying({ language: "en", segments: [] });
+    await flow({ audioDataUri: AUDIO });
+
+    expect(requests).toHaveLength(1);
+    const parts = requests[0].messages.flatMap(message => message.content);
+    const text = parts.map(part => part.text ?? "").join("");
+    expect(text).toContain("Transcribe the speech in this audio word for word.");
+    expect(parts.filter(part => part.media)).toEqual([{ media: { url: AUDIO } }]);
+  });
+
+  it("returns the segments in order, trimmed, with sane times", async () => {
+    const { flow } = transcriberReplying({
+      language: "en",
+      segments: [
+        { start: 4, end: 6.5, speaker: "Speaker 2", text: " And this is the fix. " },
+        { start: -0.2, end: 2, speaker: "Speaker 1", text: "Here's the bug." },
+        { start: 2.5, end: 2.5, text: "   " },
+        { start: 7, end: 6, text: "Thanks." },
+      ],
+    });
+
+    await expect(flow({ audioDataUri: AUDIO })).resolves.toEqual({
+      language: "en",
+      segments: [
+        { start: 0, end: 2, speaker: "Speaker 1", text: "Here's the bug." },
+        { start: 4, end: 6.5, speaker: "Speaker 2", text: "And this is the fix." },
+        { start: 7, end: 7, text: "Thanks." },
+      ],
+    });
+  });
+
+  it("fails when the model returns nothing", async () => {
+    await expect(transcriberReplying(undefined).flow({ audioDataUri: AUDIO })).rejects.toThrow(/Schema validation failed/);
+    await expect(transcriberReplying(null).flow({ audioDataUri: AUDIO })).rejects.toThrow(/Schema validation failed/);
+  });
+
+  it("rejects segments that don't match the schema", async () => {
+    const { flow } = transcriberReplying({ language: "en", segments: [{ start: "0:00", text: 42 }] });
+    await expect(flow({ audioDataUri: AUDIO })).rejects.toThrow(/Schema validation failed/);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @fileOverview Turns a recording's audio into a timestamped transcript.
+ *
+ * - defineTranscribeRecordingFlow - Registers the flow on a Genkit instance, so tests can use one with a stand-in model.
+ * - transcribeRecordingFlow - The flow on the app's Genkit instance.
+ * - TranscribeRecordingInput - The input type for the flow.
+ * - Transcript - The return type for the flow.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z, type Genkit} from 'genkit';
+
+const TranscribeRecordingInputSchema = z.object({
+  audioDataUri: z
+    .string()
+    .describe(
+      "The recording's audio, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+});
+export type TranscribeRecordingInput = z.infer<typeof TranscribeRecordingInputSchema>;
+
+const TranscriptSegmentSchema = z.object({
+  start: z.number().describe('Seconds from the start of the audio where the segment begins.'),
+  end: z.number().describe('Seconds from the start of the audio where the segment ends.'),
+  speaker: z.string().optional().describe('Who is talking, e.g. "Speaker 1". Omitted when only one person talks.'),
+  text: z.string().describe('What was said, with punctuation.'),
+});
+export type TranscriptSegment = z.infer<typeof TranscriptSegmentSchema>;
+
+const TranscriptSchema = z.object({
+  language: z.string().describe('BCP 47 tag of the main spoken language, e.g. "en".'),
+  segments: z.array(TranscriptSegmentSchema).describe('Segments in order. Empty when nobody speaks.'),
+});
+export type Transcript = z.infer<typeof TranscriptSchema>;
+
+export function defineTranscribeRecordingFlow(genkit: Genkit) {
+  const prompt = genkit.definePrompt({
+    name: 'transcribeRecordingPrompt',
+    input: {schema: TranscribeRecordingInputSchema},
+    output: {schema: TranscriptSchema},
+    prompt: `You transcribe screen recordings.
+
+Transcribe the speech in this audio word for word. Split it into segments of a sentence or two, each with start and end times in seconds from the beginning of the audio. When more than one person talks, label them "Speaker 1", "Speaker 2" and so on. Leave out music and background noise. If nobody speaks, return no segments.
+
+Audio: {{media url=audioDataUri}}`,
+  });
+
+  return genkit.defineFlow(
+    {
+      name: 'transcribeRecordingFlow',
+      inputSchema: TranscribeRecordingInputSchema,
+      outputSchema: TranscriptSchema,
+    },
+    async input => {
+      const {output} = await prompt(input);
+      if (!output) throw new Error('The model returned no transcript.');
+      // Models occasionally return overlapping or out-of-order times; keep them usable as captions.
+      const segments = output.segments
+        .filter(segment => segment.text.trim())
+        .map(segment => {
+          const start = Math.max(0, segment.start);
+          return {...segment, text: segment.text.trim(), start, end: Math.max(start, segment.end)};
+        })
+        .sort((a, b) => a.start - b.start);
+      return {language: output.language, segments};
+    }
+  );
+}
+
+export const transcribeRecordingFlow = defineTranscribeRecordingFlow(ai);
@@ -1,9 +1,17 @@
 import ScreenCatcherClient from '@/components/screen-catcher-client';
+import LibrarySidebar from '@/components/library-sidebar';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 
 export default function HomePage() {
   return (
-    <main className="min-h-screen flex flex-col items-center justify-center p-4 bg-background font-body">
-      <ScreenCatcherClient />
-    </main>
+    <SidebarProvider defaultOpen={false}>
+      <LibrarySidebar />
+      <SidebarInset>
+        <SidebarTrigger className="absolute left-2 top-2 z-10" aria-label="Toggle library" />
+        <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-background font-body">
+          <ScreenCatcherClient />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
@@ -0,0 +1,76 @@
+"use client";
+
+import React from 'react';
+import LabeledSelect from '@/components/labeled-select';
+import {
+  ANIMATION_FPS_OPTIONS,
+  ANIMATION_WIDTH_OPTIONS,
+  MAX_BYTES_OPTIONS,
+  PALETTE_SIZE_OPTIONS,
+  WEBP_QUALITY_OPTIONS,
+  formatBytes,
+  type AnimatedImageFormat,
+  type AnimatedImageSettings,
+} from '@/lib/export/animated-image-export';
+
+interface AnimatedImageSettingsPanelProps {
+  format: AnimatedImageFormat;
+  settings: AnimatedImageSettings;
+  onChange: (settings: AnimatedImageSettings) => void;
+  /** Keeps element ids unique when the panel appears more than once. */
+  idPrefix: string;
+  disabled?: boolean;
+}
+
+/** Frame rate, width, palette or quality, and size target for GIF and WebP exports. */
+export default function AnimatedImageSettingsPanel({ format, settings, onChange, idPrefix, disabled }: AnimatedImageSettingsPanelProps) {
+  const update = (patch: Partial<AnimatedImageSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <LabeledSelect
+        id={`${idPrefix}-fps`}
+        label="Max frame rate"
+        value={String(settings.fps)}
+        onValueChange={value => update({ fps: Number(value) })}
+        options={ANIMATION_FPS_OPTIONS.map(f => ({ value: String(f), label: `${f} fps` }))}
+        disabled={disabled}
+      />
+      <LabeledSelect
+        id={`${idPrefix}-width`}
+        label="Max width"
+        value={String(settings.maxWidth)}
+        onValueChange={value => update({ maxWidth: Number(value) })}
+        options={[...ANIMATION_WIDTH_OPTIONS.map(w => ({ value: String(w), label: `${w}px` })), { value: "0", label: "Original" }]}
+        disabled={disabled}
+      />
+      {format === "gif" ? (
+        <LabeledSelect
+          id={`${idPrefix}-palette`}
+          label="Colors per frame"
+          value={String(settings.paletteSize)}
+          onValueChange={value => update({ paletteSize: Number(value) })}
+          options={PALETTE_SIZE_OPTIONS.map(n => ({ value: String(n), label: `${n} colors` }))}
+          disabled={disabled}
+        />
+      ) : (
+        <LabeledSelect
+          id={`${idPrefix}-quality`}
+          label="Quality"
+          value={String(settings.webpQuality)}
+          onValueChange={value => update({ webpQuality: Number(value) })}
+          options={WEBP_QUALITY_OPTIONS.map(q => ({ value: String(q), label: `${Math.round(q * 100)}%` }))}
+          disabled={disabled}
+        />
+      )}
+      <LabeledSelect
+        id={`${idPrefix}-max-size`}
+        label="Max file size"
+        value={String(settings.maxBytes)}
+        onValueChange={value => update({ maxBytes: Number(value) })}
+        options={[{ value: "0", label: "No limit" }, ...MAX_BYTES_OPTIONS.map(b => ({ value: String(b), label: formatBytes(b) }))]}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import LabeledSelect from '@/components/labeled-select';
+import { useStreamPreview } from "@/hooks/use-stream-preview";
+import { cn } from '@/lib/utils';
+import {
+  ANNOTATION_CLEAR_AFTER_OPTIONS,
+  ANNOTATION_COLORS,
+  type AnnotationLayer,
+  type AnnotationTool,
+  type Point,
+} from '@/lib/video/annotations';
+import { Eraser, Highlighter, MoveUpRight, Pencil, Square, Type, Undo2 } from 'lucide-react';
+
+interface AnnotationSurfaceProps {
+  /** The screen capture to draw over. */
+  stream: MediaStream;
+  layer: AnnotationLayer;
+}
+
+const TOOLS: { tool: AnnotationTool; label: string; icon: React.ElementType }[] = [
+  { tool: "pen", label: "Pen", icon: Pencil },
+  { tool: "highlighter", label: "Highlighter", icon: Highlighter },
+  { tool: "arrow", label: "Arrow", icon: MoveUpRight },
+  { tool: "rectangle", label: "Rectangle", icon: Square },
+  { tool: "text", label: "Text", icon: Type },
+];
+
+/** Live preview of the capture with a drawing layer on top. Everything drawn here is composited into the recording. */
+export default function AnnotationSurface({ stream, layer }: AnnotationSurfaceProps) {
+  const { videoRef, aspect } = useStreamPreview(stream);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const activeRef = useRef<number | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>("pen");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [clearAfter, setClearAfter] = useState(layer.clearAfterSeconds);
+  const [pendingText, setPendingText] = useState<{ at: Point; text: string } | null>(null);
+
+  // Redraws every frame so clear-after timeouts show up here exactly when they leave the recording.
+  useEffect(() => {
+    let frame = 0;
+    const render = () => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext("2d");
+      if (canvas && context) {
+        const width = Math.round(canvas.clientWidth * devicePixelRatio);
+        const height = Math.round(canvas.clientHeight * devicePixelRatio);
+        if (canvas.width !== width || canvas.height !== height) {
+          canvas.width = width;
+          canvas.height = height;
+        }
+        context.clearRect(0, 0, width, height);
+        layer.draw(context, width, height);
+      }
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, [layer]);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height)),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = pointAt(event);
+    if (tool === "text") {
+      commitText();
+      setPendingText({ at: point, text: "" });
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    activeRef.current = tool === "pen" || tool === "highlighter"
+      ? layer.begin({ tool, color, points: [point] })
+      : layer.begin({ tool, color, from: point, to: point });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (activeRef.current !== null) layer.update(activeRef.current, pointAt(event));
+  };
+
+  const handlePointerUp = () => {
+    if (activeRef.current === null) return;
+    layer.finish(activeRef.current);
+    activeRef.current = null;
+  };
+
+  const commitText = () => {
+    if (pendingText && pendingText.text.trim()) {
+      layer.finish(layer.begin({ tool: "text", color, at: pendingText.at, text: pendingText.text.trim() }));
+    }
+    setPendingText(null);
+  };
+
+  const handleClearAfterChange = (value: string) => {
+    layer.clearAfterSeconds = Number(value);
+    setClearAfter(layer.clearAfterSeconds);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full overflow-hidden rounded-md bg-black shadow-md" style={{ aspectRatio: aspect }}>
+        <video ref={videoRef} autoPlay muted playsInline className="absolute inset-0 h-full w-full" />
+        <canvas
+          ref={canvasRef}
+          className={cn("absolute inset-0 h-full w-full touch-none", tool === "text" ? "cursor-text" : "cursor-crosshair")}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          aria-label="Annotation canvas"
+        />
+        {pendingText && (
+          <Input
+            autoFocus
+            value={pendingText.text}
+            onChange={event => setPendingText({ ...pendingText, text: event.target.value })}
+            onKeyDown={event => {
+              if (event.key === "Enter") commitText();
+              if (event.key === "Escape") setPendingText(null);
+            }}
+            onBlur={commitText}
+            className="absolute h-8 w-48 bg-background/90 text-sm"
+            style={{ left: `${pendingText.at.x * 100}%`, top: `${pendingText.at.y * 100}%` }}
+            placeholder="Type, then Enter"
+            aria-label="Annotation text"
+          />
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {TOOLS.map(({ tool: id, label, icon: Icon }) => (
+          <Button
+            key={id}
+            type="button"
+            variant={tool === id ? "secondary" : "ghost"}
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setTool(id)}
+            aria-label={label}
+            aria-pressed={tool === id}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <span className="mx-1 h-6 w-px bg-border" aria-hidden />
+        {ANNOTATION_COLORS.map(swatch => (
+          <button
+            key={swatch}
+            type="button"
+            className={cn("h-6 w-6 rounded-full border", color === swatch && "ring-2 ring-ring ring-offset-2 ring-offset-background")}
+            style={{ backgroundColor: swatch }}
+            onClick={() => setColor(swatch)}
+            aria-label={`Color ${swatch}`}
+            aria-pressed={color === swatch}
+          />
+        ))}
+        <span className="mx-1 h-6 w-px bg-border" aria-hidden />
+        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => layer.undo()} aria-label="Undo last annotation">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => layer.clear()} aria-label="Clear all annotations">
+          <Eraser className="h-4 w-4" />
+        </Button>
+      </div>
+      <LabeledSelect
+        id="annotation-clear-after"
+        label="Clear each annotation"
+        value={String(clearAfter)}
+        onValueChange={handleClearAfterChange}
+        options={ANNOTATION_CLEAR_AFTER_OPTIONS.map(option => ({ value: String(option.value), label: option.label }))}
+      />
+    </div>
+  );
+}
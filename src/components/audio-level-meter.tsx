@@ -0,0 +1,34 @@
+"use client";
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface AudioLevelMeterProps {
+  /** 0..1, or null when there is no signal to show yet. */
+  level: number | null | undefined;
+  label: string;
+  className?: string;
+}
+
+/** Horizontal VU bar. Turns amber near full scale and red when clipping. */
+export default function AudioLevelMeter({ level, label, className }: AudioLevelMeterProps) {
+  const value = level ?? 0;
+  return (
+    <div
+      role="meter"
+      aria-label={`${label} level`}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(value * 100)}
+      className={cn("relative h-2 w-full overflow-hidden rounded-full bg-secondary", level == null && "opacity-50", className)}
+    >
+      <div
+        className={cn(
+          "h-full rounded-full transition-[width] duration-100 ease-out",
+          value > 0.95 ? "bg-destructive" : value > 0.8 ? "bg-amber-500" : "bg-accent",
+        )}
+        style={{ width: `${value * 100}%` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import AudioLevelMeter from '@/components/audio-level-meter';
+import { MAX_SOURCE_GAIN, type AudioSourceSettings } from '@/lib/audio/audio-mixer';
+import { Volume2, VolumeX } from 'lucide-react';
+
+interface AudioSourceMixProps {
+  label: string;
+  settings: AudioSourceSettings;
+  onChange: (patch: Partial<AudioSourceSettings>) => void;
+  disabled?: boolean;
+  /** Input level 0..1; null while the source isn't open yet. */
+  level?: number | null;
+  /** Shown under the meter while there is no level to show. */
+  levelHint?: string;
+}
+
+/** Volume slider and mute toggle for one audio source. Safe to use mid-recording. */
+export default function AudioSourceMix({ label, settings, onChange, disabled, level, levelHint }: AudioSourceMixProps) {
+  const percent = Math.round(settings.gain * 100);
+  return (
+    <div className="space-y-1 pl-7">
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => onChange({ muted: !settings.muted })}
+          disabled={disabled}
+          aria-label={settings.muted ? `Unmute ${label}` : `Mute ${label}`}
+          aria-pressed={settings.muted}
+        >
+          {settings.muted ? <VolumeX className="h-4 w-4 text-destructive" /> : <Volume2 className="h-4 w-4" />}
+        </Button>
+        <Slider
+          value={[percent]}
+          min={0}
+          max={MAX_SOURCE_GAIN * 100}
+          step={5}
+          onValueChange={([value]) => onChange({ gain: value / 100 })}
+          disabled={disabled || settings.muted}
+          aria-label={`${label} volume`}
+        />
+        <span className="w-12 text-right text-xs tabular-nums text-muted-foreground">
+          {settings.muted ? "Muted" : `${percent}%`}
+        </span>
+      </div>
+      <AudioLevelMeter level={level} label={label} className="ml-11 w-auto" />
+      {level == null && levelHint && (
+        <p className="ml-11 text-xs text-muted-foreground">{levelHint}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import React from 'react';
+import LabeledSelect from '@/components/labeled-select';
+import {
+  OVERLAY_BORDER_COLOR_OPTIONS,
+  OVERLAY_BORDER_OPTIONS,
+  OVERLAY_POSITION_OPTIONS,
+  OVERLAY_SHAPE_OPTIONS,
+  OVERLAY_SIZE_OPTIONS,
+  type CameraOverlaySettings,
+  type OverlayPosition,
+  type OverlayShape,
+} from '@/lib/video/camera-overlay';
+
+interface CameraOverlaySettingsPanelProps {
+  settings: CameraOverlaySettings;
+  onChange: (patch: Partial<CameraOverlaySettings>) => void;
+  disabled?: boolean;
+}
+
+/** Position, size, shape and border of the webcam overlay. Safe to use mid-recording. */
+export default function CameraOverlaySettingsPanel({ settings, onChange, disabled }: CameraOverlaySettingsPanelProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3 pl-7">
+      <LabeledSelect
+        id="camera-position"
+        label="Position"
+        value={settings.position}
+        onValueChange={value => onChange({ position: value as OverlayPosition })}
+        options={OVERLAY_POSITION_OPTIONS}
+        disabled={disabled}
+      />
+      <LabeledSelect
+        id="camera-size"
+        label="Size"
+        value={String(settings.size)}
+        onValueChange={value => onChange({ size: Number(value) })}
+        options={OVERLAY_SIZE_OPTIONS.map(option => ({ value: String(option.value), label: option.label }))}
+        disabled={disabled}
+      />
+      <LabeledSelect
+        id="camera-shape"
+        label="Shape"
+        value={settings.shape}
+        onValueChange={value => onChange({ shape: value as OverlayShape })}
+        options={OVERLAY_SHAPE_OPTIONS}
+        disabled={disabled}
+      />
+      <LabeledSelect
+        id="camera-border"
+        label="Border"
+        value={String(settings.borderWidth)}
+        onValueChange={value => onChange({ borderWidth: Number(value) })}
+        options={OVERLAY_BORDER_OPTIONS.map(option => ({ value: String(option.value), label: option.label }))}
+        disabled={disabled}
+      />
+      {settings.borderWidth > 0 && (
+        <LabeledSelect
+          id="camera-border-color"
+          label="Border color"
+          value={settings.borderColor}
+          onValueChange={value => onChange({ borderColor: value })}
+          options={OVERLAY_BORDER_COLOR_OPTIONS}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
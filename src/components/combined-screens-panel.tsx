@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import LabeledSelect from '@/components/labeled-select';
+import AudioSourceMix from '@/components/audio-source-mix';
+import { DEFAULT_AUDIO_SOURCE_SETTINGS, type AudioSourceId, type AudioSourceSettings } from '@/lib/audio/audio-mixer';
+import { SOURCE_LAYOUT_OPTIONS, type SourceLayout } from '@/lib/video/layout';
+import type { CapturedScreen } from '@/lib/recorder/recorder-engine';
+import { Monitor, MonitorUp } from 'lucide-react';
+
+interface CombinedScreensPanelProps {
+  screens: CapturedScreen[];
+  layout: SourceLayout;
+  onLayoutChange: (layout: SourceLayout) => void;
+  audioMix: Partial<Record<AudioSourceId, AudioSourceSettings>>;
+  onAudioChange: (id: AudioSourceId, patch: Partial<AudioSourceSettings>) => void;
+  levels: Partial<Record<AudioSourceId, number>>;
+  /** Asks for another screen; resolves once it joined or the picker was dismissed. */
+  onAddScreen: (includeAudio: boolean) => Promise<unknown>;
+}
+
+/** Layout, audio and the list of screens in a combined recording. Safe to use mid-recording. */
+export default function CombinedScreensPanel({ screens, layout, onLayoutChange, audioMix, onAudioChange, levels, onAddScreen }: CombinedScreensPanelProps) {
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [adding, setAdding] = useState(false);
+
+  const handleAddScreen = async () => {
+    setAdding(true);
+    try {
+      await onAddScreen(includeAudio);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <LabeledSelect
+        id="screen-layout"
+        label="Layout"
+        value={layout}
+        onValueChange={value => onLayoutChange(value as SourceLayout)}
+        options={SOURCE_LAYOUT_OPTIONS}
+      />
+      <ul className="space-y-2">
+        {screens.map((screen, index) => (
+          <li key={screen.audioId} className="space-y-1">
+            <span className="flex items-center text-sm">
+              <Monitor className="mr-2 h-5 w-5 text-accent" />
+              {screen.label}
+              {index === 0 && screens.length > 1 && <span className="ml-2 text-xs text-muted-foreground">(main)</span>}
+            </span>
+            {/* The first screen's audio is the system audio, mixed in the recording options. */}
+            {index > 0 && screen.hasAudio && (
+              <AudioSourceMix
+                label={`${screen.label} audio`}
+                settings={audioMix[screen.audioId] ?? DEFAULT_AUDIO_SOURCE_SETTINGS}
+                onChange={patch => onAudioChange(screen.audioId, patch)}
+                level={levels[screen.audioId] ?? null}
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="add-screen-audio" className="text-sm text-muted-foreground">
+          Include the new screen&apos;s audio
+        </Label>
+        <Switch
+          id="add-screen-audio"
+          checked={includeAudio}
+          onCheckedChange={setIncludeAudio}
+          disabled={adding}
+          aria-label="Toggle audio for the added screen"
+        />
+      </div>
+      <Button variant="outline" className="w-full" onClick={handleAddScreen} disabled={adding} aria-label="Add another screen">
+        <MonitorUp className="mr-2 h-5 w-5" />
+        {adding ? "Waiting for a Screen..." : "Add Screen"}
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Stopping one screen&apos;s share only removes it from the layout. The recording ends with the last screen.
+      </p>
+    </div>
+  );
+}
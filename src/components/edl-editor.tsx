@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import LabeledSelect from '@/components/labeled-select';
+import ExportProgress from '@/components/export-progress';
+import { useToast } from "@/hooks/use-toast";
+import { useExportJob } from "@/hooks/use-export-job";
+import { triggerDownload } from "@/lib/download";
+import { isMp4ExportSupported } from "@/lib/export/mp4-export";
+import {
+  createEdl,
+  deleteSegment,
+  edlDuration,
+  EdlError,
+  moveSegment,
+  parseEdl,
+  renderEdl,
+  serializeEdl,
+  splitSegment,
+  type EdlRenderFormat,
+  type EditDecisionList,
+} from "@/lib/edit/edl";
+import { formatTimecode, snapToFrame, type RecordingTimeline } from "@/lib/edit/timeline";
+import { ArrowDown, ArrowUp, FileDown, FileUp, Film, Play, RotateCcw, Scissors, Trash2 } from 'lucide-react';
+
+interface EdlEditorProps {
+  recording: Blob;
+  timeline: RecordingTimeline;
+  /** The preview element; splits happen at its playhead. */
+  mediaRef: React.RefObject<HTMLMediaElement | null>;
+}
+
+/** Split, delete and reorder segments of a finished recording, then render them into one file. */
+export default function EdlEditor({ recording, timeline, mediaRef }: EdlEditorProps) {
+  const { toast } = useToast();
+  const renderJob = useExportJob();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [edl, setEdl] = useState<EditDecisionList>(() => createEdl(timeline.duration));
+  const [format, setFormat] = useState<EdlRenderFormat>("webm");
+
+  useEffect(() => setEdl(createEdl(timeline.duration)), [timeline]);
+
+  const formats = [
+    { value: "webm", label: "WebM (.webm)" },
+    ...(timeline.hasVideo && isMp4ExportSupported() ? [{ value: "mp4", label: "MP4 (.mp4)" }] : []),
+  ];
+  const busy = renderJob.isExporting;
+
+  const seek = (time: number) => {
+    const media = mediaRef.current;
+    if (media) media.currentTime = time;
+  };
+
+  const handleSplit = () => {
+    const time = snapToFrame(timeline, mediaRef.current?.currentTime ?? 0);
+    const next = splitSegment(edl, time);
+    if (next === edl) {
+      toast({ title: "Nothing to Split", description: "Move the playhead inside a kept segment first." });
+      return;
+    }
+    setEdl(next);
+  };
+
+  const handleSave = () => {
+    const blob = new Blob([serializeEdl(edl)], { type: "application/json" });
+    triggerDownload(blob, `ScreenCatcher-Edit-${new Date().toISOString()}.edl.json`);
+  };
+
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setEdl(parseEdl(await file.text(), timeline.duration));
+      toast({ title: "Edit List Loaded", description: file.name });
+    } catch (error) {
+      const description = error instanceof EdlError ? error.message : "The file couldn't be read.";
+      toast({ title: "Could Not Load Edit List", description, variant: "destructive" });
+    }
+  };
+
+  const handleRender = async () => {
+    const blob = await renderJob.run(options => renderEdl(recording, edl, format, options));
+    if (!blob) return;
+    triggerDownload(blob, `ScreenCatcher-Edit-${new Date().toISOString()}.${format}`);
+    toast({ title: "Edit Rendered", description: `${formatTimecode(edlDuration(edl))} of ${edl.segments.length} segment(s) is downloading.` });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative h-3 rounded-full bg-muted" aria-hidden>
+        {edl.segments.map(segment => (
+          <span
+            key={segment.id}
+            className="absolute inset-y-0 rounded-sm border-x border-background bg-primary/70"
+            style={{
+              left: `${(segment.start / timeline.duration) * 100}%`,
+              width: `${((segment.end - segment.start) / timeline.duration) * 100}%`,
+            }}
+          />
+        ))}
+      </div>
+      <ol className="space-y-1">
+        {edl.segments.map((segment, index) => (
+          <li key={segment.id} className="flex items-center gap-1 rounded-md border px-2 py-1 text-xs">
+            <span className="w-5 text-muted-foreground">{index + 1}.</span>
+            <span className="flex-1 tabular-nums">
+              {formatTimecode(segment.start)} – {formatTimecode(segment.end)}
+            </span>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => seek(segment.start)} aria-label={`Preview segment ${index + 1}`}>
+              <Play className="h-3.5 w-3.5" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEdl(moveSegment(edl, segment.id, index - 1))} disabled={busy || index === 0} aria-label={`Move segment ${index + 1} earlier`}>
+              <ArrowUp className="h-3.5 w-3.5" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEdl(moveSegment(edl, segment.id, index + 1))} disabled={busy || index === edl.segments.length - 1} aria-label={`Move segment ${index + 1} later`}>
+              <ArrowDown className="h-3.5 w-3.5" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEdl(deleteSegment(edl, segment.id))} disabled={busy} aria-label={`Delete segment ${index + 1}`}>
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      {edl.segments.length === 0 && (
+        <p className="text-xs text-muted-foreground">Every segment was deleted. Reset to start over.</p>
+      )}
+      <p className="text-xs text-muted-foreground tabular-nums">Edited length {formatTimecode(edlDuration(edl))}</p>
+      <div className="grid grid-cols-2 gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleSplit} disabled={busy}>
+          <Scissors className="mr-2 h-4 w-4" />
+          Split at Playhead
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => setEdl(createEdl(timeline.duration))} disabled={busy}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleSave} disabled={busy}>
+          <FileDown className="mr-2 h-4 w-4" />
+          Save Edit List
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+          <FileUp className="mr-2 h-4 w-4" />
+          Load Edit List
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleLoad} />
+      </div>
+      {formats.length > 1 && (
+        <LabeledSelect
+          id="edl-format"
+          label="Render As"
+          value={format}
+          onValueChange={value => setFormat(value as EdlRenderFormat)}
+          options={formats}
+          disabled={busy}
+        />
+      )}
+      {renderJob.progress ? (
+        <ExportProgress progress={renderJob.progress} onCancel={renderJob.cancel} />
+      ) : (
+        <Button onClick={handleRender} variant="secondary" className="w-full" disabled={edl.segments.length === 0}>
+          <Film className="mr-2 h-5 w-5" />
+          Render Edit
+        </Button>
+      )}
+    </div>
+  );
+}
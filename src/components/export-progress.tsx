@@ -0,0 +1,39 @@
+"use client";
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import type { ExportPhase, ExportProgress as Progression } from '@/lib/export/export-job';
+import { Loader2, XCircle } from 'lucide-react';
+
+interface ExportProgressProps {
+  progress: Progression;
+  onCancel: () => void;
+}
+
+const PHASE_LABELS: Record<ExportPhase, string> = {
+  reading: "Reading recording...",
+  remuxing: "Repackaging...",
+  transcoding: "Converting...",
+  shrinking: "Shrinking to fit the size limit...",
+  finalizing: "Finishing up...",
+};
+
+export default function ExportProgress({ progress, onCancel }: ExportProgressProps) {
+  return (
+    <div className="space-y-2" aria-live="polite">
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span className="flex items-center">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          {PHASE_LABELS[progress.phase]}
+        </span>
+        <span className="tabular-nums">{Math.round(progress.ratio * 100)}%</span>
+      </div>
+      <Progress value={progress.ratio * 100} aria-label="Export progress" />
+      <Button onClick={onCancel} variant="outline" className="w-full">
+        <XCircle className="mr-2 h-5 w-5" />
+        Cancel Export
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from '@/components/ui/sidebar';
+import { useToast } from "@/hooks/use-toast";
+import { useObjectUrl } from "@/hooks/use-recorder-engine";
+import { useRecordingLibrary } from "@/hooks/use-recording-library";
+import { deleteEntry, getMedia, LibraryError, renameEntry, type LibraryEntry } from "@/lib/library/recording-library";
+import { fileExtensionFor, triggerDownload } from "@/lib/download";
+import { formatBytes } from "@/lib/export/animated-image-export";
+import { formatTimecode } from "@/lib/edit/timeline";
+import type { CaptureSource } from "@/lib/recorder/recorder-engine";
+import { Download, Headphones, Library, MoreHorizontal, Pencil, Play, Scissors, Trash2, Video } from 'lucide-react';
+
+const SOURCE_LABELS: Record<CaptureSource, string> = {
+  screen: "Screen",
+  window: "Window",
+  tab: "Tab",
+  audio: "Audio",
+  combined: "Combined",
+};
+
+function entryDetails(entry: LibraryEntry): string {
+  return [
+    entry.duration !== null ? formatTimecode(entry.duration).replace(/\.\d+$/, "") : null,
+    formatBytes(entry.size),
+    entry.codec.toUpperCase(),
+    entry.source ? SOURCE_LABELS[entry.source] : null,
+  ].filter(Boolean).join(" · ");
+}
+
+/** Recordings and clips kept in this browser, with preview, rename, delete and download. */
+export default function LibrarySidebar() {
+  const { toast } = useToast();
+  const { supported, entries, loading, error } = useRecordingLibrary();
+  const [previewing, setPreviewing] = useState<{ entry: LibraryEntry; blob: Blob } | null>(null);
+  const [renaming, setRenaming] = useState<{ entry: LibraryEntry; name: string } | null>(null);
+  const [deleting, setDeleting] = useState<LibraryEntry | null>(null);
+  const previewUrl = useObjectUrl(previewing?.blob ?? null);
+
+  const reportError = (title: string, e: unknown) => {
+    console.error(`${title}:`, e);
+    toast({ title, description: e instanceof LibraryError ? e.message : "Something went wrong with the library.", variant: "destructive" });
+  };
+
+  const handlePreview = async (entry: LibraryEntry) => {
+    try {
+      setPreviewing({ entry, blob: await getMedia(entry.id) });
+    } catch (e) {
+      reportError("Could Not Open Recording", e);
+    }
+  };
+
+  const handleDownload = async (entry: LibraryEntry) => {
+    try {
+      const blob = await getMedia(entry.id);
+      triggerDownload(blob, `${entry.name}.${fileExtensionFor(entry.mimeType)}`);
+    } catch (e) {
+      reportError("Download Failed", e);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (!name || name === renaming.entry.name) return;
+    try {
+      await renameEntry(renaming.entry.id, name);
+    } catch (e) {
+      reportError("Rename Failed", e);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const entry = deleting;
+    setDeleting(null);
+    if (previewing?.entry.id === entry.id) setPreviewing(null);
+    try {
+      await deleteEntry(entry.id);
+      toast({ title: "Recording Deleted", description: `"${entry.name}" was removed from the library.` });
+    } catch (e) {
+      reportError("Delete Failed", e);
+    }
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <h2 className="flex items-center px-2 text-lg font-medium">
+          <Library className="mr-2 h-5 w-5 text-accent" />
+          Library
+        </h2>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Saved in this browser</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {!supported && <p className="px-2 text-xs text-muted-foreground">This browser can&apos;t store recordings locally.</p>}
+            {error && <p className="px-2 text-xs text-destructive">{error}</p>}
+            {supported && !loading && !error && entries.length === 0 && (
+              <p className="px-2 text-xs text-muted-foreground">Finished recordings and saved clips show up here.</p>
+            )}
+            <SidebarMenu>
+              {loading && Array.from({ length: 3 }, (_, index) => (
+                <SidebarMenuItem key={index}>
+                  <SidebarMenuSkeleton showIcon />
+                </SidebarMenuItem>
+              ))}
+              {entries.map(entry => {
+                const Icon = entry.kind === "clip" ? Scissors : entry.mimeType.startsWith("audio/") ? Headphones : Video;
+                return (
+                  <SidebarMenuItem key={entry.id}>
+                    <SidebarMenuButton className="h-auto flex-col items-start gap-0.5 py-2" onClick={() => handlePreview(entry)}>
+                      <span className="flex w-full items-center gap-2 pr-5">
+                        <Icon className="h-4 w-4 shrink-0" />
+                        <span className="truncate">{entry.name}</span>
+                      </span>
+                      <span className="pl-6 text-xs text-muted-foreground">{entryDetails(entry)}</span>
+                      <span className="pl-6 text-xs text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</span>
+                    </SidebarMenuButton>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover aria-label={`Actions for ${entry.name}`}>
+                          <MoreHorizontal />
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        <DropdownMenuItem onSelect={() => handlePreview(entry)}>
+                          <Play className="mr-2 h-4 w-4" /> Preview
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => setRenaming({ entry, name: entry.name })}>
+                          <Pencil className="mr-2 h-4 w-4" /> Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => handleDownload(entry)}>
+                          <Download className="mr-2 h-4 w-4" /> Download
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onSelect={() => setDeleting(entry)} className="text-destructive focus:text-destructive">
+                          <Trash2 className="mr-2 h-4 w-4" /> Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </SidebarMenuItem>
+                );
+              })}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <Dialog open={previewing !== null} onOpenChange={open => !open && setPreviewing(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{previewing?.entry.name}</DialogTitle>
+            <DialogDescription>{previewing && entryDetails(previewing.entry)}</DialogDescription>
+          </DialogHeader>
+          {previewing && previewUrl && (previewing.entry.mimeType.startsWith("audio/")
+            ? <audio src={previewUrl} controls autoPlay className="w-full" />
+            : <video src={previewUrl} controls autoPlay className="w-full rounded-md" />)}
+          {previewing?.entry.summary && <p className="text-sm text-muted-foreground">{previewing.entry.summary}</p>}
+          {previewing?.entry.tags && previewing.entry.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {previewing.entry.tags.map(tag => (
+                <Badge key={tag} variant="secondary">{tag}</Badge>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => previewing && handleDownload(previewing.entry)}>
+              <Download className="mr-2 h-4 w-4" /> Download
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={renaming !== null} onOpenChange={open => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Rename Recording</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            value={renaming?.name ?? ""}
+            onChange={event => renaming && setRenaming({ ...renaming, name: event.target.value })}
+            onKeyDown={event => event.key === "Enter" && handleRename()}
+            aria-label="Recording name"
+          />
+          <DialogFooter>
+            <Button onClick={handleRename} disabled={!renaming?.name.trim()}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this recording?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deleting?.name}&quot; will be removed from this browser. Downloaded copies are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+}
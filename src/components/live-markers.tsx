@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatTimecode } from '@/lib/edit/timeline';
+import type { RecordingMarker } from '@/lib/edit/markers';
+import { Flag, X } from 'lucide-react';
+
+interface LiveMarkersProps {
+  markers: RecordingMarker[];
+  onDrop: (label: string) => void;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+  /** Shortcut hint shown on the button, e.g. "Alt+Shift+M". */
+  shortcut?: string;
+}
+
+/** Drops labelled markers while recording and lists the ones dropped so far. */
+export default function LiveMarkers({ markers, onDrop, onRemove, disabled, shortcut }: LiveMarkersProps) {
+  const [label, setLabel] = useState("");
+
+  const handleDrop = () => {
+    onDrop(label);
+    setLabel("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          value={label}
+          onChange={event => setLabel(event.target.value)}
+          onKeyDown={event => event.key === "Enter" && handleDrop()}
+          placeholder="Label (optional)"
+          className="h-9"
+          disabled={disabled}
+          aria-label="Marker label"
+        />
+        <Button variant="outline" onClick={handleDrop} disabled={disabled} title={shortcut ? `Drop Marker (${shortcut})` : undefined}>
+          <Flag className="mr-2 h-4 w-4" />
+          Drop Marker
+        </Button>
+      </div>
+      {markers.length > 0 && (
+        <ul className="max-h-40 space-y-1 overflow-y-auto">
+          {markers.map((marker, index) => (
+            <li key={marker.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">
+                <span className="mr-2 tabular-nums text-muted-foreground">{formatTimecode(marker.time)}</span>
+                {marker.label || `Marker ${index + 1}`}
+              </span>
+              <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => onRemove(marker.id)} aria-label="Remove marker">
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
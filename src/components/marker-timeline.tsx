@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { triggerDownload } from '@/lib/download';
+import { formatTimecode } from '@/lib/edit/timeline';
+import { markersToSidecar, markersToWebVtt, markerTitle, sortedMarkers, type RecordingMarker } from '@/lib/edit/markers';
+import { Download, Flag } from 'lucide-react';
+
+interface MarkerTimelineProps {
+  markers: RecordingMarker[];
+  /** Length of the recording when it is known up front; otherwise read from the media element. */
+  duration: number | null;
+  mediaRef: React.RefObject<HTMLMediaElement | null>;
+}
+
+/** Markers on a strip under the preview, as jump points, plus chapter and JSON export. */
+export default function MarkerTimeline({ markers, duration, mediaRef }: MarkerTimelineProps) {
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+    // Unfinalized WebM reports Infinity until it has been played through.
+    const readDuration = () => setMediaDuration(Number.isFinite(media.duration) ? media.duration : null);
+    const handleTimeUpdate = () => setPlayhead(media.currentTime);
+    readDuration();
+    media.addEventListener("durationchange", readDuration);
+    media.addEventListener("timeupdate", handleTimeUpdate);
+    return () => {
+      media.removeEventListener("durationchange", readDuration);
+      media.removeEventListener("timeupdate", handleTimeUpdate);
+    };
+  }, [mediaRef]);
+
+  const total = duration ?? mediaDuration ?? Math.max(0, ...markers.map(marker => marker.time)) + 1;
+  const visible = sortedMarkers(markers, total);
+
+  const jumpTo = (time: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = time;
+    setPlayhead(time);
+  };
+
+  const handleDownloadChapters = () => {
+    const vtt = markersToWebVtt(markers, total);
+    triggerDownload(new Blob([vtt], { type: "text/vtt" }), `ScreenCatcher-Chapters-${new Date().toISOString()}.vtt`);
+  };
+
+  const handleDownloadJson = () => {
+    const json = JSON.stringify(markersToSidecar(markers, total), null, 2);
+    triggerDownload(new Blob([json], { type: "application/json" }), `ScreenCatcher-Markers-${new Date().toISOString()}.json`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative h-6 rounded-sm bg-muted" aria-label="Marker timeline">
+        <span
+          className="absolute top-0 h-full w-px bg-foreground/50"
+          style={{ left: `${Math.min(100, (playhead / total) * 100)}%` }}
+          aria-hidden
+        />
+        {visible.map(marker => (
+          <button
+            key={marker.id}
+            type="button"
+            className="absolute top-0 -translate-x-1/2 text-accent hover:text-primary"
+            style={{ left: `${(marker.time / total) * 100}%` }}
+            onClick={() => jumpTo(marker.time)}
+            title={`${markerTitle(marker, markers.indexOf(marker))} (${formatTimecode(marker.time)})`}
+            aria-label={`Jump to ${markerTitle(marker, markers.indexOf(marker))}`}
+          >
+            <Flag className="h-5 w-5" />
+          </button>
+        ))}
+      </div>
+      <ul className="space-y-1">
+        {visible.map(marker => (
+          <li key={marker.id}>
+            <button
+              type="button"
+              className="flex w-full items-center gap-2 rounded-sm px-1 text-left text-sm hover:bg-muted"
+              onClick={() => jumpTo(marker.time)}
+            >
+              <span className="tabular-nums text-muted-foreground">{formatTimecode(marker.time)}</span>
+              <span className="truncate">{markerTitle(marker, markers.indexOf(marker))}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" size="sm" onClick={handleDownloadChapters}>
+          <Download className="mr-2 h-4 w-4" />
+          Chapters (.vtt)
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDownloadJson}>
+          <Download className="mr-2 h-4 w-4" />
+          Markers (.json)
+        </Button>
+      </div>
+    </div>
+  );
+}
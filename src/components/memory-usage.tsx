@@ -0,0 +1,39 @@
+"use client";
+
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { formatBytes } from "@/lib/export/animated-image-export";
+import { LOW_STORAGE_BYTES } from "@/lib/recorder/recorder-engine";
+import { cn } from '@/lib/utils';
+
+interface MemoryUsageProps {
+  memoryBytes: number;
+  spilledBytes: number;
+  budget: number;
+  /** Null while unknown. */
+  storageFree: number | null;
+}
+
+/** How much of the memory budget a recording uses, what moved to disk and the storage left for it. */
+export default function MemoryUsage({ memoryBytes, spilledBytes, budget, storageFree }: MemoryUsageProps) {
+  const ratio = Math.min(1, memoryBytes / budget);
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground">
+      <div className="flex items-center justify-between">
+        <span>In memory</span>
+        <span className="tabular-nums">{formatBytes(memoryBytes)} of {formatBytes(budget)}</span>
+      </div>
+      <Progress value={ratio * 100} className="h-2" aria-label="Memory budget used" />
+      <div className="flex items-center justify-between">
+        <span>Moved to disk</span>
+        <span className="tabular-nums">{formatBytes(spilledBytes)}</span>
+      </div>
+      {storageFree !== null && (
+        <div className="flex items-center justify-between">
+          <span>Storage left</span>
+          <span className={cn("tabular-nums", storageFree < LOW_STORAGE_BYTES && "text-destructive")}>{formatBytes(storageFree)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { formatBinding, type ShortcutAction, type ShortcutBindings } from '@/lib/shortcuts';
+import { Flag, Pause, Play, Save, StopCircle, Video } from 'lucide-react';
+
+interface PipControlsProps {
+  isRecording: boolean;
+  paused: boolean;
+  /** Markers only apply to regular recordings, not Instant Replay. */
+  canMark: boolean;
+  /** Start is unavailable while permission is pending or a finished recording waits to be downloaded. */
+  canStart: boolean;
+  statusText: string;
+  clipDurations: { label: string; value: number }[];
+  bindings: ShortcutBindings;
+  onAction: (action: ShortcutAction) => void;
+}
+
+/** Compact recording controls for the Picture-in-Picture window, which stays on top of other windows. */
+export default function PipControls({ isRecording, paused, canMark, canStart, statusText, clipDurations, bindings, onAction }: PipControlsProps) {
+  const hint = (action: ShortcutAction) => {
+    const binding = bindings[action];
+    return binding ? ` (${formatBinding(binding)})` : "";
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col gap-2 bg-background p-3 text-foreground">
+      <p className="flex items-center text-sm font-medium">
+        {isRecording && !paused && <span className="mr-2 h-2.5 w-2.5 animate-pulse rounded-full bg-red-500" aria-hidden />}
+        {statusText}
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          size="sm"
+          variant={isRecording ? "destructive" : "default"}
+          onClick={() => onAction("toggle-recording")}
+          disabled={!isRecording && !canStart}
+          title={`${isRecording ? "Stop" : "Start"} recording${hint("toggle-recording")}`}
+        >
+          {isRecording ? <StopCircle className="mr-1 h-4 w-4" /> : <Video className="mr-1 h-4 w-4" />}
+          {isRecording ? "Stop" : "Record"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onAction("toggle-pause")}
+          disabled={!isRecording}
+          title={`${paused ? "Resume" : "Pause"}${hint("toggle-pause")}`}
+        >
+          {paused ? <Play className="mr-1 h-4 w-4" /> : <Pause className="mr-1 h-4 w-4" />}
+          {paused ? "Resume" : "Pause"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="col-span-2"
+          onClick={() => onAction("drop-marker")}
+          disabled={!canMark}
+          title={`Drop marker${hint("drop-marker")}`}
+        >
+          <Flag className="mr-1 h-4 w-4" />
+          Marker
+        </Button>
+        {clipDurations.map(({ label, value }) => (
+          <Button
+            key={value}
+            size="sm"
+            variant="secondary"
+            onClick={() => onAction(`save-clip-${value}`)}
+            disabled={!isRecording}
+            title={`Save clip: ${label}${hint(`save-clip-${value}`)}`}
+          >
+            <Save className="mr-1 h-4 w-4" />
+            {label.replace(/^Last /, "")}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import LabeledSelect from '@/components/labeled-select';
+import {
+  AUDIO_BITRATE_OPTIONS,
+  FRAME_RATE_OPTIONS,
+  MAX_HEIGHT_OPTIONS,
+  QUALITY_PRESETS,
+  VIDEO_BITRATE_OPTIONS,
+  formatBitrate,
+  type QualityPresetId,
+  type QualitySettings,
+  type VideoCodecOption,
+} from '@/lib/recorder/quality';
+
+interface QualitySettingsPanelProps {
+  settings: QualitySettings;
+  preset: QualityPresetId | "custom";
+  onChange: (settings: QualitySettings, preset: QualityPresetId | "custom") => void;
+  /** Codecs the browser accepts. Loaded on the client since MediaRecorder doesn't exist during SSR. */
+  loadCodecs: () => { option: VideoCodecOption }[];
+  disabled?: boolean;
+}
+
+/** Presets plus individual codec, bitrate, frame rate and resolution controls. */
+export default function QualitySettingsPanel({ settings, preset, onChange, loadCodecs, disabled }: QualitySettingsPanelProps) {
+  const [codecs, setCodecs] = useState<VideoCodecOption[]>([]);
+
+  useEffect(() => {
+    setCodecs(loadCodecs().map(entry => entry.option));
+  }, [loadCodecs]);
+
+  const update = (patch: Partial<QualitySettings>) => onChange({ ...settings, ...patch }, "custom");
+  const activePreset = QUALITY_PRESETS.find(p => p.id === preset);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {QUALITY_PRESETS.map(p => (
+          <Button
+            key={p.id}
+            type="button"
+            size="sm"
+            variant={preset === p.id ? "default" : "outline"}
+            className="transition-all"
+            onClick={() => onChange(p.settings, p.id)}
+            disabled={disabled}
+            aria-pressed={preset === p.id}
+          >
+            {p.label}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {activePreset ? activePreset.description : "Custom settings."}
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <LabeledSelect
+          id="quality-codec"
+          label="Video codec"
+          value={settings.codec}
+          onValueChange={value => update({ codec: value as QualitySettings["codec"] })}
+          options={[{ value: "auto", label: "Automatic" }, ...codecs.map(c => ({ value: c.codec, label: c.label }))]}
+          disabled={disabled}
+        />
+        <LabeledSelect
+          id="quality-resolution"
+          label="Max resolution"
+          value={String(settings.maxHeight)}
+          onValueChange={value => update({ maxHeight: Number(value) })}
+          options={[{ value: "0", label: "Native" }, ...MAX_HEIGHT_OPTIONS.map(h => ({ value: String(h), label: `${h}p` }))]}
+          disabled={disabled}
+        />
+        <LabeledSelect
+          id="quality-video-bitrate"
+          label="Video bitrate"
+          value={String(settings.videoBitsPerSecond ?? 0)}
+          onValueChange={value => update({ videoBitsPerSecond: Number(value) || undefined })}
+          options={[{ value: "0", label: "Automatic" }, ...VIDEO_BITRATE_OPTIONS.map(b => ({ value: String(b), label: formatBitrate(b) }))]}
+          disabled={disabled}
+        />
+        <LabeledSelect
+          id="quality-audio-bitrate"
+          label="Audio bitrate"
+          value={String(settings.audioBitsPerSecond ?? 0)}
+          onValueChange={value => update({ audioBitsPerSecond: Number(value) || undefined })}
+          options={[{ value: "0", label: "Automatic" }, ...AUDIO_BITRATE_OPTIONS.map(b => ({ value: String(b), label: formatBitrate(b) }))]}
+          disabled={disabled}
+        />
+        <LabeledSelect
+          id="quality-framerate"
+          label="Max frame rate"
+          value={String(settings.maxFrameRate)}
+          onValueChange={value => update({ maxFrameRate: Number(value) })}
+          options={[{ value: "0", label: "Unlimited" }, ...FRAME_RATE_OPTIONS.map(f => ({ value: String(f), label: `${f} fps` }))]}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
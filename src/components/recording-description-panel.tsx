@@ -0,0 +1,57 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import UploadConsentDialog from '@/components/upload-consent-dialog';
+import type { RecordingDescription } from '@/ai/flows/describe-recording';
+import { Loader2, Sparkles } from 'lucide-react';
+
+interface RecordingDescriptionPanelProps {
+  description: RecordingDescription | null;
+  pending: boolean;
+  error: string | null;
+  onDescribe: () => void;
+}
+
+/** Suggest button, which asks before uploading anything, then the suggested title, summary and tags. */
+export default function RecordingDescriptionPanel({ description, pending, error, onDescribe }: RecordingDescriptionPanelProps) {
+  const [confirming, setConfirming] = useState(false);
+
+  if (!description) {
+    return (
+      <div className="space-y-2">
+        <Button onClick={() => setConfirming(true)} variant="outline" className="w-full" disabled={pending} aria-label="Suggest a title, summary and tags">
+          {pending ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Sparkles className="mr-2 h-5 w-5" />}
+          {pending ? "Looking at the recording..." : "Suggest Title & Tags"}
+        </Button>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <UploadConsentDialog
+          open={confirming}
+          onOpenChange={setConfirming}
+          what="A few still frames from the recording, and its transcript if it has one,"
+          purpose="to suggest a title, summary and tags"
+          confirmLabel="Upload & Suggest"
+          onConfirm={onDescribe}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="flex items-center font-medium text-foreground">
+        <Sparkles className="mr-2 h-4 w-4 shrink-0 text-accent" />
+        {description.title}
+      </p>
+      <p className="text-sm text-muted-foreground">{description.summary}</p>
+      {description.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {description.tags.map(tag => (
+            <Badge key={tag} variant="secondary">{tag}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import LabeledSelect from '@/components/labeled-select';
+import ExportProgress from '@/components/export-progress';
+import AnimatedImageSettingsPanel from '@/components/animated-image-settings-panel';
+import { useToast } from "@/hooks/use-toast";
+import { useExportJob } from "@/hooks/use-export-job";
+import { triggerDownload } from "@/lib/download";
+import { availableExportFormats, type ExportFormatId } from "@/lib/export/formats";
+import type { AnimatedImageFormat, AnimatedImageSettings } from "@/lib/export/animated-image-export";
+import type { CaptionCue } from "@/lib/transcript/captions";
+import { Captions, Download } from 'lucide-react';
+
+interface RecordingExportProps {
+  recording: Blob;
+  /** Filename without timestamp or extension, e.g. "ScreenCatcher-Full-Recording". */
+  filenamePrefix: string;
+  animation: AnimatedImageSettings;
+  onAnimationChange: (settings: AnimatedImageSettings) => void;
+  /** Offered for burning into formats that support it. */
+  captions?: readonly CaptionCue[] | null;
+}
+
+/** Format picker and download button for a finished recording, converting it locally when needed. */
+export default function RecordingExport({ recording, filenamePrefix, animation, onAnimationChange, captions }: RecordingExportProps) {
+  const { toast } = useToast();
+  const exportJob = useExportJob();
+  const formats = useMemo(() => availableExportFormats(recording.type), [recording.type]);
+  const [formatId, setFormatId] = useState<ExportFormatId>("original");
+  const [burnCaptions, setBurnCaptions] = useState(false);
+
+  const format = formats.find(entry => entry.id === formatId) ?? formats[0];
+  const extension = format.extension(recording.type);
+  const canBurnCaptions = !!format.captions && !!captions?.length;
+
+  const handleDownload = async () => {
+    const { convert } = format;
+    const burnIn = canBurnCaptions && burnCaptions ? captions! : undefined;
+    const blob = convert ? await exportJob.run(options => convert(recording, { ...options, animation, captions: burnIn })) : recording;
+    if (!blob) return;
+    triggerDownload(blob, `${filenamePrefix}-${new Date().toISOString()}.${extension}`);
+    toast(format.convert
+      ? { title: "Export Complete", description: `Your ${format.label} file is downloading.` }
+      : { title: "Download Started", description: "Your full recording is downloading." });
+  };
+
+  return (
+    <div className="space-y-3">
+      {formats.length > 1 && (
+        <LabeledSelect
+          id="export-format"
+          label="Format"
+          value={format.id}
+          onValueChange={value => setFormatId(value as ExportFormatId)}
+          options={formats.map(entry => ({ value: entry.id, label: `${entry.label} (.${entry.extension(recording.type)})` }))}
+          disabled={exportJob.isExporting}
+        />
+      )}
+      {format.kind === "animation" && (
+        <AnimatedImageSettingsPanel
+          format={format.id as AnimatedImageFormat}
+          settings={animation}
+          onChange={onAnimationChange}
+          idPrefix="export-animation"
+          disabled={exportJob.isExporting}
+        />
+      )}
+      {canBurnCaptions && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="burn-captions" className="flex items-center text-sm">
+            <Captions className="mr-2 h-4 w-4 text-accent" />
+            Burn In Captions
+          </Label>
+          <Switch
+            id="burn-captions"
+            checked={burnCaptions}
+            onCheckedChange={setBurnCaptions}
+            disabled={exportJob.isExporting}
+            aria-label="Toggle burning captions into the video"
+          />
+        </div>
+      )}
+      {exportJob.progress ? (
+        <ExportProgress progress={exportJob.progress} onCancel={exportJob.cancel} />
+      ) : (
+        <Button
+          onClick={handleDownload}
+          className="w-full bg-accent hover:bg-accent/90 text-accent-foreground transition-all"
+          aria-label="Download full recording"
+        >
+          <Download className="mr-2 h-5 w-5" />
+          Download Full Recording (.{extension})
+        </Button>
+      )}
+    </div>
+  );
+}
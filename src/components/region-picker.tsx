@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useRef } from 'react';
+import { useStreamPreview } from "@/hooks/use-stream-preview";
+import { clampRegion, MIN_REGION_SIDE, type Region } from "@/lib/video/region";
+
+interface RegionPickerProps {
+  /** The uncropped surface. */
+  stream: MediaStream;
+  region: Region;
+  onChange: (region: Region) => void;
+  /** Called once a drag ends, for applying a region only when the user lets go. */
+  onCommit?: (region: Region) => void;
+}
+
+type Corner = "nw" | "ne" | "sw" | "se";
+
+type Drag =
+  | { kind: "draw"; origin: { x: number; y: number } }
+  | { kind: "move"; origin: { x: number; y: number }; start: Region }
+  | { kind: "resize"; corner: Corner; start: Region };
+
+const CORNERS: { corner: Corner; className: string }[] = [
+  { corner: "nw", className: "-left-1.5 -top-1.5 cursor-nwse-resize" },
+  { corner: "ne", className: "-right-1.5 -top-1.5 cursor-nesw-resize" },
+  { corner: "sw", className: "-bottom-1.5 -left-1.5 cursor-nesw-resize" },
+  { corner: "se", className: "-bottom-1.5 -right-1.5 cursor-nwse-resize" },
+];
+
+/** Live preview of the shared surface with a crop rectangle to drag, move and resize. */
+export default function RegionPicker({ stream, region, onChange, onCommit }: RegionPickerProps) {
+  const { videoRef, aspect } = useStreamPreview(stream);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const latestRef = useRef(region);
+  latestRef.current = region;
+
+  const pointAt = (event: React.PointerEvent) => {
+    const bounds = frameRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height)),
+    };
+  };
+
+  const beginDrag = (event: React.PointerEvent, drag: Drag) => {
+    event.stopPropagation();
+    frameRef.current?.setPointerCapture(event.pointerId);
+    dragRef.current = drag;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = pointAt(event);
+    if (drag.kind === "draw") {
+      const { origin } = drag;
+      onChange(clampRegion({
+        x: Math.min(origin.x, point.x),
+        y: Math.min(origin.y, point.y),
+        width: Math.max(Math.abs(point.x - origin.x), MIN_REGION_SIDE),
+        height: Math.max(Math.abs(point.y - origin.y), MIN_REGION_SIDE),
+      }));
+    } else if (drag.kind === "move") {
+      const { origin, start } = drag;
+      onChange(clampRegion({ ...start, x: start.x + point.x - origin.x, y: start.y + point.y - origin.y }));
+    } else {
+      const { corner, start } = drag;
+      const right = start.x + start.width;
+      const bottom = start.y + start.height;
+      // The opposite corner stays put.
+      const left = corner.endsWith("w") ? Math.min(point.x, right - MIN_REGION_SIDE) : start.x;
+      const top = corner.startsWith("n") ? Math.min(point.y, bottom - MIN_REGION_SIDE) : start.y;
+      const width = corner.endsWith("w") ? right - left : Math.max(point.x - start.x, MIN_REGION_SIDE);
+      const height = corner.startsWith("n") ? bottom - top : Math.max(point.y - start.y, MIN_REGION_SIDE);
+      onChange(clampRegion({ x: left, y: top, width, height }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    onCommit?.(latestRef.current);
+  };
+
+  return (
+    <div
+      ref={frameRef}
+      className="relative w-full touch-none select-none overflow-hidden rounded-md bg-black shadow-md cursor-crosshair"
+      style={{ aspectRatio: aspect }}
+      onPointerDown={event => beginDrag(event, { kind: "draw", origin: pointAt(event) })}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <video ref={videoRef} autoPlay muted playsInline className="pointer-events-none absolute inset-0 h-full w-full" />
+      <div
+        className="absolute cursor-move border-2 border-accent shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+        style={{
+          left: `${region.x * 100}%`,
+          top: `${region.y * 100}%`,
+          width: `${region.width * 100}%`,
+          height: `${region.height * 100}%`,
+        }}
+        onPointerDown={event => beginDrag(event, { kind: "move", origin: pointAt(event), start: region })}
+        role="presentation"
+      >
+        {CORNERS.map(({ corner, className }) => (
+          <span
+            key={corner}
+            className={`absolute h-3 w-3 rounded-sm border-2 border-accent bg-background ${className}`}
+            onPointerDown={event => beginDrag(event, { kind: "resize", corner, start: region })}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
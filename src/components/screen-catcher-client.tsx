@@ -1,19 +1,65 @@
 
 "use client";
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useToast } from "@/hooks/use-toast";
-import { AudioWaveform, Mic, Clapperboard, Video, StopCircle, Download, AlertTriangle, CheckCircle2, Save } from 'lucide-react';
-
-type RecordingStatus = "idle" | "permission_pending" | "recording" | "stopped_pending_full_download" | "error";
-
-const MAIN_RECORDING_CHUNK_DURATION_MS = 1000; // 1 second chunks for main recording
+import { useObjectUrl, useRecorderEngine } from "@/hooks/use-recorder-engine";
+import { DEFAULT_REPLAY_WINDOW_SECONDS, NoKeyframeError, type RecorderNotice } from "@/lib/recorder/recorder-engine";
+import { fileExtensionFor, filenameSlug, triggerDownload } from "@/lib/download";
+import { DEFAULT_QUALITY_PRESET, QUALITY_PRESETS, type QualityPresetId, type QualitySettings } from "@/lib/recorder/quality";
+import QualitySettingsPanel from "@/components/quality-settings-panel";
+import RecordingExport from "@/components/recording-export";
+import ExportProgress from "@/components/export-progress";
+import MemoryUsage from "@/components/memory-usage";
+import LabeledSelect from "@/components/labeled-select";
+import AnimatedImageSettingsPanel from "@/components/animated-image-settings-panel";
+import { useExportJob } from "@/hooks/use-export-job";
+import { availableExportFormats, type ExportFormatId } from "@/lib/export/formats";
+import { DEFAULT_ANIMATED_IMAGE_SETTINGS, type AnimatedImageFormat, type AnimatedImageSettings } from "@/lib/export/animated-image-export";
+import { DEFAULT_AUDIO_SOURCE_SETTINGS, type AudioSourceId, type AudioSourceSettings } from "@/lib/audio/audio-mixer";
+import AudioSourceMix from "@/components/audio-source-mix";
+import CameraOverlaySettingsPanel from "@/components/camera-overlay-settings-panel";
+import AnnotationSurface from "@/components/annotation-surface";
+import RegionPicker from "@/components/region-picker";
+import CombinedScreensPanel from "@/components/combined-screens-panel";
+import { DEFAULT_SOURCE_LAYOUT, type SourceLayout } from "@/lib/video/layout";
+import { FULL_REGION, isFullRegion, type Region } from "@/lib/video/region";
+import { DEFAULT_CAMERA_OVERLAY_SETTINGS, type CameraOverlaySettings } from "@/lib/video/camera-overlay";
+import { useAudioLevels, useLevelHistory, useMicPreviewLevel, useWaveformPeaks } from "@/hooks/use-audio-levels";
+import WaveformView from "@/components/waveform-view";
+import TrimEditor from "@/components/trim-editor";
+import EdlEditor from "@/components/edl-editor";
+import { useRecordingTimeline } from "@/hooks/use-recording-timeline";
+import ShortcutSettingsDialog from "@/components/shortcut-settings-dialog";
+import PipControls from "@/components/pip-controls";
+import LiveMarkers from "@/components/live-markers";
+import MarkerTimeline from "@/components/marker-timeline";
+import TranscriptPanel from "@/components/transcript-panel";
+import { useTranscription } from "@/hooks/use-transcription";
+import RecordingDescriptionPanel from "@/components/recording-description-panel";
+import { useRecordingDescription } from "@/hooks/use-recording-description";
+import { cuesToWebVtt, transcriptToCues } from "@/lib/transcript/captions";
+import { useShortcutBindings, useShortcuts } from "@/hooks/use-shortcuts";
+import { useDocumentPip } from "@/hooks/use-document-pip";
+import { formatBinding, shortcutActions, type ShortcutAction } from "@/lib/shortcuts";
+import { formatTimecode } from "@/lib/edit/timeline";
+import { addEntry, isLibrarySupported, LibraryError, updateEntry, type LibraryEntry, type NewLibraryEntry } from "@/lib/library/recording-library";
+import { DEFAULT_MEMORY_BUDGET_BYTES } from "@/lib/recorder/chunk-spill";
+import { createFileSink, isFileSinkSupported, pickRecordingFile, type RecordingSink } from "@/lib/recorder/file-sink";
+import { recoverSession, type JournalSession } from "@/lib/library/session-journal";
+import { useRecoverableSessions, useSessionJournal } from "@/hooks/use-crash-recovery";
+import { formatBytes } from "@/lib/export/animated-image-export";
+import { DEFAULT_SILENCE_WARNING_SECONDS } from "@/lib/audio/level-meter";
+import { MAX_WAVEFORM_BYTES } from "@/lib/audio/waveform";
+import { AudioWaveform, Mic, Clapperboard, Video, StopCircle, AlertTriangle, CheckCircle2, Save, History, SlidersHorizontal, Headphones, Film, Webcam, PenLine, Crop, LayoutGrid, Pause, Play, Keyboard, PictureInPicture2, Flag, LifeBuoy, HardDriveDownload, MemoryStick } from 'lucide-react';
 
 const LIVE_CLIP_DURATIONS = [
   { label: "Last 30 Seconds", value: 30 },
@@ -22,323 +68,416 @@ const LIVE_CLIP_DURATIONS = [
   { label: "Last 5 Minutes", value: 300 },
 ];
 
-const REPLAY_CHUNK_DURATION_MS = 5000; // 5 seconds per chunk
-const REPLAY_CHUNK_DURATION_SECONDS = REPLAY_CHUNK_DURATION_MS / 1000;
+const SHORTCUT_ACTIONS = shortcutActions(LIVE_CLIP_DURATIONS);
+
+/** Size of the pop-out controls window. */
+const PIP_WINDOW_SIZE = { width: 320, height: 260 };
+
+/** How a silence warning names the source, from its mixer id. */
+function silentSourceName(id: string | undefined): string {
+  if (id === "mic") return "Your microphone";
+  if (id?.startsWith("screen-")) return `Screen ${id.slice("screen-".length)} audio`;
+  return "System audio";
+}
+
+/** Bars in the live and finished audio-only waveforms. */
+const WAVEFORM_BARS = 120;
+
+const REPLAY_BUFFER_DURATIONS = [
+  { label: "30 Seconds", value: 30 },
+  { label: "1 Minute", value: 60 },
+  { label: "2 Minutes", value: 120 },
+  { label: "3 Minutes", value: 180 },
+];
+
+const MEMORY_BUDGETS = [
+  { label: "256 MB", value: 256_000_000 },
+  { label: "512 MB", value: 512_000_000 },
+  { label: "1 GB", value: 1_000_000_000 },
+  { label: "2 GB", value: 2_000_000_000 },
+];
 
 export default function ScreenCatcherClient() {
-  const [status, setStatus] = useState<RecordingStatus>("idle");
+  const [audioOnly, setAudioOnly] = useState(false);
   const [includeSystemAudio, setIncludeSystemAudio] = useState(true);
   const [includeMicAudio, setIncludeMicAudio] = useState(false);
-  const [recordedVideoUrl, setRecordedVideoUrl] = useState<string | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [numRecordedChunks, setNumRecordedChunks] = useState(0);
+  const [audioMix, setAudioMix] = useState<Record<AudioSourceId, AudioSourceSettings>>({
+    system: DEFAULT_AUDIO_SOURCE_SETTINGS,
+    mic: DEFAULT_AUDIO_SOURCE_SETTINGS,
+  });
+  const [includeCamera, setIncludeCamera] = useState(false);
+  const [cameraOverlay, setCameraOverlay] = useState<CameraOverlaySettings>(DEFAULT_CAMERA_OVERLAY_SETTINGS);
+  const [annotate, setAnnotate] = useState(false);
+  const [recordRegion, setRecordRegion] = useState(false);
+  const [region, setRegion] = useState<Region>(FULL_REGION);
+  const [combineScreens, setCombineScreens] = useState(false);
+  const [screenLayout, setScreenLayout] = useState<SourceLayout>(DEFAULT_SOURCE_LAYOUT);
+
+  const [qualityPreset, setQualityPreset] = useState<QualityPresetId | "custom">(DEFAULT_QUALITY_PRESET);
+  const [quality, setQuality] = useState<QualitySettings>(
+    () => QUALITY_PRESETS.find(preset => preset.id === DEFAULT_QUALITY_PRESET)!.settings,
+  );
 
   const [enableInstantReplay, setEnableInstantReplay] = useState(false);
-  const [instantReplayBufferDuration, setInstantReplayBufferDuration] = useState(180); // Default to 3 minutes for buffer
-  const instantReplayBufferDurationRef = useRef(instantReplayBufferDuration);
+  const [saveToFile, setSaveToFile] = useState(false);
+  const [memoryBudget, setMemoryBudget] = useState(DEFAULT_MEMORY_BUDGET_BYTES);
+  const [stopWhenLow, setStopWhenLow] = useState(false);
+  // Read after mount, the picker only exists in some browsers and never during SSR.
+  const [fileSinkSupported, setFileSinkSupported] = useState(false);
+  useEffect(() => setFileSinkSupported(isFileSinkSupported()), []);
+  const [instantReplayBufferDuration, setInstantReplayBufferDuration] = useState(DEFAULT_REPLAY_WINDOW_SECONDS);
+  const [clipFormatId, setClipFormatId] = useState<ExportFormatId>("original");
+  const [clipEndMarkerId, setClipEndMarkerId] = useState("now");
+  const [animationSettings, setAnimationSettings] = useState<AnimatedImageSettings>(DEFAULT_ANIMATED_IMAGE_SETTINGS);
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const recordedChunksRef = useRef<Blob[]>([]);
-  const chosenMimeTypeRef = useRef<string>('video/webm');
+  const { toast } = useToast();
 
+  const handleNotice = useCallback((notice: RecorderNotice) => {
+    switch (notice.kind) {
+      case "unsupported":
+        toast({ title: "Error", description: "Screen recording not supported.", variant: "destructive" });
+        break;
+      case "permission_denied":
+        toast({ title: "Permission Denied", description: "Screen recording permission was denied.", variant: "destructive" });
+        break;
+      case "display_media_error":
+        toast({ title: "Screen Access Error", description: notice.detail, variant: "destructive" });
+        break;
+      case "mic_denied":
+        toast({ title: "Microphone Denied", description: "Mic access denied. Recording without mic.", variant: "default" });
+        break;
+      case "mic_error":
+        toast({ title: "Microphone Error", description: "Could not access microphone. Recording without mic audio.", variant: "destructive" });
+        break;
+      case "camera_denied":
+        toast({ title: "Camera Denied", description: "Camera access denied. Recording without the webcam overlay.", variant: "default" });
+        break;
+      case "camera_error":
+        toast({ title: "Camera Error", description: "Could not access the camera. Recording without the webcam overlay.", variant: "destructive" });
+        break;
+      case "compositor_unsupported":
+        toast({ title: "Overlays Unavailable", description: "This browser can't draw the webcam or annotations into the recording.", variant: "destructive" });
+        break;
+      case "no_audio_source":
+        toast({ title: "No Audio Source", description: "Audio-only recording needs tab/system audio or the microphone.", variant: "destructive" });
+        break;
+      case "source_ended":
+        toast({ title: "Screen Share Ended", description: "Screen sharing was stopped from browser UI or window closed.", variant: "default" });
+        break;
+      case "screen_ended":
+        toast({ title: "Screen Removed", description: `${notice.detail} stopped sharing. Recording continues with the remaining screens.` });
+        break;
+      case "recorder_error":
+        toast({ title: "Recorder Error", description: "An error occurred with the media recorder.", variant: "destructive" });
+        break;
+      case "stop_failed":
+        toast({ title: "Error Stopping", description: "Could not stop recorder. Please refresh.", variant: "destructive" });
+        break;
+      case "recording_empty":
+        toast({ title: "Recording Empty", description: "No data was captured.", variant: "destructive" });
+        break;
+      case "recording_started":
+        toast({ title: "Recording Started", icon: <Video className="h-5 w-5 text-red-500" /> });
+        break;
+      case "replay_started":
+        toast({ title: "Instant Replay Running", description: "Only the most recent footage is kept. Save it whenever something happens." });
+        break;
+      case "source_silent":
+        toast({
+          title: "No Sound Detected",
+          description: `${silentSourceName(notice.detail)} has been silent for ${DEFAULT_SILENCE_WARNING_SECONDS}s. Check your input.`,
+          variant: "destructive",
+        });
+        break;
+      case "file_write_failed":
+        toast({
+          title: "Could Not Write File",
+          description: `Writing to ${notice.detail ?? "the recording file"} failed. Check the disk has space and the file is still there.`,
+          variant: "destructive",
+        });
+        break;
+      case "memory_low":
+        toast({
+          title: notice.detail === "storage" ? "Storage Almost Full" : "Running Low on Memory",
+          description: "Stop soon to keep this recording, or the browser may close the tab.",
+          variant: "destructive",
+        });
+        break;
+      case "stopped_memory_low":
+        toast({
+          title: "Recording Stopped Early",
+          description: `${notice.detail === "storage" ? "Storage" : "Memory"} was running out, so the recording was stopped and kept.`,
+          variant: "destructive",
+        });
+        break;
+      case "recording_finished":
+        toast({
+          title: "Recording Finished",
+          description: notice.detail === "unindexed"
+            ? "Your recording is ready. It was too large to index in memory, so some players won't show its length or let you seek."
+            : "Your recording is ready.",
+          icon: <CheckCircle2 className="h-5 w-5 text-green-500" />,
+        });
+        break;
+    }
+  }, [toast]);
 
-  const { toast } = useToast();
+  const { engine, status, errorMessage, chunkCount: numRecordedChunks, recording, mode, finalizing, mimeType, selectingRegion, screens, paused, markers, source, outputFile, memoryBytes, spilledBytes, storageFree } = useRecorderEngine(handleNotice);
+  const recordedVideoUrl = useObjectUrl(recording);
+  const clipExport = useExportJob();
+  const shortcuts = useShortcutBindings(SHORTCUT_ACTIONS);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const pip = useDocumentPip();
 
   const isRecordingInProgress = status === "recording";
   const isPermissionPending = status === "permission_pending";
   const showDownloadOptions = status === "stopped_pending_full_download";
+  const isReplayRunning = isRecordingInProgress && mode === "replay";
 
-  const cleanupStream = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-  }, []);
-
-  const cleanupRecorder = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
-      try {
-        mediaRecorderRef.current.stop();
-      } catch (e) {
-        console.warn("Error stopping media recorder during cleanup:", e);
-      }
-    }
-    mediaRecorderRef.current = null;
-  }, []);
-
-  const cleanupFullRecordingState = useCallback(() => {
-    cleanupStream();
-    cleanupRecorder();
-    recordedChunksRef.current = [];
-    if (recordedVideoUrl) {
-      URL.revokeObjectURL(recordedVideoUrl);
-      setRecordedVideoUrl(null);
-    }
-    setNumRecordedChunks(0);
-  }, [cleanupStream, cleanupRecorder, recordedVideoUrl]);
-
-
-  const handleStopRecording = useCallback(() => {
-    console.log("handleStopRecording called. Current status:", status);
-    if (mediaRecorderRef.current) {
-      if (mediaRecorderRef.current.state === "recording" || mediaRecorderRef.current.state === "paused") {
-        try {
-          console.log("Attempting to stop media recorder.");
-          mediaRecorderRef.current.stop(); // onstop will handle further state changes
-          // Toast is handled in onstop
-        } catch (error) {
-          console.error("Error explicitly stopping MediaRecorder:", error);
-          toast({ title: "Error Stopping", description: "Could not stop recorder. Please refresh.", variant: "destructive" });
-          cleanupFullRecordingState(); // Force cleanup
-          setStatus("error");
-          setErrorMessage("Error stopping recorder. State has been reset.");
-        }
-      } else {
-        console.warn("Stop called but recorder not in recording/paused state:", mediaRecorderRef.current.state);
-        // If not recording, but somehow in a stop state, ensure UI consistency
-        if (status !== "idle" && status !== "error" && status !== "stopped_pending_full_download") {
-          cleanupFullRecordingState();
-          setStatus("idle");
-        }
-      }
-    } else {
-      console.warn("handleStopRecording called but no mediaRecorderRef.current");
-      if (status !== "idle" && status !== "error" && status !== "stopped_pending_full_download") {
-         cleanupFullRecordingState();
-         setStatus("idle");
-      }
-    }
-  }, [status, toast, cleanupFullRecordingState]);
+  const liveLevels = useAudioLevels(engine, isRecordingInProgress);
+  const micPreviewLevel = useMicPreviewLevel(includeMicAudio && (status === "idle" || status === "error"));
 
+  const isAudioSession = mimeType.startsWith("audio/");
+  const isAudioRecording = recording?.type.startsWith("audio/") ?? false;
+  const liveLevel = Math.max(liveLevels.system ?? 0, liveLevels.mic ?? 0);
+  const levelHistory = useLevelHistory(liveLevel, isRecordingInProgress && isAudioSession, WAVEFORM_BARS);
+  const recordingPeaks = useWaveformPeaks(isAudioRecording ? recording : null, WAVEFORM_BARS);
+  const previewVideoRef = useRef<HTMLVideoElement>(null);
+  const previewAudioRef = useRef<HTMLAudioElement>(null);
+  const previewRef = isAudioRecording ? previewAudioRef : previewVideoRef;
+  const recordingTimeline = useRecordingTimeline(recording);
+  const transcription = useTranscription(recording);
+  const captionCues = useMemo(
+    () => (transcription.transcript ? transcriptToCues(transcription.transcript.segments) : null),
+    [transcription.transcript],
+  );
+  const captionsVtt = useMemo(
+    () => (captionCues?.length ? new Blob([cuesToWebVtt(captionCues)], { type: "text/vtt" }) : null),
+    [captionCues],
+  );
+  const captionsUrl = useObjectUrl(captionsVtt);
+  const recordingDescription = useRecordingDescription(recording, transcription.transcript);
+  const describedSlug = recordingDescription.description ? filenameSlug(recordingDescription.description.title) : "";
 
-  const handleStreamStopFromBrowser = useCallback(() => {
-    toast({ title: "Screen Share Ended", description: "Screen sharing was stopped from browser UI or window closed.", variant: "default" });
-    if (status === "recording") {
-      handleStopRecording();
-    }
-  }, [status, handleStopRecording, toast]);
+  // Only read while recording, so format detection never runs during SSR.
+  const clipFormats = useMemo(() => (isRecordingInProgress ? availableExportFormats(mimeType) : []), [isRecordingInProgress, mimeType]);
+  const clipFormat = clipFormats.find(format => format.id === clipFormatId) ?? clipFormats[0];
+  // Live clips end now, or at a marker when one is picked.
+  const clipEndMarker = markers.find(marker => marker.id === clipEndMarkerId) ?? null;
+  const clipChunksAvailable = clipEndMarker ? Math.min(numRecordedChunks, engine.chunksNeededFor(clipEndMarker.time)) : numRecordedChunks;
 
+  const loadSupportedCodecs = useCallback(() => engine.supportedCodecs(), [engine]);
 
-  const startRecordingSharedLogic = useCallback(async (forReplay: boolean, timesliceOverride?: number) => {
-    if (!navigator.mediaDevices || !navigator.mediaDevices.getDisplayMedia) {
-      setErrorMessage("Screen recording is not supported by your browser.");
-      setStatus("error");
-      toast({ title: "Error", description: "Screen recording not supported.", variant: "destructive" });
-      return false;
-    }
+  const handleQualityChange = (settings: QualitySettings, preset: QualityPresetId | "custom") => {
+    setQuality(settings);
+    setQualityPreset(preset);
+  };
 
-    // Reset relevant state for a new recording/buffering session
-    setErrorMessage(null);
-    if (recordedVideoUrl && !forReplay) URL.revokeObjectURL(recordedVideoUrl);
-    if (!forReplay) setRecordedVideoUrl(null);
-    
-    recordedChunksRef.current = []; // Clear chunks for new session
-    if(!forReplay) setNumRecordedChunks(0);
+  const handleAudioMixChange = (id: AudioSourceId, patch: Partial<AudioSourceSettings>) => {
+    setAudioMix(prev => ({ ...prev, [id]: { ...(prev[id] ?? DEFAULT_AUDIO_SOURCE_SETTINGS), ...patch } }));
+    engine.setAudioSource(id, patch);
+  };
 
+  const handleScreenLayoutChange = (layout: SourceLayout) => {
+    setScreenLayout(layout);
+    engine.setLayout(layout);
+  };
 
-    let displayStream: MediaStream;
-    try {
-      displayStream = await navigator.mediaDevices.getDisplayMedia({
-        video: true,
-        audio: includeSystemAudio,
-      });
-    } catch (err) {
-      const typedError = err as Error;
-      if (typedError.name === "NotAllowedError") {
-        setErrorMessage("Permission to record screen was denied. Please allow access and try again.");
-        toast({ title: "Permission Denied", description: "Screen recording permission was denied.", variant: "destructive" });
-         console.info("Screen recording permission denied by user.");
-      } else {
-        setErrorMessage(`An error occurred while getting display media: ${typedError.message}`);
-        toast({ title: "Screen Access Error", description: typedError.message, variant: "destructive" });
-        console.error("Error getting display media:", typedError);
-      }
-      setStatus("error");
-      cleanupStream();
-      return false;
+  const handleAddScreen = async (includeAudio: boolean) => {
+    const added = await engine.addScreen(includeAudio);
+    if (!added && engine.status !== "recording") {
+      toast({ title: "Not Recording", description: "Screens can only be added while recording.", variant: "destructive" });
     }
+  };
+
+  const handleCameraOverlayChange = (patch: Partial<CameraOverlaySettings>) => {
+    setCameraOverlay(prev => ({ ...prev, ...patch }));
+    engine.setCameraOverlay(patch);
+  };
 
-    let finalStream = displayStream;
-    if (includeMicAudio) {
+  const handleStartRecording = async () => {
+    const streamToFile = saveToFile && fileSinkSupported && !enableInstantReplay;
+    let sink: RecordingSink | undefined;
+    if (streamToFile) {
       try {
-        const micStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
-        micStream.getAudioTracks().forEach(track => {
-          const clonedTrack = track.clone();
-          finalStream.addTrack(clonedTrack);
-           // Re-attach onended to the new track if it's a video track from mic (though unlikely)
-          if (clonedTrack.kind === 'video') {
-            clonedTrack.onended = handleStreamStopFromBrowser;
-          }
-        });
-      } catch (micError) {
-        const typedMicError = micError as Error;
-        if (typedMicError.name === "NotAllowedError") {
-          console.info("Microphone permission denied by user.");
-          toast({ title: "Microphone Denied", description: "Mic access denied. Recording without mic.", variant: "default" });
-        } else {
-          console.warn("Error accessing microphone:", micError);
-          toast({ title: "Microphone Error", description: "Could not access microphone. Recording without mic audio.", variant: "destructive" });
-        }
+        const handle = await pickRecordingFile(`ScreenCatcher-Recording-${new Date().toISOString().replace(/[:.]/g, "-")}.webm`, audioOnly);
+        if (!handle) return;
+        sink = await createFileSink(handle);
+      } catch (e) {
+        console.error("Could not open the recording file:", e);
+        toast({ title: "Could Not Open File", description: "Pick another location, or turn off saving directly to a file.", variant: "destructive" });
+        return;
       }
     }
+    engine.start({
+      includeSystemAudio,
+      includeMicAudio,
+      mode: enableInstantReplay ? "replay" : "recording",
+      replayWindowSeconds: instantReplayBufferDuration,
+      quality,
+      audioOnly,
+      includeCamera,
+      annotate,
+      selectRegion: recordRegion,
+      combineScreens,
+      sink,
+      memoryBudgetBytes: memoryBudget,
+      stopWhenLow,
+    });
+  };
+
+  const handleStopRecording = () => {
+    engine.stop();
+  };
 
-    streamRef.current = finalStream;
-    finalStream.getVideoTracks().forEach(track => track.onended = handleStreamStopFromBrowser);
-    finalStream.getAudioTracks().forEach(track => track.onended = handleStreamStopFromBrowser); // Also for audio tracks if they end
+  const handleStartNewRecordingFromOptions = () => {
+    engine.reset();
+  };
 
+  const handleShortcut = (action: ShortcutAction) => {
+    if (action === "toggle-recording") {
+      if (isRecordingInProgress) handleStopRecording();
+      else if (status === "idle" || status === "error") handleStartRecording();
+    } else if (action === "toggle-pause") {
+      if (isRecordingInProgress) engine.togglePause();
+    } else if (action === "drop-marker") {
+      handleDropMarker("");
+    } else if (isReplayRunning) {
+      handleSaveReplay();
+    } else if (isRecordingInProgress && !clipExport.isExporting) {
+      handleSaveLiveClip(Number(action.slice("save-clip-".length)));
+    }
+  };
 
-    const optionsVp9 = { mimeType: 'video/webm; codecs=vp9' };
-    const optionsDefault = { mimeType: 'video/webm' }; // Fallback
+  useShortcuts(shortcuts.bindings, handleShortcut, { enabled: !shortcutsOpen, extraWindow: pip.pipWindow });
 
+  const handleOpenPip = async () => {
     try {
-      if (MediaRecorder.isTypeSupported(optionsVp9.mimeType) && !forReplay) {
-        mediaRecorderRef.current = new MediaRecorder(finalStream, optionsVp9);
-        chosenMimeTypeRef.current = optionsVp9.mimeType;
-      } else if (MediaRecorder.isTypeSupported(optionsDefault.mimeType)) {
-        mediaRecorderRef.current = new MediaRecorder(finalStream, optionsDefault);
-        chosenMimeTypeRef.current = optionsDefault.mimeType;
-      } else {
-         mediaRecorderRef.current = new MediaRecorder(finalStream); // Absolute fallback
-         chosenMimeTypeRef.current = 'video/webm'; // Assume default
-      }
+      await pip.open(PIP_WINDOW_SIZE);
     } catch (e) {
-      console.warn("Error initializing MediaRecorder, falling back to basic init:", e);
-      try {
-        mediaRecorderRef.current = new MediaRecorder(finalStream);
-        chosenMimeTypeRef.current = 'video/webm';
-      } catch (finalError) {
-        console.error("Fatal error initializing MediaRecorder even with fallback:", finalError);
-        setErrorMessage("Failed to initialize recorder. Your browser might not support MediaRecorder with the selected inputs.");
-        setStatus("error");
-        cleanupStream();
-        return false;
-      }
+      console.error("Could not open Picture-in-Picture controls:", e);
+      toast({ title: "Pop-Out Unavailable", description: "The controls window could not be opened.", variant: "destructive" });
     }
-    
-    mediaRecorderRef.current.ondataavailable = (event) => {
-      if (event.data.size > 0) {
-        recordedChunksRef.current.push(event.data);
-        if (!forReplay) { // Only update chunk count for main recording UI
-          setNumRecordedChunks(prev => prev + 1);
-        }
-      }
-    };
-
-    mediaRecorderRef.current.onstop = () => {
-      console.log("MediaRecorder.onstop triggered. Status:", status);
-      if (!forReplay) {
-        if (recordedChunksRef.current.length > 0) {
-          const blob = new Blob(recordedChunksRef.current, { type: chosenMimeTypeRef.current });
-          const url = URL.createObjectURL(blob);
-          setRecordedVideoUrl(url);
-          setStatus("stopped_pending_full_download");
-          toast({ title: "Recording Finished", description: "Your video is ready.", icon: <CheckCircle2 className="h-5 w-5 text-green-500" /> });
-        } else {
-          setErrorMessage("No video data was recorded.");
-          setStatus("error");
-          toast({ title: "Recording Empty", description: "No video data was captured.", variant: "destructive" });
-        }
-      }
-      // General cleanup for tracks after recorder stops, regardless of forReplay
-      cleanupStream(); 
-      // Note: recordedChunksRef is intentionally NOT cleared here for main recording, 
-      // as it's needed for download/trim. It IS cleared in cleanupFullRecordingState or before new recording.
-      // For replay, it's handled by its specific stop logic.
-    };
-    
-    mediaRecorderRef.current.onerror = (event) => {
-      console.error('MediaRecorder error:', event);
-      setErrorMessage(`MediaRecorder error: ${(event as any)?.error?.name || 'Unknown error'}`);
-      setStatus("error");
-      toast({ title: "Recorder Error", description: "An error occurred with the media recorder.", variant: "destructive" });
-      cleanupFullRecordingState();
-    };
-
+  };
 
+  /** Keeps a copy in the library sidebar. Failing to store never blocks the download. */
+  const saveToLibrary = useCallback(async (blob: Blob, details: NewLibraryEntry): Promise<LibraryEntry | null> => {
+    if (!isLibrarySupported()) return null;
     try {
-        const timeslice = timesliceOverride ?? (forReplay ? undefined : MAIN_RECORDING_CHUNK_DURATION_MS) ;
-        if (timeslice) {
-            mediaRecorderRef.current.start(timeslice);
-        } else {
-            mediaRecorderRef.current.start();
-        }
-        return true;
+      return await addEntry(blob, details);
     } catch (e) {
-        console.error("Error starting media recorder:", e);
-        setErrorMessage("Failed to start recorder.");
-        setStatus("error");
-        cleanupStream();
-        cleanupRecorder();
-        return false;
+      console.error("Could not save to the library:", e);
+      const description = e instanceof LibraryError ? e.message : "The recording could not be stored in this browser.";
+      toast({ title: "Not Saved to Library", description, variant: "destructive" });
+      return null;
     }
+  }, [toast]);
 
-  }, [includeSystemAudio, includeMicAudio, recordedVideoUrl, toast, cleanupStream, cleanupRecorder, cleanupFullRecordingState, handleStreamStopFromBrowser, status, setNumRecordedChunks]);
-
+  const handleJournalError = useCallback((error: unknown) => {
+    console.error("Could not journal the recording:", error);
+    const description = error instanceof LibraryError ? error.message : "This recording can't be recovered if the tab crashes.";
+    toast({ title: "Crash Protection Off", description, variant: "destructive" });
+  }, [toast]);
+  useSessionJournal(engine, handleJournalError);
+  const recovery = useRecoverableSessions();
+  const [recoveringId, setRecoveringId] = useState<string | null>(null);
 
-  const handleStartRecording = async () => {
-    setStatus("permission_pending");
-    const success = await startRecordingSharedLogic(false, MAIN_RECORDING_CHUNK_DURATION_MS);
-    if (success) {
-      setStatus("recording");
-      toast({ title: "Recording Started", icon: <Video className="h-5 w-5 text-red-500" /> });
-    } else {
-      // startRecordingSharedLogic already sets error status and toasts
-      if(status !== "error"){ // if not already set to error by startRecordingSharedLogic
-        setStatus("idle"); // fallback to idle if no specific error state was set
+  const handleRecover = async (session: JournalSession) => {
+    setRecoveringId(session.id);
+    try {
+      const blob = await recoverSession(session);
+      const name = `Recovered recording ${new Date(session.startedAt).toLocaleString()}`;
+      if (await saveToLibrary(blob, { name, kind: "recording", source: session.source })) {
+        await recovery.dismiss(session.id);
+        toast({ title: "Recording Recovered", description: "It's in your library in the sidebar.", icon: <CheckCircle2 className="h-5 w-5 text-green-500" /> });
+      } else {
+        // Keep the journal so recovery can be retried once there's room in the library.
+        triggerDownload(blob, `ScreenCatcher-Recovered-${new Date(session.startedAt).toISOString()}.${fileExtensionFor(blob.type)}`);
+        toast({ title: "Recording Recovered", description: "It couldn't go to the library, so it's downloading instead." });
       }
+    } catch (e) {
+      console.error("Recovery failed:", e);
+      toast({ title: "Recovery Failed", description: "The saved parts of this recording could not be read.", variant: "destructive" });
+    } finally {
+      setRecoveringId(null);
     }
   };
-  
+
+  const handleDiscardRecovery = (session: JournalSession) => {
+    recovery.dismiss(session.id).catch(e => console.warn("Could not discard the unfinished recording:", e));
+  };
+
+  // Finished recordings go to the library once, so "Record Again" or a reload doesn't lose them.
+  const [savedRecording, setSavedRecording] = useState<{ blob: Blob; entryId: string } | null>(null);
+  const librarySaveRef = useRef<Blob | null>(null);
   useEffect(() => {
-    // General cleanup on unmount
-    return () => {
-      cleanupFullRecordingState();
-    };
-  }, [cleanupFullRecordingState]);
-
-  const handleDownloadFullRecording = () => {
-    if (recordedVideoUrl) {
-      const a = document.createElement('a');
-      a.href = recordedVideoUrl;
-      a.download = `ScreenCatcher-Full-Recording-${new Date().toISOString()}.webm`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      toast({ title: "Download Started", description: "Your full recording is downloading." });
-    }
+    // Recordings streamed to a file are already on disk, copying them into the library would double the space.
+    if (!recording || outputFile || librarySaveRef.current === recording) return;
+    librarySaveRef.current = recording;
+    const name = `Recording ${new Date().toLocaleString()}`;
+    saveToLibrary(recording, { name, kind: "recording", source }).then(entry => entry && setSavedRecording({ blob: recording, entryId: entry.id }));
+  }, [recording, source, outputFile, saveToLibrary]);
+
+  // A description, whenever it arrives, renames the library copy and is stored with it.
+  const describedEntryRef = useRef<string | null>(null);
+  useEffect(() => {
+    const description = recordingDescription.description;
+    if (!description || savedRecording?.blob !== recording || describedEntryRef.current === savedRecording.entryId) return;
+    describedEntryRef.current = savedRecording.entryId;
+    updateEntry(savedRecording.entryId, { name: description.title, summary: description.summary, tags: description.tags })
+      .catch(e => console.warn("Could not store the description in the library:", e));
+  }, [recordingDescription.description, savedRecording, recording]);
+
+  const handleDropMarker = (label: string) => {
+    const marker = engine.addMarker(label);
+    if (marker) toast({ title: "Marker Dropped", description: `${marker.label || "Marker"} at ${formatTimecode(marker.time)}.` });
   };
 
-  const handleStartNewRecordingFromOptions = () => {
-    cleanupFullRecordingState();
-    setStatus("idle");
+  const handleSaveReplay = async () => {
+    let blob: Blob | null;
+    try {
+      blob = await engine.saveReplay();
+    } catch (e) {
+      if (!(e instanceof NoKeyframeError)) throw e;
+      toast({ title: "Replay Not Ready", description: "The buffer has no keyframe to start from yet. Try again in a few seconds.", variant: "destructive" });
+      return;
+    }
+    if (!blob) {
+      toast({ title: "Nothing Buffered Yet", description: "Instant Replay has not captured any footage yet.", variant: "destructive" });
+      return;
+    }
+    triggerDownload(blob, `ScreenCatcher-Replay-${new Date().toISOString()}.${fileExtensionFor(blob.type)}`);
+    saveToLibrary(blob, { name: `Replay ${new Date().toLocaleString()}`, kind: "clip", source });
+    toast({ title: "Replay Saved!", description: `Last ${engine.recordedSeconds}s are downloading.`, icon: <Save className="h-5 w-5 text-green-500" /> });
   };
 
-  const handleSaveLiveClip = (clipDurationSeconds: number) => {
-    if (!mediaRecorderRef.current || mediaRecorderRef.current.state !== "recording") {
+  const handleSaveLiveClip = async (clipDurationSeconds: number) => {
+    if (engine.status !== "recording") {
       toast({ title: "Not Recording", description: "Cannot save clip, recording is not active.", variant: "destructive" });
       return;
     }
 
-    const totalChunksAvailable = recordedChunksRef.current.length;
-    const chunksNeededForClip = Math.ceil(clipDurationSeconds / (MAIN_RECORDING_CHUNK_DURATION_MS / 1000));
-
-    if (totalChunksAvailable < chunksNeededForClip) {
-      toast({ title: "Not Enough Footage", description: `Need at least ${clipDurationSeconds}s of recording to save this clip.`, variant: "destructive" });
+    let blob: Blob | null;
+    try {
+      blob = await engine.createClip(clipDurationSeconds, clipEndMarker?.time);
+    } catch (e) {
+      if (!(e instanceof NoKeyframeError)) throw e;
+      toast({ title: "Clip Not Ready", description: "The recording has no keyframe to start this clip on yet. Try again in a few seconds.", variant: "destructive" });
+      return;
+    }
+    if (!blob) {
+      const before = clipEndMarker ? " before the marker" : "";
+      toast({ title: "Not Enough Footage", description: `Need at least ${clipDurationSeconds}s of recording${before} to save this clip.`, variant: "destructive" });
       return;
     }
 
-    const chunksForClip = recordedChunksRef.current.slice(-chunksNeededForClip);
-    const blob = new Blob(chunksForClip, { type: chosenMimeTypeRef.current });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ScreenCatcher-Clip-${clipDurationSeconds}s-${new Date().toISOString()}.webm`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url); // Clean up object URL after download link is clicked
+    const convert = clipFormat?.convert;
+    const output = convert ? await clipExport.run(options => convert(blob, { ...options, animation: animationSettings })) : blob;
+    if (!output) return;
+    const extension = clipFormat ? clipFormat.extension(blob.type) : fileExtensionFor(blob.type);
+    triggerDownload(output, `ScreenCatcher-Clip-${clipDurationSeconds}s-${new Date().toISOString()}.${extension}`);
+    // The library keeps the playable clip; animated conversions are only downloaded.
+    saveToLibrary(blob, { name: `Clip ${clipDurationSeconds}s ${new Date().toLocaleString()}`, kind: "clip", source });
 
     toast({ title: "Clip Saved!", description: `Last ${clipDurationSeconds}s clip is downloading.`, icon: <Save className="h-5 w-5 text-green-500" /> });
   };
@@ -364,9 +503,42 @@ export default function ScreenCatcherClient() {
           </Alert>
         )}
 
+        {recovery.sessions.map(session => (
+          <Alert key={session.id} className="animate-fadeIn">
+            <LifeBuoy className="h-4 w-4" />
+            <AlertTitle>Unfinished Recording Found</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>
+                A recording started {new Date(session.startedAt).toLocaleString()} was interrupted. {formatBytes(session.size)} of it was saved.
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handleRecover(session)} disabled={recoveringId !== null}>
+                  {recoveringId === session.id ? "Recovering..." : "Recover Recording"}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleDiscardRecovery(session)} disabled={recoveringId === session.id}>
+                  Discard
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        ))}
+
         {!showDownloadOptions && (
           <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5">
             <h3 className="text-lg font-medium text-foreground">Recording Options</h3>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="audio-only" className="flex items-center">
+                <Headphones className="mr-2 h-5 w-5 text-accent" />
+                Audio Only
+              </Label>
+              <Switch
+                id="audio-only"
+                checked={audioOnly}
+                onCheckedChange={setAudioOnly}
+                disabled={isRecordingInProgress || isPermissionPending}
+                aria-label="Toggle audio-only recording"
+              />
+            </div>
             <div className="flex items-center justify-between">
               <Label htmlFor="system-audio" className="flex items-center">
                 <AudioWaveform className="mr-2 h-5 w-5 text-accent" />
@@ -380,6 +552,15 @@ export default function ScreenCatcherClient() {
                 aria-label="Toggle system audio"
               />
             </div>
+            {includeSystemAudio && (
+              <AudioSourceMix
+                label="System audio"
+                settings={audioMix.system}
+                onChange={patch => handleAudioMixChange("system", patch)}
+                level={liveLevels.system ?? null}
+                levelHint={isRecordingInProgress ? undefined : audioOnly ? "Level shows once tab sharing starts." : "Level shows once screen sharing starts."}
+              />
+            )}
             <div className="flex items-center justify-between">
               <Label htmlFor="mic-audio" className="flex items-center">
                 <Mic className="mr-2 h-5 w-5 text-accent" />
@@ -393,6 +574,183 @@ export default function ScreenCatcherClient() {
                 aria-label="Toggle microphone audio"
               />
             </div>
+            {includeMicAudio && (
+              <AudioSourceMix
+                label="Microphone"
+                settings={audioMix.mic}
+                onChange={patch => handleAudioMixChange("mic", patch)}
+                level={isRecordingInProgress ? liveLevels.mic ?? null : micPreviewLevel}
+              />
+            )}
+            {!audioOnly && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="camera-overlay" className="flex items-center">
+                  <Webcam className="mr-2 h-5 w-5 text-accent" />
+                  Webcam Overlay
+                </Label>
+                <Switch
+                  id="camera-overlay"
+                  checked={includeCamera}
+                  onCheckedChange={setIncludeCamera}
+                  disabled={isRecordingInProgress || isPermissionPending}
+                  aria-label="Toggle webcam overlay"
+                />
+              </div>
+            )}
+            {!audioOnly && includeCamera && (
+              <CameraOverlaySettingsPanel settings={cameraOverlay} onChange={handleCameraOverlayChange} />
+            )}
+            {!audioOnly && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="record-region" className="flex items-center">
+                  <Crop className="mr-2 h-5 w-5 text-accent" />
+                  Record a Region
+                </Label>
+                <Switch
+                  id="record-region"
+                  checked={recordRegion}
+                  onCheckedChange={setRecordRegion}
+                  disabled={isRecordingInProgress || isPermissionPending}
+                  aria-label="Toggle region recording"
+                />
+              </div>
+            )}
+            {!audioOnly && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="combine-screens" className="flex items-center">
+                  <LayoutGrid className="mr-2 h-5 w-5 text-accent" />
+                  Combine Screens
+                </Label>
+                <Switch
+                  id="combine-screens"
+                  checked={combineScreens}
+                  onCheckedChange={setCombineScreens}
+                  disabled={isRecordingInProgress || isPermissionPending}
+                  aria-label="Toggle combining several screens"
+                />
+              </div>
+            )}
+            {!audioOnly && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="annotate" className="flex items-center">
+                  <PenLine className="mr-2 h-5 w-5 text-accent" />
+                  Draw on Recording
+                </Label>
+                <Switch
+                  id="annotate"
+                  checked={annotate}
+                  onCheckedChange={setAnnotate}
+                  disabled={isRecordingInProgress || isPermissionPending}
+                  aria-label="Toggle annotations"
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="instant-replay" className="flex items-center">
+                <History className="mr-2 h-5 w-5 text-accent" />
+                Instant Replay
+              </Label>
+              <Switch
+                id="instant-replay"
+                checked={enableInstantReplay}
+                onCheckedChange={setEnableInstantReplay}
+                disabled={isRecordingInProgress || isPermissionPending}
+                aria-label="Toggle instant replay"
+              />
+            </div>
+            {fileSinkSupported && !enableInstantReplay && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="save-to-file" className="flex items-center">
+                  <HardDriveDownload className="mr-2 h-5 w-5 text-accent" />
+                  Save Directly to File
+                </Label>
+                <Switch
+                  id="save-to-file"
+                  checked={saveToFile}
+                  onCheckedChange={setSaveToFile}
+                  disabled={isRecordingInProgress || isPermissionPending}
+                  aria-label="Toggle saving directly to a file"
+                />
+              </div>
+            )}
+            {fileSinkSupported && !enableInstantReplay && saveToFile && (
+              <p className="text-xs text-muted-foreground animate-fadeIn">
+                You'll pick where to save before recording starts. Long recordings won't fill up memory, but live clips aren't available and the recording isn't added to your library.
+              </p>
+            )}
+            {enableInstantReplay && (
+              <div className="flex items-center justify-between animate-fadeIn">
+                <Label htmlFor="replay-buffer" className="text-sm text-muted-foreground">
+                  Keep the last
+                </Label>
+                <Select
+                  value={String(instantReplayBufferDuration)}
+                  onValueChange={value => setInstantReplayBufferDuration(Number(value))}
+                  disabled={isRecordingInProgress || isPermissionPending}
+                >
+                  <SelectTrigger id="replay-buffer" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPLAY_BUFFER_DURATIONS.map(option => (
+                      <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Accordion type="single" collapsible>
+              <AccordionItem value="quality" className="border-b-0">
+                <AccordionTrigger className="py-2 text-sm hover:no-underline">
+                  <span className="flex items-center">
+                    <SlidersHorizontal className="mr-2 h-5 w-5 text-accent" />
+                    Quality: {QUALITY_PRESETS.find(preset => preset.id === qualityPreset)?.label ?? "Custom"}
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <QualitySettingsPanel
+                    settings={quality}
+                    preset={qualityPreset}
+                    onChange={handleQualityChange}
+                    loadCodecs={loadSupportedCodecs}
+                    disabled={isRecordingInProgress || isPermissionPending}
+                  />
+                </AccordionContent>
+              </AccordionItem>
+              <AccordionItem value="memory" className="border-b-0">
+                <AccordionTrigger className="py-2 text-sm hover:no-underline">
+                  <span className="flex items-center">
+                    <MemoryStick className="mr-2 h-5 w-5 text-accent" />
+                    Memory: {MEMORY_BUDGETS.find(option => option.value === memoryBudget)?.label} Budget
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-4">
+                  <LabeledSelect
+                    id="memory-budget"
+                    label="Keep in memory"
+                    value={String(memoryBudget)}
+                    onValueChange={value => setMemoryBudget(Number(value))}
+                    options={MEMORY_BUDGETS.map(option => ({ value: String(option.value), label: option.label }))}
+                    disabled={isRecordingInProgress || isPermissionPending}
+                  />
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="stop-when-low" className="text-sm">
+                      Stop Before Running Out
+                    </Label>
+                    <Switch
+                      id="stop-when-low"
+                      checked={stopWhenLow}
+                      onCheckedChange={setStopWhenLow}
+                      disabled={isRecordingInProgress || isPermissionPending}
+                      aria-label="Toggle stopping when memory or storage runs low"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Past the budget, older footage moves to browser storage. When memory or storage still runs low you're warned, or the recording is stopped and kept.
+                  </p>
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
           </div>
         )}
 
@@ -400,16 +758,29 @@ export default function ScreenCatcherClient() {
           {!showDownloadOptions && (
             <>
               {isRecordingInProgress ? (
-                <Button
-                  onClick={handleStopRecording}
-                  variant="destructive"
-                  size="lg"
-                  className="w-full transition-all duration-300 ease-in-out transform hover:scale-105"
-                  aria-label="Stop recording"
-                >
-                  <StopCircle className="mr-2 h-5 w-5" />
-                  Stop Recording
-                </Button>
+                <div className="flex w-full gap-2">
+                  <Button
+                    onClick={handleStopRecording}
+                    variant="destructive"
+                    size="lg"
+                    disabled={finalizing}
+                    className="flex-1 transition-all duration-300 ease-in-out transform hover:scale-105"
+                    aria-label="Stop recording"
+                  >
+                    <StopCircle className="mr-2 h-5 w-5" />
+                    {isReplayRunning ? "Stop Instant Replay" : "Stop Recording"}
+                  </Button>
+                  <Button
+                    onClick={() => engine.togglePause()}
+                    variant="outline"
+                    size="lg"
+                    disabled={finalizing}
+                    aria-label={paused ? "Resume recording" : "Pause recording"}
+                  >
+                    {paused ? <Play className="mr-2 h-5 w-5" /> : <Pause className="mr-2 h-5 w-5" />}
+                    {paused ? "Resume" : "Pause"}
+                  </Button>
+                </div>
               ) : (
                 <Button
                   onClick={handleStartRecording}
@@ -419,33 +790,201 @@ export default function ScreenCatcherClient() {
                   aria-label="Start recording"
                 >
                   <Video className="mr-2 h-5 w-5" />
-                  {isPermissionPending ? "Waiting for Permission..." : "Start Recording"}
+                  {isPermissionPending
+                    ? selectingRegion ? "Waiting for a Region..." : "Waiting for Permission..."
+                    : enableInstantReplay ? "Start Instant Replay" : audioOnly ? "Start Audio Recording" : "Start Recording"}
                 </Button>
               )}
             </>
           )}
           
           <div className="text-sm text-muted-foreground h-5">
-            {status === "recording" && "Recording..."}
+            {status === "recording" && (finalizing ? "Preparing your recording..." : paused ? "Paused." : isReplayRunning ? "Buffering instant replay..." : outputFile ? `Recording to ${outputFile}...` : "Recording...")}
             {status === "stopped_pending_full_download" && "Recording finished! Choose download option."}
-            {status === "permission_pending" && "Awaiting screen share permission..."}
+            {status === "permission_pending" && selectingRegion && "Choose the region to record..."}
+            {status === "permission_pending" && !selectingRegion && (audioOnly && !includeSystemAudio ? "Awaiting microphone permission..." : "Awaiting screen share permission...")}
             {status === "idle" && "Ready to record."}
             {status === "error" && "An error occurred. Please refresh or try again."}
           </div>
+
+          {isRecordingInProgress && !isReplayRunning && !outputFile && (
+            <div className="w-full">
+              <MemoryUsage memoryBytes={memoryBytes} spilledBytes={spilledBytes} budget={memoryBudget} storageFree={storageFree} />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setShortcutsOpen(true)} aria-label="Show keyboard shortcuts">
+              <Keyboard className="mr-2 h-4 w-4" />
+              Shortcuts
+            </Button>
+            {pip.supported && (
+              <Button variant="ghost" size="sm" onClick={pip.pipWindow ? pip.close : handleOpenPip} aria-label="Toggle pop-out controls">
+                <PictureInPicture2 className="mr-2 h-4 w-4" />
+                {pip.pipWindow ? "Close Pop-Out" : "Pop Out Controls"}
+              </Button>
+            )}
+          </div>
         </div>
 
-        {isRecordingInProgress && (
+        <ShortcutSettingsDialog
+          open={shortcutsOpen}
+          onOpenChange={setShortcutsOpen}
+          actions={SHORTCUT_ACTIONS}
+          bindings={shortcuts.bindings}
+          onBindingChange={shortcuts.setBinding}
+          onReset={shortcuts.resetBindings}
+        />
+
+        {pip.pipWindow && createPortal(
+          <PipControls
+            isRecording={isRecordingInProgress}
+            paused={paused}
+            canMark={isRecordingInProgress && !isReplayRunning}
+            canStart={status === "idle" || status === "error"}
+            statusText={isRecordingInProgress
+              ? paused ? "Paused" : isReplayRunning ? "Buffering replay" : "Recording"
+              : showDownloadOptions ? "Recording finished" : isPermissionPending ? "Waiting for permission" : "Ready"}
+            clipDurations={LIVE_CLIP_DURATIONS}
+            bindings={shortcuts.bindings}
+            onAction={handleShortcut}
+          />,
+          pip.pipWindow.document.body,
+        )}
+
+        {isRecordingInProgress && isAudioSession && (
+          <WaveformView peaks={levelHistory} bars={WAVEFORM_BARS} label="Live audio waveform" className="animate-fadeIn" />
+        )}
+
+        {selectingRegion && engine.displayStream && (
+          <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5 animate-fadeIn">
+            <h3 className="text-lg font-medium text-foreground">Choose a Region</h3>
+            <RegionPicker stream={engine.displayStream} region={region} onChange={setRegion} />
+            <p className="text-xs text-muted-foreground">
+              Drag over the preview to draw the area to record. Drag the box to move it or its corners to resize it.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={() => engine.confirmRegion(region)} className="col-span-2" aria-label="Record the selected region">
+                <Crop className="mr-2 h-5 w-5" />
+                {isFullRegion(region) ? "Record Whole Surface" : "Record This Region"}
+              </Button>
+              <Button variant="outline" onClick={() => setRegion(FULL_REGION)} disabled={isFullRegion(region)}>
+                Select All
+              </Button>
+              <Button variant="outline" onClick={() => engine.cancelRegionSelection()}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isRecordingInProgress && combineScreens && !isAudioSession && screens.length > 0 && (
+          <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5 animate-fadeIn">
+            <h3 className="text-lg font-medium text-foreground">Screens</h3>
+            <CombinedScreensPanel
+              screens={screens}
+              layout={screenLayout}
+              onLayoutChange={handleScreenLayoutChange}
+              audioMix={audioMix}
+              onAudioChange={handleAudioMixChange}
+              levels={liveLevels}
+              onAddScreen={handleAddScreen}
+            />
+          </div>
+        )}
+
+        {isRecordingInProgress && recordRegion && !isAudioSession && engine.displayStream && (
+          <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5 animate-fadeIn">
+            <h3 className="text-lg font-medium text-foreground">Recorded Region</h3>
+            <RegionPicker stream={engine.displayStream} region={region} onChange={setRegion} onCommit={next => engine.setRegion(next)} />
+          </div>
+        )}
+
+        {isRecordingInProgress && annotate && !isAudioSession && engine.displayStream && (
+          <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5 animate-fadeIn">
+            <h3 className="text-lg font-medium text-foreground">Annotate</h3>
+            <AnnotationSurface stream={engine.displayStream} layer={engine.annotations} />
+          </div>
+        )}
+
+        {isReplayRunning && (
+          <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5 animate-fadeIn">
+            <h3 className="text-lg font-medium text-foreground">Instant Replay</h3>
+            <Button
+              onClick={handleSaveReplay}
+              disabled={numRecordedChunks === 0}
+              className="w-full bg-accent hover:bg-accent/90 text-accent-foreground transition-all"
+              aria-label="Save replay"
+            >
+              <Save className="mr-2 h-5 w-5" />
+              Save Replay
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Holding {engine.recordedSeconds}s of the last {instantReplayBufferDuration}s. Older footage is discarded as new footage arrives.
+            </p>
+          </div>
+        )}
+
+        {isRecordingInProgress && !isReplayRunning && (
+          <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5 animate-fadeIn">
+            <h3 className="text-lg font-medium text-foreground">Markers</h3>
+            <LiveMarkers
+              markers={markers}
+              onDrop={handleDropMarker}
+              onRemove={id => engine.removeMarker(id)}
+              disabled={finalizing}
+              shortcut={shortcuts.bindings["drop-marker"] ? formatBinding(shortcuts.bindings["drop-marker"]) : undefined}
+            />
+          </div>
+        )}
+
+        {isRecordingInProgress && !isReplayRunning && !outputFile && (
           <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5 animate-fadeIn">
             <h3 className="text-lg font-medium text-foreground">Save Live Clip</h3>
+            {markers.length > 0 && (
+              <LabeledSelect
+                id="clip-end"
+                label="Clips end at"
+                value={clipEndMarker?.id ?? "now"}
+                onValueChange={setClipEndMarkerId}
+                options={[
+                  { value: "now", label: "Now" },
+                  ...markers.map((marker, index) => ({
+                    value: marker.id,
+                    label: `${marker.label || `Marker ${index + 1}`} (${formatTimecode(marker.time)})`,
+                  })),
+                ]}
+                disabled={clipExport.isExporting}
+              />
+            )}
+            {clipFormat && clipFormats.length > 1 && (
+              <LabeledSelect
+                id="clip-format"
+                label="Save clips as"
+                value={clipFormat.id}
+                onValueChange={value => setClipFormatId(value as ExportFormatId)}
+                options={clipFormats.map(format => ({ value: format.id, label: format.label }))}
+                disabled={clipExport.isExporting}
+              />
+            )}
+            {clipFormat?.kind === "animation" && (
+              <AnimatedImageSettingsPanel
+                format={clipFormat.id as AnimatedImageFormat}
+                settings={animationSettings}
+                onChange={setAnimationSettings}
+                idPrefix="clip-animation"
+                disabled={clipExport.isExporting}
+              />
+            )}
             <div className="grid grid-cols-2 gap-2">
               {LIVE_CLIP_DURATIONS.map(clip => {
-                const chunksNeeded = Math.ceil(clip.value / (MAIN_RECORDING_CHUNK_DURATION_MS / 1000));
+                const chunksNeeded = engine.chunksNeededFor(clip.value);
                 return (
                   <Button
                     key={clip.value}
                     variant="outline"
                     onClick={() => handleSaveLiveClip(clip.value)}
-                    disabled={numRecordedChunks < chunksNeeded}
+                    disabled={clipChunksAvailable < chunksNeeded || clipExport.isExporting}
                     className="transition-all"
                     aria-label={`Save last ${clip.label.toLowerCase()}`}
                   >
@@ -454,24 +993,78 @@ export default function ScreenCatcherClient() {
                 );
               })}
             </div>
+            {clipExport.progress && <ExportProgress progress={clipExport.progress} onCancel={clipExport.cancel} />}
             <p className="text-xs text-muted-foreground">
-              Saving a clip will not stop the main recording. {numRecordedChunks * (MAIN_RECORDING_CHUNK_DURATION_MS/1000)}s recorded.
+              Saving a clip will not stop the main recording. {engine.recordedSeconds}s recorded.
             </p>
           </div>
         )}
 
-        {showDownloadOptions && recordedVideoUrl && (
+        {showDownloadOptions && recording && recordedVideoUrl && (
           <div className="space-y-4 p-4 border rounded-md bg-card-foreground/5 animate-fadeIn">
             <h3 className="text-lg font-medium text-foreground">Recording Complete</h3>
-            <video src={recordedVideoUrl} controls className="w-full rounded-md shadow-md" />
-            <Button
-              onClick={handleDownloadFullRecording}
-              className="w-full bg-accent hover:bg-accent/90 text-accent-foreground transition-all"
-              aria-label="Download full recording"
-            >
-              <Download className="mr-2 h-5 w-5" />
-              Download Full Recording (.webm)
-            </Button>
+            {isAudioRecording ? (
+              <>
+                {recording.size <= MAX_WAVEFORM_BYTES && (
+                  <WaveformView peaks={recordingPeaks ?? []} bars={WAVEFORM_BARS} label="Recording waveform" />
+                )}
+                <audio ref={previewAudioRef} src={recordedVideoUrl} controls className="w-full" />
+              </>
+            ) : (
+              <video ref={previewVideoRef} src={recordedVideoUrl} controls className="w-full rounded-md shadow-md">
+                {captionsUrl && (
+                  <track key={captionsUrl} kind="captions" src={captionsUrl} srcLang={transcription.transcript?.language} label="Captions" default />
+                )}
+              </video>
+            )}
+            {markers.length > 0 && (
+              <MarkerTimeline markers={markers} duration={recordingTimeline?.duration ?? null} mediaRef={previewRef} />
+            )}
+            <RecordingDescriptionPanel
+              description={recordingDescription.description}
+              pending={recordingDescription.pending}
+              error={recordingDescription.error}
+              onDescribe={recordingDescription.describe}
+            />
+            <TranscriptPanel
+              transcript={transcription.transcript}
+              cues={captionCues}
+              pending={transcription.pending}
+              error={transcription.error}
+              onTranscribe={transcription.transcribe}
+              mediaRef={previewRef}
+            />
+            {recordingTimeline && (
+              <>
+                <TrimEditor recording={recording} timeline={recordingTimeline} mediaRef={previewRef} />
+                <Accordion type="single" collapsible>
+                  <AccordionItem value="segments" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-sm hover:no-underline">
+                      <span className="flex items-center">
+                        <Film className="mr-2 h-5 w-5 text-accent" />
+                        Edit Segments
+                      </span>
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <EdlEditor recording={recording} timeline={recordingTimeline} mediaRef={previewRef} />
+                    </AccordionContent>
+                  </AccordionItem>
+                </Accordion>
+              </>
+            )}
+            {outputFile && (
+              <p className="text-xs text-muted-foreground">Saved to {outputFile}. It isn't added to your library, so keep the file.</p>
+            )}
+            {savedRecording?.blob === recording && (
+              <p className="text-xs text-muted-foreground">Saved to your library. Open the sidebar to find it later.</p>
+            )}
+            <RecordingExport
+              recording={recording}
+              filenamePrefix={describedSlug ? `ScreenCatcher-${describedSlug}` : "ScreenCatcher-Full-Recording"}
+              captions={captionCues}
+              animation={animationSettings}
+              onAnimationChange={setAnimationSettings}
+            />
              <Button
               onClick={handleStartNewRecordingFromOptions}
               variant="outline"
@@ -486,7 +1079,7 @@ export default function ScreenCatcherClient() {
       </CardContent>
       <CardFooter className="text-xs text-muted-foreground text-center block">
         <p>&copy; {new Date().getFullYear()} ScreenCatcher. Ensure you have necessary permissions before recording.</p>
-        <p>Recordings are processed locally in your browser and are not uploaded.</p>
+        <p>Recordings stay in your browser. Transcribing or suggesting a title uploads audio or frames to Google&apos;s Gemini API, and only after you confirm.</p>
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  bindingFromEvent,
+  bindingProblem,
+  findConflicts,
+  formatBinding,
+  isReservedBinding,
+  type KeyBinding,
+  type ShortcutAction,
+  type ShortcutActionInfo,
+  type ShortcutBindings,
+} from '@/lib/shortcuts';
+
+interface ShortcutSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  actions: ShortcutActionInfo[];
+  bindings: ShortcutBindings;
+  onBindingChange: (action: ShortcutAction, binding: KeyBinding | null) => void;
+  onReset: () => void;
+}
+
+/** Cheat sheet of every shortcut, with rebinding and conflict warnings. */
+export default function ShortcutSettingsDialog({ open, onOpenChange, actions, bindings, onBindingChange, onReset }: ShortcutSettingsDialogProps) {
+  const [editing, setEditing] = useState<ShortcutAction | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+  const conflicts = findConflicts(bindings);
+  const labelOf = (action: ShortcutAction) => actions.find(info => info.action === action)?.label ?? action;
+
+  const stopEditing = () => {
+    setEditing(null);
+    setProblem(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) stopEditing();
+    onOpenChange(next);
+  };
+
+  const handleCaptureKey = (event: React.KeyboardEvent, action: ShortcutAction) => {
+    // Plain Tab still moves focus, which ends editing.
+    if (event.key === "Tab" && !event.ctrlKey && !event.altKey && !event.metaKey) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === "Escape") {
+      stopEditing();
+      return;
+    }
+    if (event.key === "Backspace" || event.key === "Delete") {
+      onBindingChange(action, null);
+      stopEditing();
+      return;
+    }
+    const binding = bindingFromEvent(event.nativeEvent);
+    if (!binding) return;
+    const reason = bindingProblem(binding);
+    if (reason) {
+      setProblem(reason);
+      return;
+    }
+    onBindingChange(action, binding);
+    stopEditing();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts work while this page or its Picture-in-Picture controls have focus. Click a shortcut to change it.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-2">
+          {actions.map(({ action, label }) => {
+            const binding = bindings[action];
+            const clashes = conflicts.get(action);
+            const isEditing = editing === action;
+            return (
+              <li key={action} className="space-y-1">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm">{label}</span>
+                  <Button
+                    type="button"
+                    variant={isEditing ? "secondary" : "outline"}
+                    size="sm"
+                    className={cn("min-w-32 font-mono", clashes && "border-destructive text-destructive")}
+                    onClick={() => {
+                      setProblem(null);
+                      setEditing(isEditing ? null : action);
+                    }}
+                    onKeyDown={isEditing ? event => handleCaptureKey(event, action) : undefined}
+                    onBlur={() => isEditing && stopEditing()}
+                    aria-label={`Change shortcut for ${label}`}
+                  >
+                    {isEditing ? "Press keys..." : binding ? formatBinding(binding) : "Not set"}
+                  </Button>
+                </div>
+                {isEditing && (
+                  <p className={cn("text-xs", problem ? "text-destructive" : "text-muted-foreground")}>
+                    {problem ?? "Press the new combination. Esc cancels, Backspace clears it."}
+                  </p>
+                )}
+                {!isEditing && clashes && (
+                  <p className="text-xs text-destructive">Also bound to {clashes.map(labelOf).join(", ")}. Only the first one will run.</p>
+                )}
+                {!isEditing && binding && isReservedBinding(binding) && (
+                  <p className="text-xs text-muted-foreground">Your browser may keep this combination for itself.</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onReset}>
+            Restore Defaults
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
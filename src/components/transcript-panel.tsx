@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import UploadConsentDialog from '@/components/upload-consent-dialog';
+import { triggerDownload } from '@/lib/download';
+import { formatTimecode } from '@/lib/edit/timeline';
+import { cuesToSrt, cuesToWebVtt, transcriptToText, type CaptionCue } from '@/lib/transcript/captions';
+import type { Transcript } from '@/ai/flows/transcribe-recording';
+import { cn } from '@/lib/utils';
+import { Copy, Download, Loader2, ScrollText } from 'lucide-react';
+
+interface TranscriptPanelProps {
+  transcript: Transcript | null;
+  /** Captions built from the transcript, offered as downloads. */
+  cues: readonly CaptionCue[] | null;
+  pending: boolean;
+  error: string | null;
+  onTranscribe: () => void;
+  mediaRef: React.RefObject<HTMLMediaElement | null>;
+}
+
+/**
+ * Transcribe button, which asks before uploading the audio, then the
+ * transcript with the segment being played highlighted and caption
+ * downloads. Segments jump the preview.
+ */
+export default function TranscriptPanel({ transcript, cues, pending, error, onTranscribe, mediaRef }: TranscriptPanelProps) {
+  const [playhead, setPlayhead] = useState(0);
+  const [copied, setCopied] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+    const handleTimeUpdate = () => setPlayhead(media.currentTime);
+    media.addEventListener("timeupdate", handleTimeUpdate);
+    return () => media.removeEventListener("timeupdate", handleTimeUpdate);
+  }, [mediaRef]);
+
+  const jumpTo = (time: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = time;
+    setPlayhead(time);
+  };
+
+  const handleCopy = async () => {
+    if (!transcript) return;
+    try {
+      await navigator.clipboard.writeText(transcriptToText(transcript.segments));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.warn("Could not copy the transcript:", e);
+    }
+  };
+
+  const handleDownloadCaptions = (format: "srt" | "vtt") => {
+    if (!cues) return;
+    const blob = format === "srt"
+      ? new Blob([cuesToSrt(cues)], { type: "application/x-subrip" })
+      : new Blob([cuesToWebVtt(cues)], { type: "text/vtt" });
+    triggerDownload(blob, `ScreenCatcher-Captions-${new Date().toISOString()}.${format}`);
+  };
+
+  if (!transcript) {
+    return (
+      <div className="space-y-2">
+        <Button onClick={() => setConfirming(true)} variant="outline" className="w-full" disabled={pending} aria-label="Transcribe recording">
+          {pending ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <ScrollText className="mr-2 h-5 w-5" />}
+          {pending ? "Transcribing..." : "Transcribe"}
+        </Button>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <UploadConsentDialog
+          open={confirming}
+          onOpenChange={setConfirming}
+          what="The recording's audio"
+          purpose="to be transcribed"
+          confirmLabel="Upload & Transcribe"
+          onConfirm={onTranscribe}
+        />
+      </div>
+    );
+  }
+
+  if (transcript.segments.length === 0) {
+    return <p className="text-sm text-muted-foreground">No speech was found in this recording.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center text-sm font-medium">
+          <ScrollText className="mr-2 h-4 w-4 text-accent" />
+          Transcript
+        </span>
+        <Button variant="ghost" size="sm" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" />
+          {copied ? "Copied" : "Copy"}
+        </Button>
+      </div>
+      <ScrollArea className="h-48 rounded-md border">
+        <ul className="space-y-1 p-2">
+          {transcript.segments.map((segment, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                className={cn(
+                  "flex w-full gap-2 rounded-sm px-1 text-left text-sm hover:bg-muted",
+                  playhead >= segment.start && playhead < segment.end && "bg-muted",
+                )}
+                onClick={() => jumpTo(segment.start)}
+              >
+                <span className="tabular-nums text-muted-foreground">{formatTimecode(segment.start)}</span>
+                <span>
+                  {segment.speaker && <span className="font-medium">{segment.speaker}: </span>}
+                  {segment.text}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+      {cues && cues.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleDownloadCaptions("srt")}>
+            <Download className="mr-2 h-4 w-4" />
+            Captions (.srt)
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleDownloadCaptions("vtt")}>
+            <Download className="mr-2 h-4 w-4" />
+            Captions (.vtt)
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
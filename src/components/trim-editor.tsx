@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import ExportProgress from '@/components/export-progress';
+import { useToast } from "@/hooks/use-toast";
+import { useExportJob } from "@/hooks/use-export-job";
+import { fileExtensionFor, triggerDownload } from "@/lib/download";
+import { trimRecording } from "@/lib/edit/cut";
+import { formatTimecode, frameIndexAt, isKeyframeTime, snapToFrame, type RecordingTimeline } from "@/lib/edit/timeline";
+import { ChevronLeft, ChevronRight, Scissors } from 'lucide-react';
+
+interface TrimEditorProps {
+  recording: Blob;
+  timeline: RecordingTimeline;
+  /** The preview element to scrub; the editor seeks it and reads its playhead. */
+  mediaRef: React.RefObject<HTMLMediaElement | null>;
+}
+
+/** Past this many keyframes the timeline stops drawing tick marks for them. */
+const MAX_KEYFRAME_TICKS = 200;
+
+/** In/out handles over the preview, with frame stepping and a lossless-where-possible trimmed download. */
+export default function TrimEditor({ recording, timeline, mediaRef }: TrimEditorProps) {
+  const { toast } = useToast();
+  const trimJob = useExportJob();
+  const [range, setRange] = useState<[number, number]>([0, timeline.duration]);
+  const [playhead, setPlayhead] = useState(0);
+
+  useEffect(() => setRange([0, timeline.duration]), [timeline]);
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+    const handleTimeUpdate = () => {
+      setPlayhead(media.currentTime);
+      // Previewing the trimmed range stops at the out point.
+      if (!media.paused && media.currentTime >= range[1] && range[1] < timeline.duration) media.pause();
+    };
+    media.addEventListener("timeupdate", handleTimeUpdate);
+    return () => media.removeEventListener("timeupdate", handleTimeUpdate);
+  }, [mediaRef, range, timeline]);
+
+  const seek = (time: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.pause();
+    media.currentTime = time;
+    setPlayhead(time);
+  };
+
+  const handleRangeChange = ([nextIn, nextOut]: number[]) => {
+    const snappedIn = snapToFrame(timeline, nextIn);
+    const snappedOut = nextOut >= timeline.duration ? timeline.duration : snapToFrame(timeline, nextOut);
+    if (snappedOut <= snappedIn) return;
+    seek(snappedIn !== range[0] ? snappedIn : snappedOut);
+    setRange([snappedIn, snappedOut]);
+  };
+
+  const stepFrame = (direction: -1 | 1) => {
+    const { frameTimes } = timeline;
+    const index = frameIndexAt(frameTimes, playhead) + direction;
+    seek(frameTimes[Math.max(0, Math.min(frameTimes.length - 1, index))]);
+  };
+
+  const setIn = () => {
+    const time = snapToFrame(timeline, playhead);
+    if (time < range[1]) setRange([time, range[1]]);
+  };
+
+  const setOut = () => {
+    const time = snapToFrame(timeline, playhead);
+    if (time > range[0]) setRange([range[0], time]);
+  };
+
+  const handleDownloadTrimmed = async () => {
+    const result = await trimJob.run(options => trimRecording(recording, { start: range[0], end: range[1] }, options));
+    if (!result) return;
+    triggerDownload(result.blob, `ScreenCatcher-Trimmed-${new Date().toISOString()}.${fileExtensionFor(recording.type)}`);
+    toast(result.exact
+      ? { title: "Trimmed Clip Ready", description: `${formatTimecode(range[1] - range[0])} is downloading.` }
+      : {
+          title: "Trimmed Clip Ready",
+          description: `This browser can't re-encode the cut, so it starts at the keyframe at ${formatTimecode(result.start)}.`,
+        });
+  };
+
+  const keyframeTicks = timeline.hasVideo && timeline.keyframeTimes.length <= MAX_KEYFRAME_TICKS ? timeline.keyframeTimes : [];
+  const startsOnKeyframe = isKeyframeTime(timeline, range[0]);
+  const isTrimmed = range[0] > 0 || range[1] < timeline.duration;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Slider
+          value={range}
+          min={0}
+          max={timeline.duration}
+          step={0.001}
+          minStepsBetweenThumbs={1}
+          onValueChange={handleRangeChange}
+          disabled={trimJob.isExporting}
+          aria-label="Trim range"
+        />
+        {keyframeTicks.length > 0 && (
+          <div className="relative h-1.5" aria-hidden>
+            {keyframeTicks.map(time => (
+              <span
+                key={time}
+                className="absolute top-0 h-1.5 w-px bg-muted-foreground/60"
+                style={{ left: `${(time / timeline.duration) * 100}%` }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground tabular-nums">
+        <span>In {formatTimecode(range[0])}</span>
+        <span>Length {formatTimecode(range[1] - range[0])}</span>
+        <span>Out {formatTimecode(range[1])}</span>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={setIn} disabled={trimJob.isExporting}>Set In</Button>
+        <div className="flex items-center gap-1">
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepFrame(-1)} aria-label="Previous frame">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="w-20 text-center text-xs tabular-nums text-muted-foreground">{formatTimecode(playhead)}</span>
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepFrame(1)} aria-label="Next frame">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={setOut} disabled={trimJob.isExporting}>Set Out</Button>
+      </div>
+      {timeline.hasVideo && isTrimmed && (
+        <p className="text-xs text-muted-foreground">
+          {startsOnKeyframe
+            ? "Starts on a keyframe, so the cut is lossless."
+            : "Starts between keyframes; frames up to the next keyframe will be re-encoded."}
+        </p>
+      )}
+      {trimJob.progress ? (
+        <ExportProgress progress={trimJob.progress} onCancel={trimJob.cancel} />
+      ) : (
+        <Button onClick={handleDownloadTrimmed} variant="secondary" className="w-full" disabled={!isTrimmed}>
+          <Scissors className="mr-2 h-5 w-5" />
+          Download Trimmed
+        </Button>
+      )}
+    </div>
+  );
+}
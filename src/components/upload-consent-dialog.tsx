@@ -0,0 +1,47 @@
+"use client";
+
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface UploadConsentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** What leaves the browser, e.g. "The recording's audio". */
+  what: string;
+  /** What it is sent for, e.g. "to be transcribed". */
+  purpose: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+}
+
+/**
+ * Asks before anything from a recording is uploaded. Everything else in the
+ * app stays in the browser, so every upload is confirmed explicitly.
+ */
+export default function UploadConsentDialog({ open, onOpenChange, what, purpose, confirmLabel, onConfirm }: UploadConsentDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Upload part of this recording?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {what} will be sent to Google&apos;s Gemini API {purpose}. Nothing is uploaded unless you continue.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>{confirmLabel}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
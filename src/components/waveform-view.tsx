@@ -0,0 +1,33 @@
+"use client";
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface WaveformViewProps {
+  /** Bar heights, 0..1, oldest first. */
+  peaks: readonly number[];
+  label: string;
+  /** Number of bar slots; fewer peaks are right-aligned so a live waveform scrolls in from the right. */
+  bars?: number;
+  className?: string;
+}
+
+/** Mirrored bar waveform, used in place of a video preview for audio-only recordings. */
+export default function WaveformView({ peaks, label, bars = peaks.length, className }: WaveformViewProps) {
+  const offset = Math.max(0, bars - peaks.length);
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      viewBox={`0 0 ${Math.max(bars, 1)} 100`}
+      preserveAspectRatio="none"
+      className={cn("h-24 w-full rounded-md bg-secondary text-accent", className)}
+    >
+      {peaks.slice(-bars).map((peak, index) => {
+        // Keep silent stretches visible as a thin line.
+        const height = Math.max(2, peak * 96);
+        return <rect key={index} x={offset + index + 0.15} y={50 - height / 2} width={0.7} height={height} fill="currentColor" />;
+      })}
+    </svg>
+  );
+}
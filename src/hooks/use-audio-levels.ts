@@ -0,0 +1,118 @@
+"use client";
+
+import * as React from "react";
+import type { AudioSourceId } from "@/lib/audio/audio-mixer";
+import { LevelMeter } from "@/lib/audio/level-meter";
+import { MAX_WAVEFORM_BYTES, waveformPeaks } from "@/lib/audio/waveform";
+import type { RecorderEngine } from "@/lib/recorder/recorder-engine";
+
+const LEVEL_POLL_INTERVAL_MS = 100;
+
+type Levels = Partial<Record<AudioSourceId, number>>;
+
+/** Polls the engine's per-source input levels while `active` is true. */
+export function useAudioLevels(engine: RecorderEngine, active: boolean): Levels {
+  const [levels, setLevels] = React.useState<Levels>({});
+
+  React.useEffect(() => {
+    if (!active) {
+      setLevels({});
+      return;
+    }
+    const timer = setInterval(() => {
+      const next: Levels = {};
+      const readings = engine.getAudioLevels();
+      (Object.keys(readings) as AudioSourceId[]).forEach(id => (next[id] = readings[id]!.level));
+      setLevels(next);
+    }, LEVEL_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [engine, active]);
+
+  return levels;
+}
+
+/**
+ * Opens the microphone on its own while `enabled` so its level can be checked
+ * before recording starts. Returns null until the mic is available.
+ */
+export function useMicPreviewLevel(enabled: boolean): number | null {
+  const [level, setLevel] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    if (!enabled || typeof navigator === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+      setLevel(null);
+      return;
+    }
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let context: AudioContext | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    navigator.mediaDevices.getUserMedia({ audio: true, video: false }).then(micStream => {
+      if (cancelled) {
+        micStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = micStream;
+      context = new AudioContext();
+      const meter = new LevelMeter(context, context.createMediaStreamSource(micStream));
+      timer = setInterval(() => setLevel(meter.read().level), LEVEL_POLL_INTERVAL_MS);
+    }).catch(e => {
+      // The recorder reports mic permission problems when recording starts.
+      console.info("Mic level preview unavailable:", e);
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+      context?.close().catch(() => undefined);
+      setLevel(null);
+    };
+  }, [enabled]);
+
+  return level;
+}
+
+/** The last `length` readings of `level`, oldest first, sampled while `active`. Cleared when it stops. */
+export function useLevelHistory(level: number | null, active: boolean, length: number): number[] {
+  const [history, setHistory] = React.useState<number[]>([]);
+  const latest = React.useRef(level);
+  latest.current = level;
+
+  React.useEffect(() => {
+    if (!active) {
+      setHistory([]);
+      return;
+    }
+    const timer = setInterval(() => {
+      setHistory(prev => [...prev, latest.current ?? 0].slice(-length));
+    }, LEVEL_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, length]);
+
+  return history;
+}
+
+/**
+ * Peak amplitudes of a finished recording for drawing its waveform. Null while
+ * decoding, if it can't be decoded, or if it is over MAX_WAVEFORM_BYTES.
+ */
+export function useWaveformPeaks(recording: Blob | null, buckets: number): number[] | null {
+  const [peaks, setPeaks] = React.useState<number[] | null>(null);
+
+  React.useEffect(() => {
+    setPeaks(null);
+    if (!recording || recording.size > MAX_WAVEFORM_BYTES || typeof OfflineAudioContext === "undefined") return;
+    let cancelled = false;
+    waveformPeaks(recording, buckets)
+      .then(result => !cancelled && setPeaks(result))
+      .catch(e => console.info("Waveform unavailable:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [recording, buckets]);
+
+  return peaks;
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import * as React from "react";
+import { isLibrarySupported } from "@/lib/library/database";
+import { discardSession, listUnfinishedSessions, SessionJournal, type JournalSession } from "@/lib/library/session-journal";
+import type { RecorderEngine } from "@/lib/recorder/recorder-engine";
+
+/**
+ * Journals every regular recording of `engine` to IndexedDB while it runs.
+ * Instant Replay is left out since it throws old footage away anyway, and so
+ * are recordings streaming to a file, which are already being written to disk.
+ * `onError` is called once per session if writing stops working, including
+ * when storage runs low.
+ */
+export function useSessionJournal(engine: RecorderEngine, onError: (error: unknown) => void) {
+  const onErrorRef = React.useRef(onError);
+  onErrorRef.current = onError;
+
+  React.useEffect(() => {
+    if (!isLibrarySupported()) return;
+    const journal = new SessionJournal(error => onErrorRef.current(error));
+
+    const unsubscribers = [
+      engine.on("statechange", ({ status, previous }) => {
+        const snapshot = engine.getSnapshot();
+        if (status === "recording" && snapshot.mode === "recording" && !snapshot.outputFile) {
+          journal.begin({ mimeType: snapshot.mimeType, source: snapshot.source });
+        } else if (previous === "recording" && status === "error") {
+          journal.abandon();
+        } else if (previous === "recording") {
+          journal.finish();
+        }
+      }),
+      engine.on("chunk", ({ chunk, index }) => journal.append(chunk, index)),
+    ];
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      journal.abandon();
+    };
+  }, [engine]);
+}
+
+/** Sessions left behind by a crash or reload, read once on mount. */
+export function useRecoverableSessions() {
+  const [sessions, setSessions] = React.useState<JournalSession[]>([]);
+
+  React.useEffect(() => {
+    if (!isLibrarySupported()) return;
+    let cancelled = false;
+    listUnfinishedSessions()
+      .then(found => !cancelled && setSessions(found))
+      .catch(e => console.warn("Could not look for unfinished recordings:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** Deletes a session's journal and drops it from the list. */
+  const dismiss = React.useCallback(async (id: string) => {
+    setSessions(prev => prev.filter(session => session.id !== id));
+    await discardSession(id);
+  }, []);
+
+  return { sessions, dismiss };
+}
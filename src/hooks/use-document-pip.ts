@@ -0,0 +1,51 @@
+"use client";
+
+import * as React from "react";
+
+/**
+ * Opens an always-on-top Document Picture-in-Picture window that React can
+ * portal into. The page's styles are copied over so components look the same
+ * there. `pipWindow` goes back to null when the user closes it.
+ */
+export function useDocumentPip() {
+  const [pipWindow, setPipWindow] = React.useState<Window | null>(null);
+  const [supported, setSupported] = React.useState(false);
+
+  // Checked after mount, there's no window during SSR.
+  React.useEffect(() => setSupported(!!window.documentPictureInPicture), []);
+
+  React.useEffect(() => () => pipWindow?.close(), [pipWindow]);
+
+  const open = React.useCallback(async (size: { width: number; height: number }) => {
+    const api = window.documentPictureInPicture;
+    if (!api) return null;
+    if (api.window) return api.window;
+    const opened = await api.requestWindow(size);
+    copyStyles(document, opened.document);
+    opened.document.body.className = document.body.className;
+    opened.addEventListener("pagehide", () => setPipWindow(null), { once: true });
+    setPipWindow(opened);
+    return opened;
+  }, []);
+
+  const close = React.useCallback(() => pipWindow?.close(), [pipWindow]);
+
+  return { supported, pipWindow, open, close };
+}
+
+function copyStyles(from: Document, to: Document) {
+  for (const sheet of Array.from(from.styleSheets)) {
+    try {
+      const style = to.createElement("style");
+      style.textContent = Array.from(sheet.cssRules, rule => rule.cssText).join("\n");
+      to.head.appendChild(style);
+    } catch {
+      // Cross-origin sheets (web fonts) can't be read; link them instead.
+      if (!sheet.href) continue;
+      const link = to.createElement("link");
+      link.rel = "stylesheet";
+      link.href = sheet.href;
+      to.head.appendChild(link);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import * as React from "react";
+import { useToast } from "@/hooks/use-toast";
+import { ExportError, isAbortError, type ExportOptions, type ExportProgress } from "@/lib/export/export-job";
+
+/**
+ * Runs one export task at a time with progress and cancellation. Failures and
+ * cancellations are reported with a toast; `run` then resolves to null.
+ * An export still running on unmount is cancelled.
+ */
+export function useExportJob() {
+  const { toast } = useToast();
+  const [progress, setProgress] = React.useState<ExportProgress | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  React.useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = React.useCallback(async <T,>(task: (options: ExportOptions) => Promise<T>): Promise<T | null> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ phase: "reading", ratio: 0 });
+    try {
+      return await task({ signal: controller.signal, onProgress: setProgress });
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({ title: "Export Cancelled" });
+      } else {
+        console.error("Export failed:", error);
+        const description = error instanceof ExportError ? error.message : "Something went wrong while converting the recording.";
+        toast({ title: "Export Failed", description, variant: "destructive" });
+      }
+      return null;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  }, [toast]);
+
+  const cancel = React.useCallback(() => abortRef.current?.abort(), []);
+
+  return { progress, isExporting: progress !== null, run, cancel };
+}
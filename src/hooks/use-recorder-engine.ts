@@ -0,0 +1,43 @@
+"use client";
+
+import * as React from "react";
+import { RecorderEngine, type RecorderNotice } from "@/lib/recorder/recorder-engine";
+
+/**
+ * Binds a RecorderEngine to a component. The engine lives as long as the
+ * component and any in-flight session is torn down on unmount.
+ */
+export function useRecorderEngine(onNotice?: (notice: RecorderNotice) => void) {
+  const [engine] = React.useState(() => new RecorderEngine());
+  const snapshot = React.useSyncExternalStore(engine.subscribe, engine.getSnapshot, engine.getSnapshot);
+
+  const onNoticeRef = React.useRef(onNotice);
+  onNoticeRef.current = onNotice;
+
+  React.useEffect(() => {
+    const unsubscribe = engine.on("notice", notice => onNoticeRef.current?.(notice));
+    return () => {
+      unsubscribe();
+      engine.reset();
+    };
+  }, [engine]);
+
+  return { engine, ...snapshot };
+}
+
+/** Object URL for a blob, revoked when the blob changes or the component unmounts. */
+export function useObjectUrl(blob: Blob | null): string | null {
+  const [url, setUrl] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
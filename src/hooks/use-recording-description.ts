@@ -0,0 +1,62 @@
+"use client";
+
+import * as React from "react";
+import { describeRecording } from "@/ai/actions";
+import type { RecordingDescription } from "@/ai/flows/describe-recording";
+import type { Transcript } from "@/ai/flows/transcribe-recording";
+import { transcriptToText } from "@/lib/transcript/captions";
+import { sampleKeyframes, type Keyframe } from "@/lib/video/keyframes";
+
+/** Frames sent to the describe flow, spread across the recording. */
+const KEYFRAME_COUNT = 6;
+/** Longer transcripts are cut, the start says enough about what a recording is. */
+const MAX_TRANSCRIPT_CHARS = 20_000;
+
+/**
+ * Suggests a title, summary and tags for `recording` on request, from a few
+ * of its frames plus `transcript` when there is one. Like useTranscription,
+ * the result belongs to that recording and is dropped when it changes.
+ */
+export function useRecordingDescription(recording: Blob | null, transcript: Transcript | null) {
+  const [description, setDescription] = React.useState<RecordingDescription | null>(null);
+  const [pending, setPending] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const recordingRef = React.useRef(recording);
+
+  React.useEffect(() => {
+    recordingRef.current = recording;
+    setDescription(null);
+    setPending(false);
+    setError(null);
+  }, [recording]);
+
+  const describe = React.useCallback(async () => {
+    if (!recording) return;
+    setPending(true);
+    setError(null);
+    try {
+      let keyframes: Keyframe[] = [];
+      if (!recording.type.startsWith("audio/")) {
+        try {
+          keyframes = await sampleKeyframes(recording, KEYFRAME_COUNT);
+        } catch (e) {
+          console.warn("Could not sample frames from the recording:", e);
+        }
+      }
+      const text = transcript?.segments.length ? transcriptToText(transcript.segments).slice(0, MAX_TRANSCRIPT_CHARS) : undefined;
+      if (keyframes.length === 0 && !text) {
+        if (recordingRef.current === recording) setError("There's nothing to go on yet. Transcribe the recording first, then try again.");
+        return;
+      }
+      const result = await describeRecording({ keyframes, transcript: text });
+      if (recordingRef.current === recording) setDescription(result);
+    } catch (e) {
+      console.error("Describing the recording failed:", e);
+      if (recordingRef.current === recording) setError("Something went wrong while describing the recording. Try again in a moment.");
+    } finally {
+      if (recordingRef.current === recording) setPending(false);
+    }
+  }, [recording, transcript]);
+
+  return { description, pending, error, describe };
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import * as React from "react";
+import { isLibrarySupported, listEntries, onLibraryChange, type LibraryEntry } from "@/lib/library/recording-library";
+
+/** The stored recordings, newest first, kept current as anything writes to the library. */
+export function useRecordingLibrary() {
+  const [entries, setEntries] = React.useState<LibraryEntry[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [supported, setSupported] = React.useState(true);
+
+  React.useEffect(() => {
+    if (!isLibrarySupported()) {
+      setSupported(false);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    const load = () => {
+      listEntries()
+        .then(next => {
+          if (cancelled) return;
+          setEntries(next);
+          setError(null);
+        })
+        .catch(e => {
+          console.error("Could not read the recordings library:", e);
+          if (!cancelled) setError(e instanceof Error ? e.message : "Could not read the library.");
+        })
+        .finally(() => !cancelled && setLoading(false));
+    };
+    load();
+    const unsubscribe = onLibraryChange(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { supported, entries, loading, error };
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import * as React from "react";
+import { isWebmType } from "@/lib/export/webm-source";
+import { readTimeline, type RecordingTimeline } from "@/lib/edit/timeline";
+
+/** Frame timeline of a finished WebM recording for the editors. Null while parsing, or when the recording isn't WebM. */
+export function useRecordingTimeline(recording: Blob | null): RecordingTimeline | null {
+  const [timeline, setTimeline] = React.useState<RecordingTimeline | null>(null);
+
+  React.useEffect(() => {
+    setTimeline(null);
+    if (!recording || !isWebmType(recording.type)) return;
+    let cancelled = false;
+    readTimeline(recording)
+      .then(result => !cancelled && setTimeline(result.frameTimes.length > 0 ? result : null))
+      .catch(e => console.warn("Could not read the recording timeline:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [recording]);
+
+  return timeline;
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import * as React from "react";
+import {
+  actionFor,
+  bindingFromEvent,
+  defaultBindings,
+  loadBindings,
+  saveBindings,
+  type KeyBinding,
+  type ShortcutAction,
+  type ShortcutActionInfo,
+  type ShortcutBindings,
+} from "@/lib/shortcuts";
+
+/** Shortcut bindings for `actions`, persisted in localStorage. Defaults until the saved ones load after mount. */
+export function useShortcutBindings(actions: ShortcutActionInfo[]) {
+  const defaults = React.useMemo(() => defaultBindings(actions), [actions]);
+  const [bindings, setBindings] = React.useState<ShortcutBindings>(defaults);
+
+  React.useEffect(() => setBindings(loadBindings(defaults)), [defaults]);
+
+  const replaceBindings = React.useCallback((next: ShortcutBindings) => {
+    setBindings(next);
+    saveBindings(next);
+  }, []);
+
+  const setBinding = React.useCallback((action: ShortcutAction, binding: KeyBinding | null) => {
+    replaceBindings({ ...bindings, [action]: binding });
+  }, [bindings, replaceBindings]);
+
+  const resetBindings = React.useCallback(() => replaceBindings(defaults), [defaults, replaceBindings]);
+
+  return { bindings, defaults, setBinding, resetBindings };
+}
+
+/**
+ * Calls `onAction` for bound key presses in this window and in `extraWindow`
+ * (the Picture-in-Picture controls), so shortcuts still work while it has focus.
+ */
+export function useShortcuts(
+  bindings: ShortcutBindings,
+  onAction: (action: ShortcutAction) => void,
+  { enabled = true, extraWindow = null }: { enabled?: boolean; extraWindow?: Window | null } = {},
+) {
+  const onActionRef = React.useRef(onAction);
+  onActionRef.current = onAction;
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.defaultPrevented) return;
+      const binding = bindingFromEvent(event);
+      const action = binding ? actionFor(bindings, binding) : null;
+      if (!action) return;
+      event.preventDefault();
+      onActionRef.current(action);
+    };
+    const targets = extraWindow ? [window, extraWindow] : [window];
+    targets.forEach(target => target.addEventListener("keydown", handleKeyDown));
+    return () => targets.forEach(target => target.removeEventListener("keydown", handleKeyDown));
+  }, [bindings, enabled, extraWindow]);
+}
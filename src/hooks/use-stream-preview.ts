@@ -0,0 +1,25 @@
+"use client";
+
+import * as React from "react";
+
+/** Plays a live stream in a video element and tracks its aspect ratio, which changes when a shared window is resized. */
+export function useStreamPreview(stream: MediaStream | null) {
+  const videoRef = React.useRef<HTMLVideoElement>(null);
+  const [aspect, setAspect] = React.useState(16 / 9);
+
+  React.useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !stream) return;
+    video.srcObject = stream;
+    const handleResize = () => {
+      if (video.videoWidth && video.videoHeight) setAspect(video.videoWidth / video.videoHeight);
+    };
+    video.addEventListener("resize", handleResize);
+    return () => {
+      video.removeEventListener("resize", handleResize);
+      video.srcObject = null;
+    };
+  }, [stream]);
+
+  return { videoRef, aspect };
+}
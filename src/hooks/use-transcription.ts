@@ -0,0 +1,45 @@
+"use client";
+
+import * as React from "react";
+import { transcribeRecording } from "@/ai/actions";
+import type { Transcript } from "@/ai/flows/transcribe-recording";
+import { blobToDataUri, TranscriptionError, transcriptionAudio } from "@/lib/transcript/audio";
+
+/**
+ * Transcribes `recording` on request. The transcript belongs to that
+ * recording and is dropped when it changes; a request still running for an
+ * older recording is ignored when it comes back.
+ */
+export function useTranscription(recording: Blob | null) {
+  const [transcript, setTranscript] = React.useState<Transcript | null>(null);
+  const [pending, setPending] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const recordingRef = React.useRef(recording);
+
+  React.useEffect(() => {
+    recordingRef.current = recording;
+    setTranscript(null);
+    setPending(false);
+    setError(null);
+  }, [recording]);
+
+  const transcribe = React.useCallback(async () => {
+    if (!recording) return;
+    setPending(true);
+    setError(null);
+    try {
+      const audio = await transcriptionAudio(recording);
+      const result = await transcribeRecording({ audioDataUri: await blobToDataUri(audio) });
+      if (recordingRef.current === recording) setTranscript(result);
+    } catch (e) {
+      console.error("Transcription failed:", e);
+      if (recordingRef.current === recording) {
+        setError(e instanceof TranscriptionError ? e.message : "Something went wrong while transcribing. Try again in a moment.");
+      }
+    } finally {
+      if (recordingRef.current === recording) setPending(false);
+    }
+  }, [recording]);
+
+  return { transcript, pending, error, transcribe };
+}
@@ -0,0 +1,90 @@
+import { LevelMeter } from "./level-meter";
+
+/** Audio of a screen added to a combined recording, numbered from 2; the first screen's audio is "system". */
+export type ScreenAudioId = `screen-${number}`;
+export type AudioSourceId = "system" | "mic" | ScreenAudioId;
+
+export interface AudioSourceSettings {
+  /** Linear gain, 1 is unity. */
+  gain: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SOURCE_SETTINGS: AudioSourceSettings = { gain: 1, muted: false };
+export const MAX_SOURCE_GAIN = 2;
+
+interface MixerInput {
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  settings: AudioSourceSettings;
+}
+
+/**
+ * Web Audio graph that mixes several capture streams into a single output
+ * track. MediaRecorder in Chromium only encodes the first audio track of a
+ * stream, so sources have to be mixed before they reach the recorder.
+ */
+export class AudioMixer {
+  private readonly destination: MediaStreamAudioDestinationNode;
+  private readonly inputs = new Map<AudioSourceId, MixerInput>();
+
+  constructor(readonly context: AudioContext) {
+    this.destination = context.createMediaStreamDestination();
+  }
+
+  /** The mixed track to hand to MediaRecorder. */
+  get track(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  has(id: AudioSourceId): boolean {
+    return this.inputs.has(id);
+  }
+
+  /** Routes the audio tracks of `stream` into the mix. Replaces an existing source with the same id. */
+  addSource(id: AudioSourceId, stream: MediaStream, settings: AudioSourceSettings = DEFAULT_AUDIO_SOURCE_SETTINGS) {
+    this.removeSource(id);
+    const source = this.context.createMediaStreamSource(stream);
+    const gain = this.context.createGain();
+    source.connect(gain).connect(this.destination);
+    const input = { source, gain, settings: { ...settings } };
+    this.inputs.set(id, input);
+    this.apply(input);
+  }
+
+  removeSource(id: AudioSourceId) {
+    const input = this.inputs.get(id);
+    if (!input) return;
+    input.source.disconnect();
+    input.gain.disconnect();
+    this.inputs.delete(id);
+  }
+
+  /** Updates gain or mute for a source. Takes effect immediately, including mid-recording. */
+  update(id: AudioSourceId, patch: Partial<AudioSourceSettings>) {
+    const input = this.inputs.get(id);
+    if (!input) return;
+    input.settings = { ...input.settings, ...patch };
+    this.apply(input);
+  }
+
+  /** Meters a source before its gain stage, so a muted source still shows whether it picks up sound. */
+  createMeter(id: AudioSourceId): LevelMeter | null {
+    const input = this.inputs.get(id);
+    return input ? new LevelMeter(this.context, input.source) : null;
+  }
+
+  async close() {
+    for (const id of [...this.inputs.keys()]) this.removeSource(id);
+    this.track?.stop();
+    if (this.context.state !== "closed") {
+      await this.context.close();
+    }
+  }
+
+  private apply(input: MixerInput) {
+    const target = input.settings.muted ? 0 : Math.min(Math.max(input.settings.gain, 0), MAX_SOURCE_GAIN);
+    // A short ramp avoids clicks when dragging a slider mid-recording.
+    input.gain.gain.setTargetAtTime(target, this.context.currentTime, 0.015);
+  }
+}
@@ -0,0 +1,83 @@
+export interface AudioLevel {
+  /** Root-mean-square amplitude, 0..1. */
+  rms: number;
+  /** Absolute peak amplitude, 0..1. */
+  peak: number;
+  /** RMS mapped onto a -60dB..0dB scale as 0..1, for drawing meters. */
+  level: number;
+}
+
+const METER_FLOOR_DB = -60;
+// Anything below about -80dBFS is digital silence for our purposes.
+export const SILENCE_RMS = 0.0001;
+export const DEFAULT_SILENCE_WARNING_SECONDS = 10;
+
+export function normalizeLevel(rms: number): number {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+/** Reads the current signal level off an AnalyserNode tapped onto an audio source. */
+export class LevelMeter {
+  private readonly analyser: AnalyserNode;
+  private readonly samples: Float32Array;
+
+  constructor(context: BaseAudioContext, private readonly input: AudioNode) {
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    input.connect(this.analyser);
+  }
+
+  read(): AudioLevel {
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    let peak = 0;
+    for (const sample of this.samples) {
+      sum += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    const rms = Math.sqrt(sum / this.samples.length);
+    return { rms, peak, level: normalizeLevel(rms) };
+  }
+
+  disconnect() {
+    try {
+      this.input.disconnect(this.analyser);
+    } catch {
+      // Already disconnected together with its source.
+    }
+  }
+}
+
+/**
+ * Tracks how long each source has been silent. `sample` reports a source
+ * once per silent stretch, when it first crosses the threshold.
+ */
+export class SilenceTracker<Id extends string> {
+  private readonly silentSince = new Map<Id, number>();
+  private readonly reported = new Set<Id>();
+
+  constructor(private readonly thresholdMs: number) {}
+
+  sample(id: Id, rms: number, now: number): boolean {
+    if (rms > SILENCE_RMS) {
+      this.silentSince.delete(id);
+      this.reported.delete(id);
+      return false;
+    }
+    const since = this.silentSince.get(id) ?? now;
+    this.silentSince.set(id, since);
+    if (!this.reported.has(id) && now - since >= this.thresholdMs) {
+      this.reported.add(id);
+      return true;
+    }
+    return false;
+  }
+
+  reset() {
+    this.silentSince.clear();
+    this.reported.clear();
+  }
+}
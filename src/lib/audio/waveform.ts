@@ -0,0 +1,40 @@
+/**
+ * Largest recording a waveform is drawn for. decodeAudioData needs the whole
+ * file plus all of its decoded samples in memory at once; at 128 kbps this is
+ * about 16 minutes, which decodes to roughly 60 MB at WAVEFORM_SAMPLE_RATE.
+ */
+export const MAX_WAVEFORM_BYTES = 16_000_000;
+
+// Plenty for a few hundred bars, and a fifth of the samples a 44.1 kHz decode would hold.
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+/**
+ * Decodes a recording and reduces it to `buckets` peak amplitudes, 0..1,
+ * scaled so the loudest bucket fills the height. Throws a RangeError for
+ * recordings over MAX_WAVEFORM_BYTES and whatever the browser throws when it
+ * can't decode the file.
+ */
+export async function waveformPeaks(recording: Blob, buckets: number): Promise<number[]> {
+  if (recording.size > MAX_WAVEFORM_BYTES) {
+    throw new RangeError(`Recording is too large to draw a waveform for (${recording.size} bytes).`);
+  }
+  // Decoding needs a context but never plays anything, so an offline one avoids opening an output device.
+  // Decoded audio is resampled to the context's rate, so a low one keeps the samples small.
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  const audio = await context.decodeAudioData(await recording.arrayBuffer());
+
+  const peaks = new Array<number>(buckets).fill(0);
+  const bucketSize = Math.max(1, Math.floor(audio.length / buckets));
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const samples = audio.getChannelData(channel);
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      const end = Math.min(samples.length, (bucket + 1) * bucketSize);
+      let peak = peaks[bucket];
+      for (let i = bucket * bucketSize; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+      peaks[bucket] = peak;
+    }
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { filenameSlug } from "./download";
+
+describe("filenameSlug", () => {
+  it("keeps letters and digits and joins words with dashes", () => {
+    expect(filenameSlug("Fixing the log-in bug!")).toBe("Fixing-the-log-in-bug");
+    expect(filenameSlug("  Café résumé review  ")).toBe("Cafe-resume-review");
+    expect(filenameSlug("Reviewing the Q3 roadmap")).toBe("Reviewing-the-Q3-roadmap");
+  });
+
+  it("cuts long titles to 60 characters by default", () => {
+    const title = "A very long walkthrough of configuring the continuous integration pipeline for the monorepo";
+    expect(filenameSlug(title)).toHaveLength(60);
+    expect(filenameSlug(title)).toBe("A-very-long-walkthrough-of-configuring-the-continuous-integr");
+  });
+
+  it("is empty when nothing usable is left", () => {
+    expect(filenameSlug("")).toBe("");
+    expect(filenameSlug("!!! ???")).toBe("");
+    expect(filenameSlug("日本語のタイトル")).toBe("");
+  });
+
+  it("never ends on a dash after cutting", () => {
+    expect(filenameSlug("abc def", 4)).toBe("abc");
+  });
+});
@@ -0,0 +1,30 @@
+/** Triggers a browser download for an object URL or a blob. */
+export function triggerDownload(source: string | Blob, filename: string) {
+  const url = typeof source === "string" ? source : URL.createObjectURL(source);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  if (typeof source !== "string") {
+    URL.revokeObjectURL(url); // Clean up object URL after download link is clicked
+  }
+}
+
+/** File extension matching a recorder MIME type, e.g. "video/mp4; codecs=avc1" -> "mp4". */
+export function fileExtensionFor(mimeType: string): string {
+  const subtype = mimeType.split(";")[0].split("/")[1]?.trim();
+  if (subtype === "x-matroska") return "mkv";
+  return subtype || "webm";
+}
+
+/** A title made safe for filenames, e.g. "Fixing the log-in bug!" -> "Fixing-the-log-in-bug". Empty when nothing usable is left. */
+export function filenameSlug(title: string, maxLength = 60): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,214 @@
+import { ExportError, throwIfAborted, waitForQueue, type ExportOptions } from "@/lib/export/export-job";
+import { blockDurations, readWebmSource, videoDecoderConfig, type WebmSource } from "@/lib/export/webm-source";
+import { blockFrame, type WebmBlock, type WebmTrack } from "@/lib/webm/parser";
+import { simpleBlock, writeWebm } from "@/lib/webm/writer";
+import { sourceOrigin, unitsPerSecond, type TimeRange } from "./timeline";
+
+/** WebCodecs encoders whose output can be spliced in front of the recorder's own frames. */
+const EDGE_ENCODER_CODECS: Record<string, string> = {
+  V_VP8: "vp8",
+  V_VP9: "vp09.00.41.08",
+  V_AV1: "av01.0.08M.08",
+};
+const MIN_EDGE_BITRATE = 2_000_000;
+
+export interface CutSegment {
+  /** Blocks of every track in time order, still in source time units. */
+  blocks: WebmBlock[];
+  /** Where the segment really starts, in source units. Earlier than asked when the start had to snap to a keyframe. */
+  start: number;
+  /** Exclusive end in source units. */
+  end: number;
+  /** False when the start snapped back to a keyframe instead of being re-encoded. */
+  exact: boolean;
+}
+
+export interface TrimResult {
+  blob: Blob;
+  /** Seconds the output actually starts at in the original recording. */
+  start: number;
+  exact: boolean;
+}
+
+/**
+ * Cuts one range out of a parsed recording. Blocks are copied untouched
+ * wherever possible: a range starting on a keyframe is a pure copy, and one
+ * starting mid-GOP re-encodes only the frames up to the next keyframe. The
+ * end never needs re-encoding, since dropping trailing frames can't break
+ * decoding. Codecs WebCodecs can't re-encode snap the start back to the
+ * previous keyframe instead.
+ */
+export async function cutRange(source: WebmSource, range: TimeRange, signal?: AbortSignal): Promise<CutSegment> {
+  const origin = sourceOrigin(source);
+  const perSecond = unitsPerSecond(source);
+  // Half a unit of slack so times that came from frame-snapped seconds land on their frame.
+  const requestedStart = origin + range.start * perSecond + 0.5;
+  const end = origin + range.end * perSecond;
+  const { video, videoBlocks, audioBlocks } = source;
+
+  if (!video || videoBlocks.length === 0) {
+    const blocks = audioBlocks.filter(block => block.time + 0.5 >= requestedStart && block.time < end);
+    return { blocks, start: blocks[0]?.time ?? requestedStart, end, exact: true };
+  }
+
+  const first = lastIndexAtOrBefore(videoBlocks, requestedStart);
+  const keyIndex = lastKeyframeAtOrBefore(videoBlocks, first);
+  let videoOut: WebmBlock[];
+  let start = videoBlocks[first].time;
+  let exact = true;
+
+  if (first === keyIndex) {
+    videoOut = videoBlocks.slice(first).filter(block => block.time < end);
+  } else {
+    const nextKey = videoBlocks.findIndex((block, index) => index > first && block.keyframe);
+    const edgeEnd = nextKey === -1 ? videoBlocks.length : nextKey;
+    const edge = await reencodeEdge(source, video, keyIndex, first, edgeEnd, end, signal);
+    if (edge) {
+      videoOut = [...edge, ...videoBlocks.slice(edgeEnd).filter(block => block.time < end)];
+    } else {
+      start = videoBlocks[keyIndex].time;
+      exact = false;
+      videoOut = videoBlocks.slice(keyIndex).filter(block => block.time < end);
+    }
+  }
+
+  const audioOut = audioBlocks.filter(block => block.time >= start && block.time < end);
+  return { blocks: mergeByTime(videoOut, audioOut), start, end, exact };
+}
+
+/** Trims a WebM recording to one range. Output starts at time zero. */
+export async function trimRecording(recording: Blob, range: TimeRange, { onProgress, signal }: ExportOptions = {}): Promise<TrimResult> {
+  onProgress?.({ phase: "reading", ratio: 0 });
+  const source = await readWebmSource(recording);
+  throwIfAborted(signal);
+
+  onProgress?.({ phase: "transcoding", ratio: 0.3 });
+  const segment = await cutRange(source, range, signal);
+  if (segment.blocks.length === 0) throw new ExportError("The selected range is empty.");
+
+  onProgress?.({ phase: "finalizing", ratio: 0.9 });
+  const blob = writeWebm(source.header, segment.blocks, { shift: segment.start, mimeType: recording.type });
+  onProgress?.({ phase: "finalizing", ratio: 1 });
+  return { blob, start: (segment.start - sourceOrigin(source)) / unitsPerSecond(source), exact: segment.exact };
+}
+
+function lastIndexAtOrBefore(blocks: readonly WebmBlock[], time: number): number {
+  let index = 0;
+  while (index + 1 < blocks.length && blocks[index + 1].time <= time) index++;
+  return index;
+}
+
+function lastKeyframeAtOrBefore(blocks: readonly WebmBlock[], index: number): number {
+  for (let i = index; i >= 0; i--) {
+    if (blocks[i].keyframe) return i;
+  }
+  return 0;
+}
+
+function mergeByTime(video: WebmBlock[], audio: WebmBlock[]): WebmBlock[] {
+  const merged: WebmBlock[] = [];
+  let a = 0;
+  for (const block of video) {
+    while (a < audio.length && audio[a].time < block.time) merged.push(audio[a++]);
+    merged.push(block);
+  }
+  return merged.concat(audio.slice(a));
+}
+
+/**
+ * Decodes the GOP from `keyIndex` and re-encodes frames `first` up to `edgeEnd`
+ * (or `end`, if sooner) so the cut can start on a fresh keyframe. Returns null
+ * when this browser can't produce a stream that splices with the original.
+ */
+async function reencodeEdge(
+  source: WebmSource,
+  track: WebmTrack,
+  keyIndex: number,
+  first: number,
+  edgeEnd: number,
+  end: number,
+  signal?: AbortSignal,
+): Promise<WebmBlock[] | null> {
+  const codec = EDGE_ENCODER_CODECS[track.codecId];
+  const decoderConfig = videoDecoderConfig(track);
+  if (!codec || !decoderConfig || !track.width || !track.height) return null;
+  if (typeof VideoEncoder === "undefined" || typeof VideoDecoder === "undefined") return null;
+
+  const { videoBlocks, microsPerUnit } = source;
+  const encoderConfig: VideoEncoderConfig = {
+    codec,
+    width: track.width,
+    height: track.height,
+    bitrate: Math.max(MIN_EDGE_BITRATE, sourceBitrate(source) * 2),
+  };
+  const [decodable, encodable] = await Promise.all([
+    VideoDecoder.isConfigSupported(decoderConfig),
+    VideoEncoder.isConfigSupported(encoderConfig),
+  ]);
+  if (!decodable.supported || !encodable.supported) return null;
+
+  const out: WebmBlock[] = [];
+  const startMicros = videoBlocks[first].time * microsPerUnit;
+  let failure: unknown = null;
+  let encodedFirst = false;
+
+  const encoder = new VideoEncoder({
+    output: chunk => {
+      const frame = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(frame);
+      out.push(simpleBlock(track.number, Math.round(chunk.timestamp / microsPerUnit), chunk.type === "key", frame));
+    },
+    error: error => { failure ??= error; },
+  });
+  encoder.configure(encoderConfig);
+
+  const decoder = new VideoDecoder({
+    output: frame => {
+      // Frames before the cut only prime the decoder.
+      if (frame.timestamp >= startMicros) {
+        encoder.encode(frame, { keyFrame: !encodedFirst });
+        encodedFirst = true;
+      }
+      frame.close();
+    },
+    error: error => { failure ??= error; },
+  });
+  decoder.configure(decoderConfig);
+
+  const durations = blockDurations(videoBlocks, microsPerUnit, 0);
+  try {
+    for (let index = keyIndex; index < edgeEnd && videoBlocks[index].time < end; index++) {
+      throwIfAborted(signal);
+      if (failure) throw failure;
+      await waitForQueue(() => decoder.decodeQueueSize + encoder.encodeQueueSize);
+      const block = videoBlocks[index];
+      const data = blockFrame(block);
+      if (!data) return null;
+      decoder.decode(new EncodedVideoChunk({
+        type: block.keyframe ? "key" : "delta",
+        timestamp: block.time * microsPerUnit,
+        duration: durations[index],
+        data,
+      }));
+    }
+    await decoder.flush();
+    await encoder.flush();
+    if (failure) throw failure;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn("Could not re-encode the trim edge, snapping to the previous keyframe:", error);
+    return null;
+  } finally {
+    if (decoder.state !== "closed") decoder.close();
+    if (encoder.state !== "closed") encoder.close();
+  }
+  return out.length > 0 && out[0].keyframe ? out : null;
+}
+
+/** Average video bitrate of the recording in bits per second. */
+function sourceBitrate({ videoBlocks, microsPerUnit }: WebmSource): number {
+  if (videoBlocks.length < 2) return 0;
+  const bytes = videoBlocks.reduce((total, block) => total + block.bytes.length, 0);
+  const seconds = ((videoBlocks[videoBlocks.length - 1].time - videoBlocks[0].time) * microsPerUnit) / 1_000_000;
+  return seconds > 0 ? (bytes * 8) / seconds : 0;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ExportProgress } from "@/lib/export/export-job";
+import { exportMp4 } from "@/lib/export/mp4-export";
+import { loadFixture } from "@/lib/webm/__fixtures__";
+import {
+  EdlError,
+  createEdl,
+  deleteSegment,
+  edlDuration,
+  moveSegment,
+  parseEdl,
+  renderEdl,
+  serializeEdl,
+  splitSegment,
+  type EditDecisionList,
+} from "./edl";
+
+// WebCodecs isn't available here, so MP4 conversion only reports progress.
+vi.mock("@/lib/export/mp4-export", () => ({
+  exportMp4: vi.fn(async (recording: Blob, { onProgress }: { onProgress?: (progress: ExportProgress) => void }) => {
+    onProgress?.({ phase: "reading", ratio: 0 });
+    onProgress?.({ phase: "transcoding", ratio: 0.5 });
+    onProgress?.({ phase: "finalizing", ratio: 1 });
+    return new Blob([await recording.arrayBuffer()], { type: "video/mp4" });
+  }),
+}));
+
+const bounds = (edl: EditDecisionList) => edl.segments.map(segment => [segment.start, segment.end]);
+
+/** A ten second recording cut into 0-2, 2-5 and 5-10. */
+function threeSegments() {
+  return splitSegment(splitSegment(createEdl(10), 2), 5);
+}
+
+describe("splitSegment", () => {
+  it("splits the segment under the playhead into two new segments", () => {
+    const edl = threeSegments();
+    expect(bounds(edl)).toEqual([[0, 2], [2, 5], [5, 10]]);
+    expect(new Set(edl.segments.map(segment => segment.id)).size).toBe(3);
+    expect(edlDuration(edl)).toBe(10);
+  });
+
+  it("leaves the list alone on a segment edge or outside every segment", () => {
+    const edl = threeSegments();
+    expect(splitSegment(edl, 2)).toBe(edl);
+    expect(splitSegment(edl, 0)).toBe(edl);
+    expect(splitSegment(edl, 12)).toBe(edl);
+    const withGap = deleteSegment(edl, edl.segments[1].id);
+    expect(splitSegment(withGap, 3)).toBe(withGap);
+  });
+});
+
+describe("deleteSegment", () => {
+  it("drops the segment and shortens the output", () => {
+    const edl = threeSegments();
+    const trimmed = deleteSegment(edl, edl.segments[1].id);
+    expect(bounds(trimmed)).toEqual([[0, 2], [5, 10]]);
+    expect(edlDuration(trimmed)).toBe(7);
+    expect(bounds(edl)).toHaveLength(3);
+  });
+
+  it("ignores unknown ids", () => {
+    const edl = threeSegments();
+    expect(bounds(deleteSegment(edl, "missing"))).toEqual(bounds(edl));
+  });
+});
+
+describe("moveSegment", () => {
+  it("reorders playback without changing what is kept", () => {
+    const edl = threeSegments();
+    expect(bounds(moveSegment(edl, edl.segments[2].id, 0))).toEqual([[5, 10], [0, 2], [2, 5]]);
+    expect(bounds(moveSegment(edl, edl.segments[0].id, 1))).toEqual([[2, 5], [0, 2], [5, 10]]);
+  });
+
+  it("clamps the target index to the list", () => {
+    const edl = threeSegments();
+    expect(bounds(moveSegment(edl, edl.segments[1].id, -4))).toEqual([[2, 5], [0, 2], [5, 10]]);
+    expect(bounds(moveSegment(edl, edl.segments[0].id, 99))).toEqual([[2, 5], [5, 10], [0, 2]]);
+  });
+
+  it("ignores unknown ids", () => {
+    const edl = threeSegments();
+    expect(moveSegment(edl, "missing", 0)).toBe(edl);
+  });
+});
+
+describe("parseEdl", () => {
+  it("round-trips a saved list with fresh segment ids", () => {
+    const segments = threeSegments();
+    const edl = moveSegment(segments, segments.segments[0].id, 2);
+    const parsed = parseEdl(serializeEdl(edl), 10);
+    expect(bounds(parsed)).toEqual(bounds(edl));
+    expect(parsed.segments.map(segment => segment.id)).not.toEqual(edl.segments.map(segment => segment.id));
+  });
+
+  it("tolerates a recording that got slightly shorter, clamping to its end", () => {
+    const json = serializeEdl(createEdl(10.03));
+    expect(bounds(parseEdl(json, 10))).toEqual([[0, 10]]);
+  });
+
+  it("rejects lists made for another recording", () => {
+    expect(() => parseEdl(serializeEdl(createEdl(10)), 8)).toThrow(
+      new EdlError("The edit decision list doesn't match this recording."),
+    );
+    const reversed = { ...createEdl(10), segments: [{ id: "a", start: 4, end: 2 }] };
+    expect(() => parseEdl(JSON.stringify(reversed), 10)).toThrow(EdlError);
+    const missingEnd = { ...createEdl(10), segments: [{ id: "a", start: 0 }] };
+    expect(() => parseEdl(JSON.stringify(missingEnd), 10)).toThrow(EdlError);
+  });
+
+  it("rejects files that aren't edit decision lists", () => {
+    expect(() => parseEdl("{ not json", 10)).toThrow(new EdlError("The file isn't valid JSON."));
+    const notAList = new EdlError("The file isn't a ScreenCatcher edit decision list.");
+    expect(() => parseEdl("null", 10)).toThrow(notAList);
+    expect(() => parseEdl(JSON.stringify({ version: 2, sourceDuration: 10, segments: [] }), 10)).toThrow(notAList);
+    expect(() => parseEdl(JSON.stringify({ version: 1, sourceDuration: 10 }), 10)).toThrow(notAList);
+  });
+});
+
+describe("renderEdl", () => {
+  const recording = new Blob([loadFixture("live-vp8-opus.webm")], { type: "video/webm" });
+  // Segments start on the fixture's keyframes, so they are copied without re-encoding.
+  const edl: EditDecisionList = { ...createEdl(4), segments: [{ id: "b", start: 2.007, end: 3 }, { id: "a", start: 0.007, end: 1 }] };
+
+  async function render(format: "webm" | "mp4") {
+    const ratios: number[] = [];
+    const blob = await renderEdl(recording, edl, format, { onProgress: ({ ratio }) => ratios.push(ratio) });
+    return { blob, ratios };
+  }
+
+  const ascending = (ratios: number[]) => ratios.every((ratio, index) => index === 0 || ratio >= ratios[index - 1]);
+
+  it("reports WebM progress from 0 to 1", async () => {
+    const { blob, ratios } = await render("webm");
+    expect(blob.type).toBe("video/webm");
+    expect(ratios[0]).toBe(0);
+    expect(ratios.at(-1)).toBe(1);
+    expect(ascending(ratios)).toBe(true);
+  });
+
+  it("keeps MP4 progress moving forward through the conversion", async () => {
+    const { blob, ratios } = await render("mp4");
+    expect(blob.type).toBe("video/mp4");
+    expect(vi.mocked(exportMp4)).toHaveBeenCalledOnce();
+    expect(ratios[0]).toBe(0);
+    expect(ratios.at(-1)).toBe(1);
+    expect(ascending(ratios)).toBe(true);
+  });
+
+  it("refuses to render a list with every segment deleted", async () => {
+    await expect(renderEdl(recording, { ...edl, segments: [] }, "webm")).rejects.toThrow("nothing to render");
+  });
+});
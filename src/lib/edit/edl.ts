@@ -0,0 +1,142 @@
+import { ExportError, throwIfAborted, type ExportOptions } from "@/lib/export/export-job";
+import { exportMp4 } from "@/lib/export/mp4-export";
+import { readWebmSource } from "@/lib/export/webm-source";
+import type { WebmBlock } from "@/lib/webm/parser";
+import { writeWebm } from "@/lib/webm/writer";
+import { cutRange } from "./cut";
+import type { TimeRange } from "./timeline";
+
+const EDL_VERSION = 1;
+
+/** One kept piece of the recording, in source seconds. */
+export interface EdlSegment extends TimeRange {
+  id: string;
+}
+
+/**
+ * An edit decision list: the pieces of a recording to keep, in playback
+ * order. Plain JSON, so it can be saved next to the recording and reloaded.
+ */
+export interface EditDecisionList {
+  version: typeof EDL_VERSION;
+  /** Length of the source recording in seconds, to catch lists loaded against the wrong file. */
+  sourceDuration: number;
+  segments: EdlSegment[];
+}
+
+export type EdlRenderFormat = "webm" | "mp4";
+
+/** A saved edit decision list that can't be loaded. The message is shown to the user. */
+export class EdlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EdlError";
+  }
+}
+
+function newSegment(start: number, end: number): EdlSegment {
+  return { id: crypto.randomUUID(), start, end };
+}
+
+/** A list keeping the whole recording as a single segment. */
+export function createEdl(sourceDuration: number): EditDecisionList {
+  return { version: EDL_VERSION, sourceDuration, segments: [newSegment(0, sourceDuration)] };
+}
+
+/** Seconds of output the list renders to. */
+export function edlDuration(edl: EditDecisionList): number {
+  return edl.segments.reduce((total, segment) => total + (segment.end - segment.start), 0);
+}
+
+/** Splits the segment covering source time `time` in two. Unchanged when `time` is on or outside every segment edge. */
+export function splitSegment(edl: EditDecisionList, time: number): EditDecisionList {
+  const index = edl.segments.findIndex(segment => segment.start < time && time < segment.end);
+  if (index === -1) return edl;
+  const { start, end } = edl.segments[index];
+  const segments = [...edl.segments];
+  segments.splice(index, 1, newSegment(start, time), newSegment(time, end));
+  return { ...edl, segments };
+}
+
+export function deleteSegment(edl: EditDecisionList, id: string): EditDecisionList {
+  return { ...edl, segments: edl.segments.filter(segment => segment.id !== id) };
+}
+
+/** Moves a segment to `toIndex` in playback order, clamped to the list. */
+export function moveSegment(edl: EditDecisionList, id: string, toIndex: number): EditDecisionList {
+  const from = edl.segments.findIndex(segment => segment.id === id);
+  if (from === -1) return edl;
+  const segments = [...edl.segments];
+  const [segment] = segments.splice(from, 1);
+  segments.splice(Math.max(0, Math.min(segments.length, toIndex)), 0, segment);
+  return { ...edl, segments };
+}
+
+export function serializeEdl(edl: EditDecisionList): string {
+  return JSON.stringify(edl, null, 2);
+}
+
+/** Parses a saved list, checking it fits a recording `sourceDuration` seconds long. */
+export function parseEdl(json: string, sourceDuration: number): EditDecisionList {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new EdlError("The file isn't valid JSON.");
+  }
+  const edl = value as Partial<EditDecisionList> | null;
+  if (!edl || edl.version !== EDL_VERSION || !Array.isArray(edl.segments)) {
+    throw new EdlError("The file isn't a ScreenCatcher edit decision list.");
+  }
+  // A few milliseconds of slack: durations are re-estimated whenever a recording is finalized.
+  const limit = sourceDuration + 0.05;
+  const segments = edl.segments.map(segment => {
+    const { start, end } = segment ?? {};
+    if (typeof start !== "number" || typeof end !== "number" || !(start >= 0 && start < end && end <= limit)) {
+      throw new EdlError("The edit decision list doesn't match this recording.");
+    }
+    return newSegment(start, Math.min(end, sourceDuration));
+  });
+  return { version: EDL_VERSION, sourceDuration, segments };
+}
+
+/**
+ * Renders the list into one file. Each segment is cut like a trim, copying
+ * blocks losslessly and re-encoding only mid-GOP starts, then the segments
+ * are laid end to end. MP4 output converts the joined WebM afterwards, so
+ * cutting reports the first half of its progress and converting the rest.
+ */
+export async function renderEdl(
+  recording: Blob,
+  edl: EditDecisionList,
+  format: EdlRenderFormat,
+  options: ExportOptions = {},
+): Promise<Blob> {
+  const { onProgress, signal } = options;
+  if (edl.segments.length === 0) throw new ExportError("Every segment was deleted, so there's nothing to render.");
+  const cutShare = format === "mp4" ? 0.5 : 1;
+
+  onProgress?.({ phase: "reading", ratio: 0 });
+  const source = await readWebmSource(recording);
+
+  const blocks: WebmBlock[] = [];
+  let offset = 0;
+  for (const [index, segment] of edl.segments.entries()) {
+    throwIfAborted(signal);
+    onProgress?.({ phase: "transcoding", ratio: (index / edl.segments.length) * 0.9 * cutShare });
+    const cut = await cutRange(source, segment, signal);
+    // Blocks are rebased from their `time` when written, so retiming is just a new time.
+    for (const block of cut.blocks) blocks.push({ ...block, time: offset + block.time - cut.start });
+    offset += Math.max(0, Math.round(cut.end - cut.start));
+  }
+  if (blocks.length === 0) throw new ExportError("The kept segments contain no frames.");
+
+  onProgress?.({ phase: "finalizing", ratio: 0.9 * cutShare });
+  const webm = writeWebm(source.header, blocks, { shift: 0, mimeType: recording.type });
+  onProgress?.({ phase: "finalizing", ratio: cutShare });
+  if (format === "webm") return webm;
+  return exportMp4(webm, {
+    signal,
+    onProgress: progress => onProgress?.({ ...progress, ratio: cutShare + progress.ratio * (1 - cutShare) }),
+  });
+}
@@ -0,0 +1,61 @@
+/** A point of interest dropped while recording. */
+export interface RecordingMarker {
+  id: string;
+  /** Seconds of recorded footage before the marker; paused time doesn't count. */
+  time: number;
+  /** Empty when the marker was dropped without a label. */
+  label: string;
+}
+
+/** The JSON sidecar written next to a recording. */
+export interface MarkerSidecar {
+  version: 1;
+  duration: number;
+  markers: { time: number; label: string }[];
+}
+
+/** What a marker is called in chapter lists when it has no label of its own. */
+export function markerTitle(marker: RecordingMarker, index: number): string {
+  return marker.label.trim() || `Marker ${index + 1}`;
+}
+
+/** Markers inside the recording, in time order. */
+export function sortedMarkers(markers: readonly RecordingMarker[], duration: number): RecordingMarker[] {
+  return markers.filter(marker => marker.time >= 0 && marker.time < duration).sort((a, b) => a.time - b.time);
+}
+
+/** "00:01:02.345", the timestamp form WebVTT requires. */
+export function formatVttTimestamp(seconds: number): string {
+  const millis = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(millis / 3_600_000);
+  const minutes = Math.floor(millis / 60_000) % 60;
+  const secs = Math.floor(millis / 1000) % 60;
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(millis % 1000, 3)}`;
+}
+
+/**
+ * WebVTT chapters, one per marker running until the next one. Footage before
+ * the first marker becomes an "Intro" chapter so the chapters cover the whole recording.
+ */
+export function markersToWebVtt(markers: readonly RecordingMarker[], duration: number): string {
+  const sorted = sortedMarkers(markers, duration);
+  const chapters = sorted.map(marker => ({ start: marker.time, title: markerTitle(marker, markers.indexOf(marker)) }));
+  if (chapters.length === 0 || chapters[0].start > 0) chapters.unshift({ start: 0, title: "Intro" });
+
+  const cues = chapters.map((chapter, index) => {
+    const end = index + 1 < chapters.length ? chapters[index + 1].start : duration;
+    // Cue text can't contain the arrow or a blank line.
+    const title = chapter.title.replace(/-->/g, "->").replace(/\n+/g, " ");
+    return `${index + 1}\n${formatVttTimestamp(chapter.start)} --> ${formatVttTimestamp(end)}\n${title}`;
+  });
+  return `WEBVTT\n\n${cues.join("\n\n")}\n`;
+}
+
+export function markersToSidecar(markers: readonly RecordingMarker[], duration: number): MarkerSidecar {
+  return {
+    version: 1,
+    duration,
+    markers: sortedMarkers(markers, duration).map(marker => ({ time: marker.time, label: marker.label })),
+  };
+}
@@ -0,0 +1,75 @@
+import { readWebmSource, type WebmSource } from "@/lib/export/webm-source";
+
+/** Seconds-based view of a recording's frames, for editors to snap and scrub against. */
+export interface RecordingTimeline {
+  /** Total length in seconds. */
+  duration: number;
+  /** Presentation time of every frame of the primary track, ascending. Audio packets stand in for frames in audio-only recordings. */
+  frameTimes: number[];
+  /** The subset of `frameTimes` a cut can start on without re-encoding. */
+  keyframeTimes: number[];
+  hasVideo: boolean;
+}
+
+export interface TimeRange {
+  /** Seconds from the start of the recording. */
+  start: number;
+  /** Exclusive end, in seconds from the start of the recording. */
+  end: number;
+}
+
+/** First block time across all tracks; timeline seconds count from here. */
+export function sourceOrigin(source: WebmSource): number {
+  const firsts = [source.videoBlocks[0], source.audioBlocks[0]].filter(block => block !== undefined);
+  return firsts.reduce((min, block) => Math.min(min, block.time), Infinity);
+}
+
+export function unitsPerSecond(source: WebmSource): number {
+  return 1_000_000 / source.microsPerUnit;
+}
+
+export function timelineFromSource(source: WebmSource): RecordingTimeline {
+  const blocks = source.videoBlocks.length > 0 ? source.videoBlocks : source.audioBlocks;
+  const origin = sourceOrigin(source);
+  const perSecond = unitsPerSecond(source);
+  const frameTimes = blocks.map(block => (block.time - origin) / perSecond);
+  const keyframeTimes = blocks.filter(block => block.keyframe).map(block => (block.time - origin) / perSecond);
+
+  const lastGap = frameTimes.length > 1 ? frameTimes[frameTimes.length - 1] - frameTimes[frameTimes.length - 2] : 0;
+  const fromFrames = frameTimes.length > 0 ? frameTimes[frameTimes.length - 1] + lastGap : 0;
+  const fromHeader = source.header.duration !== undefined ? source.header.duration / perSecond : 0;
+  return { duration: Math.max(fromFrames, fromHeader), frameTimes, keyframeTimes, hasVideo: source.videoBlocks.length > 0 };
+}
+
+export async function readTimeline(recording: Blob): Promise<RecordingTimeline> {
+  return timelineFromSource(await readWebmSource(recording));
+}
+
+/** Index of the frame on screen at `time`: the last one starting at or before it. */
+export function frameIndexAt(frameTimes: readonly number[], time: number): number {
+  let low = 0;
+  let high = frameTimes.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frameTimes[mid] <= time + 1e-6) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/** Snaps a time to the start of the frame showing at that moment. */
+export function snapToFrame(timeline: RecordingTimeline, time: number): number {
+  if (timeline.frameTimes.length === 0) return time;
+  return timeline.frameTimes[frameIndexAt(timeline.frameTimes, time)];
+}
+
+export function isKeyframeTime(timeline: RecordingTimeline, time: number): boolean {
+  return timeline.keyframeTimes.some(keyframe => Math.abs(keyframe - time) < 1e-6);
+}
+
+/** "1:02.345" style timestamp for editor labels. */
+export function formatTimecode(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(3).padStart(6, "0")}`;
+}
@@ -0,0 +1,155 @@
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import { ExportError, throwIfAborted, type ExportOptions } from "./export-job";
+import { isFrameSamplingSupported, sampleFrames, type FrameSamplingOptions, type SampledSize } from "./frame-sampler";
+import { encodeAnimatedWebp, type WebpFrame } from "./webp-animation";
+import { readWebmSource, type WebmSource } from "./webm-source";
+
+export type AnimatedImageFormat = "gif" | "webp";
+
+export interface AnimatedImageSettings {
+  /** Upper bound on frames per second. */
+  fps: number;
+  /** Upper bound on output width in pixels; 0 keeps the recorded width. */
+  maxWidth: number;
+  /** Colors per GIF frame, 2..256. */
+  paletteSize: number;
+  /** Lossy WebP quality, 0..1. */
+  webpQuality: number;
+  /** File size to aim for in bytes; 0 for no target. */
+  maxBytes: number;
+}
+
+export const DEFAULT_ANIMATED_IMAGE_SETTINGS: AnimatedImageSettings = {
+  fps: 10,
+  maxWidth: 640,
+  paletteSize: 256,
+  webpQuality: 0.8,
+  maxBytes: 0,
+};
+
+export const ANIMATION_FPS_OPTIONS = [5, 10, 15, 20, 25];
+export const ANIMATION_WIDTH_OPTIONS = [320, 480, 640, 800, 1280];
+export const PALETTE_SIZE_OPTIONS = [32, 64, 128, 256];
+export const WEBP_QUALITY_OPTIONS = [0.5, 0.65, 0.8, 0.9];
+export const MAX_BYTES_OPTIONS = [1_000_000, 2_000_000, 5_000_000, 10_000_000, 25_000_000];
+
+/** Narrowest output the size target will shrink to before it starts dropping frames instead. */
+const MIN_WIDTH = 240;
+const MIN_FPS = 4;
+/** Encodes to try before settling for the smallest result. */
+const MAX_ATTEMPTS = 4;
+
+let webpEncodingSupported: boolean | undefined;
+
+export function isAnimatedImageExportSupported(format: AnimatedImageFormat): boolean {
+  if (!isFrameSamplingSupported()) return false;
+  if (format === "gif") return true;
+  if (webpEncodingSupported === undefined) {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = 1;
+    webpEncodingSupported = canvas.toDataURL("image/webp").startsWith("data:image/webp");
+  }
+  return webpEncodingSupported;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1_000_000_000) return `${+(bytes / 1_000_000_000).toFixed(1)} GB`;
+  return bytes >= 1_000_000 ? `${+(bytes / 1_000_000).toFixed(1)} MB` : `${Math.round(bytes / 1000)} KB`;
+}
+
+/**
+ * Turns a WebM recording into an animated GIF or WebP. With a size target, the
+ * first encode that comes in over budget is redone at a smaller width, then a
+ * lower frame rate, and the smallest attempt wins if none fits.
+ */
+export async function exportAnimatedImage(
+  recording: Blob,
+  format: AnimatedImageFormat,
+  settings: AnimatedImageSettings,
+  options: ExportOptions = {},
+): Promise<Blob> {
+  const { onProgress, signal } = options;
+  if (!isAnimatedImageExportSupported(format)) {
+    throw new ExportError(`This browser can't create animated ${format.toUpperCase()} files. Try a Chromium-based browser.`);
+  }
+
+  onProgress?.({ phase: "reading", ratio: 0 });
+  const source = await readWebmSource(recording);
+  throwIfAborted(signal);
+
+  let attempt = { ...settings, maxWidth: settings.maxWidth || source.video?.width || 0 };
+  let best: Blob | null = null;
+  for (let round = 0; round < MAX_ATTEMPTS; round++) {
+    const phase = round === 0 ? "transcoding" : "shrinking";
+    const blob = await encodeOnce(source, format, attempt, {
+      fps: attempt.fps,
+      maxWidth: attempt.maxWidth,
+      signal,
+      onProgress: ratio => onProgress?.({ phase, ratio: ratio * 0.95 }),
+    });
+    if (!best || blob.size < best.size) best = blob;
+    if (!settings.maxBytes || blob.size <= settings.maxBytes) break;
+
+    const next = shrink(attempt, settings.maxBytes / blob.size);
+    if (!next) break;
+    attempt = next;
+  }
+  onProgress?.({ phase: "finalizing", ratio: 1 });
+  return best!;
+}
+
+/** Settings expected to land near the target, given how far over the last attempt was; null once nothing is left to give. */
+function shrink(settings: AnimatedImageSettings, ratio: number): AnimatedImageSettings | null {
+  // Size scales roughly with pixel count, so width goes with the square root. Aim a little under.
+  const width = Math.max(MIN_WIDTH, Math.floor(settings.maxWidth * Math.sqrt(ratio) * 0.9));
+  if (width < settings.maxWidth) return { ...settings, maxWidth: width };
+  const fps = Math.max(MIN_FPS, Math.floor(settings.fps * ratio * 0.9));
+  if (fps < settings.fps) return { ...settings, fps };
+  return null;
+}
+
+function encodeOnce(source: WebmSource, format: AnimatedImageFormat, settings: AnimatedImageSettings, sampling: FrameSamplingOptions): Promise<Blob> {
+  const lastFrameDuration = 1000 / settings.fps;
+  return format === "gif"
+    ? encodeGif(source, sampling, settings.paletteSize, lastFrameDuration)
+    : encodeWebp(source, sampling, settings.webpQuality, lastFrameDuration);
+}
+
+async function encodeGif(source: WebmSource, sampling: FrameSamplingOptions, paletteSize: number, lastFrameDuration: number): Promise<Blob> {
+  const gif = GIFEncoder();
+  // Each frame is written once the next one arrives, since its delay is the gap between them.
+  const held = { image: null as ImageData | null, timestamp: 0 };
+  const write = (image: ImageData, delay: number) => {
+    const palette = quantize(image.data, paletteSize);
+    gif.writeFrame(applyPalette(image.data, palette), image.width, image.height, { palette, delay });
+  };
+
+  await sampleFrames(source, sampling, (image, timestamp) => {
+    if (held.image) write(held.image, (timestamp - held.timestamp) / 1000);
+    held.image = image;
+    held.timestamp = timestamp;
+  });
+  if (!held.image) throw new ExportError("The recording has no frames to export.");
+  write(held.image, lastFrameDuration);
+  gif.finish();
+  return new Blob([gif.bytes()], { type: "image/gif" });
+}
+
+async function encodeWebp(source: WebmSource, sampling: FrameSamplingOptions, quality: number, lastFrameDuration: number): Promise<Blob> {
+  const frames: WebpFrame[] = [];
+  const timestamps: number[] = [];
+  let canvas: OffscreenCanvas | null = null;
+
+  const size: SampledSize = await sampleFrames(source, sampling, async (image, timestamp) => {
+    canvas ??= new OffscreenCanvas(image.width, image.height);
+    canvas.getContext("2d")!.putImageData(image, 0, 0);
+    const still = await canvas.convertToBlob({ type: "image/webp", quality });
+    frames.push({ image: new Uint8Array(await still.arrayBuffer()), duration: lastFrameDuration });
+    timestamps.push(timestamp);
+  });
+  for (let i = 0; i < frames.length - 1; i++) {
+    frames[i].duration = (timestamps[i + 1] - timestamps[i]) / 1000;
+  }
+  if (frames.length === 0) throw new ExportError("The recording has no frames to export.");
+  return encodeAnimatedWebp(frames, size.width, size.height);
+}
@@ -0,0 +1,125 @@
+import { selectTracks, writeWebm } from "@/lib/webm/writer";
+import { blockFrame, type WebmTrack } from "@/lib/webm/parser";
+import { ExportError, throwIfAborted, waitForQueue, type ExportOptions } from "./export-job";
+import { audioDecoderConfig, readWebmSource, type WebmSource } from "./webm-source";
+
+const WAV_HEADER_SIZE = 44;
+/** RIFF sizes are 32-bit. */
+const MAX_WAV_DATA_SIZE = 0xffffffff - WAV_HEADER_SIZE;
+
+export function isWavExportSupported(): boolean {
+  return typeof window !== "undefined" && "AudioDecoder" in window;
+}
+
+async function readAudioSource(recording: Blob): Promise<{ source: WebmSource; audio: WebmTrack }> {
+  const source = await readWebmSource(recording);
+  if (!source.audio || source.audioBlocks.length === 0) throw new ExportError("The recording has no audio.");
+  return { source, audio: source.audio };
+}
+
+/** Copies the audio track into its own WebM file. No re-encoding, so it is quick and lossless. */
+export async function exportAudioWebm(recording: Blob, { onProgress, signal }: ExportOptions = {}): Promise<Blob> {
+  onProgress?.({ phase: "reading", ratio: 0 });
+  const { source, audio } = await readAudioSource(recording);
+  throwIfAborted(signal);
+
+  onProgress?.({ phase: "remuxing", ratio: 0.5 });
+  const header = selectTracks(source.header, track => track.number === audio.number);
+  const shift = source.audioBlocks.reduce((min, block) => Math.min(min, block.time), Infinity);
+  const blob = writeWebm(header, source.audioBlocks, { shift, mimeType: "audio/webm" });
+  onProgress?.({ phase: "finalizing", ratio: 1 });
+  return blob;
+}
+
+/** Decodes the audio track to 16-bit PCM WAV. */
+export async function exportWav(recording: Blob, { onProgress, signal }: ExportOptions = {}): Promise<Blob> {
+  if (!isWavExportSupported()) throw new ExportError("This browser can't decode audio for WAV export. Try a Chromium-based browser.");
+
+  onProgress?.({ phase: "reading", ratio: 0 });
+  const { source, audio } = await readAudioSource(recording);
+  throwIfAborted(signal);
+  const config = audioDecoderConfig(audio);
+  if (!config || !(await AudioDecoder.isConfigSupported(config)).supported) {
+    throw new ExportError(`This browser can't decode ${audio.codecId} audio.`);
+  }
+
+  const parts: Int16Array[] = [];
+  let dataSize = 0;
+  let format: { sampleRate: number; channels: number } | null = null;
+  let failure: unknown = null;
+
+  const decoder = new AudioDecoder({
+    output: data => {
+      try {
+        format ??= { sampleRate: data.sampleRate, channels: data.numberOfChannels };
+        const pcm = interleaveToInt16(data);
+        parts.push(pcm);
+        dataSize += pcm.byteLength;
+      } catch (error) {
+        failure ??= error;
+      } finally {
+        data.close();
+      }
+    },
+    error: error => { failure ??= error; },
+  });
+  decoder.configure(config);
+
+  const { audioBlocks, microsPerUnit } = source;
+  try {
+    for (const [index, block] of audioBlocks.entries()) {
+      throwIfAborted(signal);
+      if (failure) throw failure;
+      if (dataSize > MAX_WAV_DATA_SIZE) throw new ExportError("The recording is too long for a WAV file. Export Opus/WebM instead.");
+      await waitForQueue(() => decoder.decodeQueueSize, 64);
+      const data = blockFrame(block);
+      if (!data) throw new ExportError("The recording uses laced blocks, which can't be decoded here.");
+      decoder.decode(new EncodedAudioChunk({ type: "key", timestamp: block.time * microsPerUnit, data }));
+      if (index % 50 === 0) onProgress?.({ phase: "transcoding", ratio: (index / audioBlocks.length) * 0.95 });
+    }
+    await decoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (decoder.state !== "closed") decoder.close();
+  }
+
+  const { sampleRate, channels } = format ?? { sampleRate: config.sampleRate, channels: config.numberOfChannels };
+  onProgress?.({ phase: "finalizing", ratio: 1 });
+  return new Blob([wavHeader(dataSize, sampleRate, channels), ...parts], { type: "audio/wav" });
+}
+
+function interleaveToInt16(data: AudioData): Int16Array {
+  const channels = data.numberOfChannels;
+  const frames = data.numberOfFrames;
+  const out = new Int16Array(frames * channels);
+  const plane = new Float32Array(frames);
+  for (let channel = 0; channel < channels; channel++) {
+    data.copyTo(plane, { planeIndex: channel, format: "f32-planar" });
+    for (let i = 0; i < frames; i++) {
+      const sample = Math.max(-1, Math.min(1, plane[i]));
+      out[i * channels + channel] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+  }
+  return out;
+}
+
+function wavHeader(dataSize: number, sampleRate: number, channels: number): Uint8Array {
+  const header = new Uint8Array(WAV_HEADER_SIZE);
+  const view = new DataView(header.buffer);
+  const ascii = (offset: number, text: string) => [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+  const bytesPerFrame = channels * 2;
+  ascii(0, "RIFF");
+  view.setUint32(4, WAV_HEADER_SIZE - 8 + dataSize, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerFrame, true);
+  view.setUint16(32, bytesPerFrame, true);
+  view.setUint16(34, 16, true);
+  ascii(36, "data");
+  view.setUint32(40, dataSize, true);
+  return header;
+}
@@ -0,0 +1,36 @@
+/** "shrinking" is a repeat encode at lower settings to meet a file size target. */
+export type ExportPhase = "reading" | "remuxing" | "transcoding" | "shrinking" | "finalizing";
+
+export interface ExportProgress {
+  phase: ExportPhase;
+  /** Overall progress, 0..1. */
+  ratio: number;
+}
+
+export interface ExportOptions {
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+/** A recording that can't be converted in this browser. The message is shown to the user. */
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException("Export cancelled", "AbortError");
+}
+
+/** Waits until a codec's queue has room, so large recordings don't pile up in memory. */
+export async function waitForQueue(queueSize: () => number, limit = 16) {
+  while (queueSize() > limit) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+}
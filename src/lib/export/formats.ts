@@ -0,0 +1,98 @@
+import { fileExtensionFor } from "@/lib/download";
+import { exportAnimatedImage, isAnimatedImageExportSupported, type AnimatedImageSettings } from "./animated-image-export";
+import { exportAudioWebm, exportWav, isWavExportSupported } from "./audio-export";
+import type { ExportOptions } from "./export-job";
+import { exportMp4, isMp4ExportSupported } from "./mp4-export";
+import { cueAt, drawCaption, type CaptionCue } from "@/lib/transcript/captions";
+import { isWebmType } from "./webm-source";
+
+const isVideoWebm = (recordingType: string) => recordingType.startsWith("video/webm");
+
+export type ExportFormatId = "original" | "mp4" | "gif" | "webp" | "audio-webm" | "wav";
+
+export interface ConvertOptions extends ExportOptions {
+  /** Frame rate, size and palette settings for the animated image formats. */
+  animation: AnimatedImageSettings;
+  /** Burned into the video by formats with `captions` set; others ignore them. */
+  captions?: readonly CaptionCue[];
+}
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  /** Animated images take AnimatedImageSettings; video formats ignore them. */
+  kind: "video" | "animation" | "audio";
+  /** True when `convert` can burn captions into the video. */
+  captions?: boolean;
+  /** Whether this browser can produce the format from a recording of the given MIME type. */
+  isAvailable: (recordingType: string) => boolean;
+  extension: (recordingType: string) => string;
+  /** Omitted when the recording is downloaded as it is. */
+  convert?: (recording: Blob, options: ConvertOptions) => Promise<Blob>;
+}
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = [
+  {
+    id: "original",
+    label: "Original",
+    kind: "video",
+    isAvailable: () => true,
+    extension: fileExtensionFor,
+  },
+  {
+    id: "mp4",
+    label: "MP4 (H.264)",
+    kind: "video",
+    // MP4 recordings are already in the right container; Original covers them.
+    isAvailable: recordingType => isVideoWebm(recordingType) && isMp4ExportSupported(),
+    extension: () => "mp4",
+    captions: true,
+    convert: (recording, { animation, captions, ...options }) =>
+      exportMp4(recording, {
+        ...options,
+        overlay: captions?.length
+          ? (context, time) => {
+              const cue = cueAt(captions, time);
+              if (cue) drawCaption(context, cue);
+            }
+          : undefined,
+      }),
+  },
+  {
+    id: "gif",
+    label: "Animated GIF",
+    kind: "animation",
+    isAvailable: recordingType => isVideoWebm(recordingType) && isAnimatedImageExportSupported("gif"),
+    extension: () => "gif",
+    convert: (recording, { animation, ...options }) => exportAnimatedImage(recording, "gif", animation, options),
+  },
+  {
+    id: "webp",
+    label: "Animated WebP",
+    kind: "animation",
+    isAvailable: recordingType => isVideoWebm(recordingType) && isAnimatedImageExportSupported("webp"),
+    extension: () => "webp",
+    convert: (recording, { animation, ...options }) => exportAnimatedImage(recording, "webp", animation, options),
+  },
+  {
+    id: "audio-webm",
+    label: "Audio only (Opus/WebM)",
+    kind: "audio",
+    // Audio-only recordings already are this; Original covers them.
+    isAvailable: isVideoWebm,
+    extension: () => "webm",
+    convert: exportAudioWebm,
+  },
+  {
+    id: "wav",
+    label: "Audio only (WAV)",
+    kind: "audio",
+    isAvailable: recordingType => isWebmType(recordingType) && isWavExportSupported(),
+    extension: () => "wav",
+    convert: exportWav,
+  },
+];
+
+export function availableExportFormats(recordingType: string): ExportFormat[] {
+  return EXPORT_FORMATS.filter(format => format.isAvailable(recordingType));
+}
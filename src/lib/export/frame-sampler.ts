@@ -0,0 +1,111 @@
+import { blockFrame } from "@/lib/webm/parser";
+import { ExportError, throwIfAborted, waitForQueue } from "./export-job";
+import { blockDurations, videoDecoderConfig, type WebmSource } from "./webm-source";
+
+export interface FrameSamplingOptions {
+  /** Frames closer together than 1/fps are dropped. */
+  fps: number;
+  /** Frames wider than this are scaled down, keeping the aspect ratio; 0 keeps the recorded width. */
+  maxWidth: number;
+  signal?: AbortSignal;
+  /** Called with 0..1 as blocks are decoded. */
+  onProgress?: (ratio: number) => void;
+}
+
+export interface SampledSize {
+  width: number;
+  height: number;
+}
+
+/** Chunks queued in the decoder plus frames waiting on `onFrame` before decoding pauses. */
+const MAX_FRAMES_IN_FLIGHT = 8;
+
+export function isFrameSamplingSupported(): boolean {
+  return typeof window !== "undefined" && "VideoDecoder" in window && "OffscreenCanvas" in window;
+}
+
+/** Output size for a recording of the given size under a width cap, rounded to even pixels. */
+export function sampledSize(width: number, height: number, maxWidth: number): SampledSize {
+  const scale = maxWidth > 0 ? Math.min(1, maxWidth / width) : 1;
+  const even = (value: number) => Math.max(2, Math.round((value * scale) / 2) * 2);
+  return { width: even(width), height: even(height) };
+}
+
+/**
+ * Decodes the recording's video and hands `onFrame` scaled RGBA frames at no more than
+ * `fps`, in order. Timestamps are microseconds from the first frame. Decoding waits on
+ * `onFrame`, so it can encode asynchronously without frames piling up in memory.
+ */
+export async function sampleFrames(
+  source: WebmSource,
+  options: FrameSamplingOptions,
+  onFrame: (image: ImageData, timestamp: number) => void | Promise<void>,
+): Promise<SampledSize> {
+  const { video, videoBlocks, microsPerUnit } = source;
+  const { signal, onProgress } = options;
+  if (!video || videoBlocks.length === 0) throw new ExportError("The recording has no video to export.");
+  if (!video.width || !video.height) throw new ExportError("The recording doesn't state its video size.");
+  if (!isFrameSamplingSupported()) throw new ExportError("This browser can't decode video frames. Try a Chromium-based browser.");
+
+  const config = videoDecoderConfig(video);
+  if (!config || !(await VideoDecoder.isConfigSupported(config)).supported) {
+    throw new ExportError(`This browser can't decode ${video.codecId} video.`);
+  }
+
+  const size = sampledSize(video.width, video.height, options.maxWidth);
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new ExportError("Couldn't create a canvas to draw frames on.");
+
+  const interval = 1_000_000 / options.fps;
+  const origin = videoBlocks[0].time * microsPerUnit;
+  let nextSample = 0;
+  let pending = Promise.resolve();
+  let pendingFrames = 0;
+  let failure: unknown = null;
+
+  const decoder = new VideoDecoder({
+    output: frame => {
+      const timestamp = frame.timestamp - origin;
+      if (timestamp >= nextSample && !failure) {
+        context.drawImage(frame, 0, 0, size.width, size.height);
+        const image = context.getImageData(0, 0, size.width, size.height);
+        // Step along the schedule rather than from each frame, so capping 30 fps at 10 doesn't drift.
+        nextSample = Math.max(nextSample + interval, timestamp + interval / 2);
+        pendingFrames++;
+        pending = pending
+          .then(() => onFrame(image, timestamp))
+          .catch(error => { failure ??= error; })
+          .finally(() => { pendingFrames--; });
+      }
+      frame.close();
+    },
+    error: error => { failure ??= error; },
+  });
+  decoder.configure(config);
+
+  const durations = blockDurations(videoBlocks, microsPerUnit, interval);
+  try {
+    for (const [index, block] of videoBlocks.entries()) {
+      throwIfAborted(signal);
+      if (failure) throw failure;
+      await waitForQueue(() => decoder.decodeQueueSize + pendingFrames, MAX_FRAMES_IN_FLIGHT);
+      const data = blockFrame(block);
+      if (!data) throw new ExportError("The recording uses laced blocks, which can't be decoded here.");
+      decoder.decode(new EncodedVideoChunk({
+        type: block.keyframe ? "key" : "delta",
+        timestamp: block.time * microsPerUnit,
+        duration: durations[index],
+        data,
+      }));
+      onProgress?.((index + 1) / videoBlocks.length);
+    }
+    await decoder.flush();
+    await pending;
+    throwIfAborted(signal);
+    if (failure) throw failure;
+    return size;
+  } finally {
+    if (decoder.state !== "closed") decoder.close();
+  }
+}
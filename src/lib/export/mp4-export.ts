@@ -0,0 +1,309 @@
+import { ArrayBufferTarget, Muxer } from "mp4-muxer";
+import { blockFrame, type WebmBlock, type WebmTrack } from "@/lib/webm/parser";
+import { ExportError, throwIfAborted, waitForQueue, type ExportOptions, type ExportPhase } from "./export-job";
+import { audioDecoderConfig, avcCodecString, blockDurations, isWebmType, readWebmSource, videoDecoderConfig } from "./webm-source";
+
+/** Draws over a decoded frame before it is re-encoded. `time` is the frame's timestamp in seconds. */
+export type FrameOverlay = (context: OffscreenCanvasRenderingContext2D, time: number) => void;
+
+export interface Mp4ExportOptions extends ExportOptions {
+  /** Target bitrate when video has to be re-encoded. */
+  videoBitsPerSecond?: number;
+  /** Burned into every frame, e.g. captions. Forces H.264 video to be re-encoded instead of copied. */
+  overlay?: FrameOverlay;
+}
+
+/** High, Main then Baseline profile; level 5.1 first so 1440p and 4K captures fit. */
+const AVC_ENCODER_CODECS = ["avc1.640033", "avc1.4d0033", "avc1.42e033", "avc1.640028", "avc1.42e01f"];
+const AAC_CODEC = "mp4a.40.2";
+const KEYFRAME_INTERVAL_MICROS = 2_000_000;
+const DEFAULT_VIDEO_BITRATE = 4_000_000;
+const DEFAULT_AUDIO_BITRATE = 128_000;
+/** Fallback frame and packet lengths for the last block of a track. */
+const LAST_VIDEO_FRAME_MICROS = 33_333;
+const LAST_AUDIO_PACKET_MICROS = 20_000;
+
+export function isMp4ExportSupported(): boolean {
+  return typeof window !== "undefined" && "VideoEncoder" in window && "VideoDecoder" in window;
+}
+
+/**
+ * Converts a finished WebM recording to MP4 without leaving the browser. H.264 video is
+ * copied as-is; anything else goes through WebCodecs. Audio becomes AAC where the browser
+ * can encode it, otherwise the Opus packets are copied over.
+ */
+export async function exportMp4(recording: Blob, options: Mp4ExportOptions = {}): Promise<Blob> {
+  const { onProgress, signal } = options;
+  if (recording.type.startsWith("video/mp4")) return recording;
+  if (!isWebmType(recording.type)) throw new ExportError(`Can't convert ${recording.type || "this file"} to MP4.`);
+
+  onProgress?.({ phase: "reading", ratio: 0 });
+  const source = await readWebmSource(recording);
+  throwIfAborted(signal);
+  if (!source.video || source.videoBlocks.length === 0) throw new ExportError("The recording has no video to export.");
+
+  const videoTrack = source.video;
+  const { overlay } = options;
+  if (overlay && typeof OffscreenCanvas === "undefined") throw new ExportError("This browser can't draw onto video frames. Try a Chromium-based browser.");
+  const remuxVideo = !overlay && videoTrack.codecId === "V_MPEG4/ISO/AVC" && videoTrack.codecPrivate !== undefined;
+  const width = evenDimension(videoTrack.width);
+  const height = evenDimension(videoTrack.height);
+  if (!width || !height) throw new ExportError("The recording doesn't state its video size.");
+
+  const videoEncoderConfig = remuxVideo
+    ? null
+    : await pickAvcEncoderConfig(width, height, options.videoBitsPerSecond ?? DEFAULT_VIDEO_BITRATE);
+  const audio = source.audio && source.audioBlocks.length > 0 ? await planAudio(source.audio) : null;
+
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({
+    target,
+    video: { codec: "avc", width, height },
+    audio: audio ? { codec: audio.codec, sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels } : undefined,
+    fastStart: "in-memory",
+    firstTimestampBehavior: "cross-track-offset",
+  });
+
+  const total = source.videoBlocks.length + (audio ? source.audioBlocks.length : 0);
+  let done = 0;
+  const phase: ExportPhase = remuxVideo && audio?.encoderConfig == null ? "remuxing" : "transcoding";
+  const advance = () => {
+    done++;
+    if (done % 10 === 0 || done === total) onProgress?.({ phase, ratio: Math.min(done / total, 1) * 0.95 });
+  };
+
+  if (remuxVideo) {
+    copyVideo(muxer, videoTrack, source.videoBlocks, source.microsPerUnit, advance, signal);
+  } else {
+    await transcodeVideo(muxer, videoTrack, source.videoBlocks, source.microsPerUnit, videoEncoderConfig!, advance, signal, overlay);
+  }
+
+  if (audio) {
+    if (audio.encoderConfig) {
+      await transcodeAudio(muxer, audio.decoderConfig, audio.encoderConfig, source.audioBlocks, source.microsPerUnit, advance, signal);
+    } else {
+      copyOpus(muxer, audio, source.audioBlocks, source.microsPerUnit, advance, signal);
+    }
+  }
+
+  onProgress?.({ phase: "finalizing", ratio: 0.97 });
+  muxer.finalize();
+  onProgress?.({ phase: "finalizing", ratio: 1 });
+  return new Blob([target.buffer], { type: "video/mp4" });
+}
+
+type Mp4Muxer = Muxer<ArrayBufferTarget>;
+
+interface AudioPlan {
+  codec: "aac" | "opus";
+  sampleRate: number;
+  numberOfChannels: number;
+  decoderConfig: AudioDecoderConfig;
+  /** Set when the audio is re-encoded to AAC; null when Opus packets are copied. */
+  encoderConfig: AudioEncoderConfig | null;
+}
+
+function evenDimension(size: number | undefined): number {
+  return size ? size - (size % 2) : 0;
+}
+
+async function pickAvcEncoderConfig(width: number, height: number, bitrate: number): Promise<VideoEncoderConfig> {
+  if (!isMp4ExportSupported()) throw new ExportError("This browser can't convert the recording to MP4. Try a Chromium-based browser.");
+  for (const codec of AVC_ENCODER_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate, avc: { format: "avc" } };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  throw new ExportError("This browser can't encode H.264 video, which MP4 export needs.");
+}
+
+async function planAudio(track: WebmTrack): Promise<AudioPlan> {
+  const decoderConfig = audioDecoderConfig(track);
+  if (!decoderConfig) throw new ExportError(`Audio in ${track.codecId} format can't be converted to MP4.`);
+  const { sampleRate, numberOfChannels } = decoderConfig;
+
+  if (typeof AudioEncoder !== "undefined" && typeof AudioDecoder !== "undefined") {
+    const encoderConfig: AudioEncoderConfig = { codec: AAC_CODEC, sampleRate, numberOfChannels, bitrate: DEFAULT_AUDIO_BITRATE };
+    const [encoder, decoder] = await Promise.all([
+      AudioEncoder.isConfigSupported(encoderConfig),
+      AudioDecoder.isConfigSupported(decoderConfig),
+    ]);
+    if (encoder.supported && decoder.supported) {
+      return { codec: "aac", sampleRate, numberOfChannels, decoderConfig, encoderConfig };
+    }
+  }
+  if (track.codecId !== "A_OPUS") throw new ExportError("This browser can't encode AAC audio for the MP4 file.");
+  return { codec: "opus", sampleRate, numberOfChannels, decoderConfig, encoderConfig: null };
+}
+
+function copyVideo(
+  muxer: Mp4Muxer,
+  track: WebmTrack,
+  blocks: readonly WebmBlock[],
+  microsPerUnit: number,
+  advance: () => void,
+  signal?: AbortSignal,
+) {
+  const avcC = track.codecPrivate!;
+  const durations = blockDurations(blocks, microsPerUnit, LAST_VIDEO_FRAME_MICROS);
+  const decoderConfig: VideoDecoderConfig = {
+    codec: avcCodecString(avcC),
+    codedWidth: track.width,
+    codedHeight: track.height,
+    description: avcC,
+  };
+  blocks.forEach((block, index) => {
+    throwIfAborted(signal);
+    const frame = requireFrame(block);
+    muxer.addVideoChunkRaw(frame, block.keyframe ? "key" : "delta", block.time * microsPerUnit, durations[index], index === 0 ? { decoderConfig } : undefined);
+    advance();
+  });
+}
+
+function copyOpus(
+  muxer: Mp4Muxer,
+  plan: AudioPlan,
+  blocks: readonly WebmBlock[],
+  microsPerUnit: number,
+  advance: () => void,
+  signal?: AbortSignal,
+) {
+  const durations = blockDurations(blocks, microsPerUnit, LAST_AUDIO_PACKET_MICROS);
+  blocks.forEach((block, index) => {
+    throwIfAborted(signal);
+    const meta = index === 0 ? { decoderConfig: plan.decoderConfig } : undefined;
+    muxer.addAudioChunkRaw(requireFrame(block), "key", block.time * microsPerUnit, durations[index], meta);
+    advance();
+  });
+}
+
+async function transcodeVideo(
+  muxer: Mp4Muxer,
+  track: WebmTrack,
+  blocks: readonly WebmBlock[],
+  microsPerUnit: number,
+  encoderConfig: VideoEncoderConfig,
+  advance: () => void,
+  signal?: AbortSignal,
+  overlay?: FrameOverlay,
+) {
+  const decoderConfig = videoDecoderConfig(track);
+  if (!decoderConfig || !(await VideoDecoder.isConfigSupported(decoderConfig)).supported) {
+    throw new ExportError(`This browser can't decode ${track.codecId} video.`);
+  }
+
+  let failure: Error | null = null;
+  const onError = (error: DOMException) => { failure ??= error; };
+  let lastKeyframe = -Infinity;
+
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: onError,
+  });
+  encoder.configure(encoderConfig);
+
+  const canvas = overlay ? new OffscreenCanvas(encoderConfig.width, encoderConfig.height) : null;
+  const context = canvas?.getContext("2d") ?? null;
+  if (overlay && !context) throw new ExportError("This browser can't draw onto video frames. Try a Chromium-based browser.");
+
+  const decoder = new VideoDecoder({
+    output: frame => {
+      const keyFrame = frame.timestamp - lastKeyframe >= KEYFRAME_INTERVAL_MICROS;
+      if (keyFrame) lastKeyframe = frame.timestamp;
+      if (overlay && canvas && context) {
+        context.drawImage(frame, 0, 0, canvas.width, canvas.height);
+        overlay(context, frame.timestamp / 1_000_000);
+        const drawn = new VideoFrame(canvas, { timestamp: frame.timestamp, duration: frame.duration ?? undefined });
+        encoder.encode(drawn, { keyFrame });
+        drawn.close();
+      } else {
+        encoder.encode(frame, { keyFrame });
+      }
+      frame.close();
+      advance();
+    },
+    error: onError,
+  });
+  decoder.configure(decoderConfig);
+
+  const durations = blockDurations(blocks, microsPerUnit, LAST_VIDEO_FRAME_MICROS);
+  try {
+    for (const [index, block] of blocks.entries()) {
+      throwIfAborted(signal);
+      if (failure) throw failure;
+      await waitForQueue(() => decoder.decodeQueueSize + encoder.encodeQueueSize);
+      decoder.decode(new EncodedVideoChunk({
+        type: block.keyframe ? "key" : "delta",
+        timestamp: block.time * microsPerUnit,
+        duration: durations[index],
+        data: requireFrame(block),
+      }));
+    }
+    await decoder.flush();
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    closeCodec(decoder);
+    closeCodec(encoder);
+  }
+}
+
+async function transcodeAudio(
+  muxer: Mp4Muxer,
+  decoderConfig: AudioDecoderConfig,
+  encoderConfig: AudioEncoderConfig,
+  blocks: readonly WebmBlock[],
+  microsPerUnit: number,
+  advance: () => void,
+  signal?: AbortSignal,
+) {
+  let failure: Error | null = null;
+  const onError = (error: DOMException) => { failure ??= error; };
+
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: onError,
+  });
+  encoder.configure(encoderConfig);
+
+  const decoder = new AudioDecoder({
+    output: data => {
+      encoder.encode(data);
+      data.close();
+      advance();
+    },
+    error: onError,
+  });
+  decoder.configure(decoderConfig);
+
+  const durations = blockDurations(blocks, microsPerUnit, LAST_AUDIO_PACKET_MICROS);
+  try {
+    for (const [index, block] of blocks.entries()) {
+      throwIfAborted(signal);
+      if (failure) throw failure;
+      await waitForQueue(() => decoder.decodeQueueSize + encoder.encodeQueueSize, 64);
+      decoder.decode(new EncodedAudioChunk({
+        type: "key",
+        timestamp: block.time * microsPerUnit,
+        duration: durations[index],
+        data: requireFrame(block),
+      }));
+    }
+    await decoder.flush();
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    closeCodec(decoder);
+    closeCodec(encoder);
+  }
+}
+
+function requireFrame(block: WebmBlock): Uint8Array {
+  const frame = blockFrame(block);
+  if (!frame) throw new ExportError("The recording uses laced blocks, which MP4 export doesn't support.");
+  return frame;
+}
+
+function closeCodec(codec: { state: CodecState; close(): void }) {
+  if (codec.state !== "closed") codec.close();
+}
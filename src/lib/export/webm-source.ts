@@ -0,0 +1,82 @@
+import { parseClusters, parseHeader, TRACK_TYPE_AUDIO, TRACK_TYPE_VIDEO, type WebmBlock, type WebmHeader, type WebmTrack } from "@/lib/webm/parser";
+
+/** A parsed recording, ready to feed into WebCodecs decoders or muxers. */
+export interface WebmSource {
+  header: WebmHeader;
+  video?: WebmTrack;
+  audio?: WebmTrack;
+  videoBlocks: WebmBlock[];
+  audioBlocks: WebmBlock[];
+  /** Multiply block times by this to get microseconds, the WebCodecs time base. */
+  microsPerUnit: number;
+}
+
+export async function readWebmSource(blob: Blob): Promise<WebmSource> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const header = parseHeader(bytes);
+  const video = header.trackList.find(track => track.type === TRACK_TYPE_VIDEO);
+  const audio = header.trackList.find(track => track.type === TRACK_TYPE_AUDIO);
+  const blocks = parseClusters(bytes, header.firstClusterOffset).flatMap(cluster => cluster.blocks);
+  return {
+    header,
+    video,
+    audio,
+    videoBlocks: video ? blocks.filter(block => block.track === video.number) : [],
+    audioBlocks: audio ? blocks.filter(block => block.track === audio.number) : [],
+    microsPerUnit: header.timecodeScale / 1000,
+  };
+}
+
+/** Microsecond duration of each block, taken from the gap to the next one. */
+export function blockDurations(blocks: readonly WebmBlock[], microsPerUnit: number, fallbackMicros: number): number[] {
+  return blocks.map((block, index) => {
+    const next = blocks[index + 1];
+    return next ? Math.max(0, (next.time - block.time) * microsPerUnit) : fallbackMicros;
+  });
+}
+
+function hex(byte: number): string {
+  return byte.toString(16).padStart(2, "0");
+}
+
+/** RFC 6381 codec string for an AVCDecoderConfigurationRecord, e.g. "avc1.64001f". */
+export function avcCodecString(avcC: Uint8Array): string {
+  return `avc1.${hex(avcC[1])}${hex(avcC[2])}${hex(avcC[3])}`;
+}
+
+/** VideoDecoder config for a WebM video track, or null for codecs WebCodecs can't take. */
+export function videoDecoderConfig(track: WebmTrack): VideoDecoderConfig | null {
+  const base = { codedWidth: track.width, codedHeight: track.height };
+  switch (track.codecId) {
+    case "V_VP8":
+      return { ...base, codec: "vp8" };
+    case "V_VP9":
+      return { ...base, codec: "vp09.00.10.08" };
+    case "V_AV1":
+      return { ...base, codec: "av01.0.08M.08" };
+    case "V_MPEG4/ISO/AVC":
+      // Without an avcC record the frames are Annex B, which decoders accept when no description is given.
+      return track.codecPrivate
+        ? { ...base, codec: avcCodecString(track.codecPrivate), description: track.codecPrivate }
+        : { ...base, codec: "avc1.42e01f" };
+    default:
+      return null;
+  }
+}
+
+/** AudioDecoder config for a WebM audio track, or null for codecs WebCodecs can't take. */
+export function audioDecoderConfig(track: WebmTrack): AudioDecoderConfig | null {
+  const base = { sampleRate: track.sampleRate ?? 48000, numberOfChannels: track.channels ?? 2 };
+  switch (track.codecId) {
+    case "A_OPUS":
+      return { ...base, codec: "opus", description: track.codecPrivate };
+    case "A_VORBIS":
+      return { ...base, codec: "vorbis", description: track.codecPrivate };
+    default:
+      return null;
+  }
+}
+
+export function isWebmType(mimeType: string): boolean {
+  return mimeType.startsWith("video/webm") || mimeType.startsWith("audio/webm");
+}
@@ -0,0 +1,77 @@
+/**
+ * Minimal animated WebP muxer. Browsers can only encode still WebP images
+ * (canvas.convertToBlob), so each frame is encoded on its own and its image
+ * chunks are wrapped in ANMF frames under a VP8X/ANIM header.
+ */
+
+import { concatBytes } from "@/lib/webm/ebml";
+
+export interface WebpFrame {
+  /** A complete still WebP file, as produced by the canvas. */
+  image: Uint8Array;
+  /** Display time in milliseconds. */
+  duration: number;
+}
+
+/** Chunks that carry image data inside a still WebP; everything else (VP8X, ICCP, EXIF) is dropped. */
+const IMAGE_CHUNKS = new Set(["ALPH", "VP8 ", "VP8L"]);
+const ANIMATION_FLAG = 0x02;
+const ALPHA_FLAG = 0x10;
+/** Frame durations are stored in 24 bits. */
+const MAX_FRAME_DURATION = 0xffffff;
+
+function fourcc(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function uint24(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+}
+
+function chunk(id: string, payload: Uint8Array): Uint8Array {
+  const padded = payload.length + (payload.length % 2);
+  const out = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) out[i] = id.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, payload.length, true);
+  out.set(payload, 8);
+  return out;
+}
+
+function imageChunks(image: Uint8Array): Uint8Array[] {
+  if (fourcc(image, 0) !== "RIFF" || fourcc(image, 8) !== "WEBP") {
+    throw new Error("Frame is not a WebP image");
+  }
+  const view = new DataView(image.buffer, image.byteOffset, image.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= image.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (IMAGE_CHUNKS.has(fourcc(image, offset))) chunks.push(image.subarray(offset, Math.min(end, image.length)));
+    offset = end;
+  }
+  if (chunks.length === 0) throw new Error("WebP frame has no image data");
+  return chunks;
+}
+
+export function encodeAnimatedWebp(frames: readonly WebpFrame[], width: number, height: number): Blob {
+  const frameChunks = frames.map(frame => {
+    const image = imageChunks(frame.image);
+    const duration = Math.min(MAX_FRAME_DURATION, Math.max(1, Math.round(frame.duration)));
+    // Offset 0,0, full canvas, no blending so each frame replaces the last outright.
+    const header = Uint8Array.from([...uint24(0), ...uint24(0), ...uint24(width - 1), ...uint24(height - 1), ...uint24(duration), 0x02]);
+    const hasAlpha = image.some(part => fourcc(part, 0) === "ALPH");
+    return { hasAlpha, chunk: chunk("ANMF", concatBytes([header, ...image])) };
+  });
+
+  const flags = ANIMATION_FLAG | (frameChunks.some(frame => frame.hasAlpha) ? ALPHA_FLAG : 0);
+  const vp8x = chunk("VP8X", Uint8Array.from([flags, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]));
+  // Opaque black background, loop forever.
+  const anim = chunk("ANIM", Uint8Array.from([0, 0, 0, 0xff, 0, 0]));
+  const body = concatBytes([new TextEncoder().encode("WEBP"), vp8x, anim, ...frameChunks.map(frame => frame.chunk)]);
+
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode("RIFF"));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return new Blob([header, body], { type: "image/webp" });
+}
@@ -0,0 +1,77 @@
+/** The app's one IndexedDB database, shared by the library and the crash-recovery journal. */
+const DB_NAME = "screencatcher";
+const DB_VERSION = 2;
+
+/** Library entries, keyed by id. */
+export const ENTRIES = "entries";
+/** Library media blobs, keyed by entry id. */
+export const MEDIA = "media";
+/** Recording sessions still in progress, or cut short by a crash, keyed by id. */
+export const SESSIONS = "sessions";
+/** Chunks of those sessions, keyed by [sessionId, index]. */
+export const CHUNKS = "chunks";
+
+export class LibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LibraryError";
+  }
+}
+
+export function isLibrarySupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isLibrarySupported()) return Promise.reject(new LibraryError("This browser can't store recordings locally."));
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES)) db.createObjectStore(ENTRIES, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+      if (!db.objectStoreNames.contains(MEDIA)) db.createObjectStore(MEDIA);
+      if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(CHUNKS)) db.createObjectStore(CHUNKS);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade instead of blocking it.
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new LibraryError("The library is open in an older tab. Close it and try again."));
+  }).catch(error => {
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new LibraryError("The library write was aborted."));
+  });
+}
+
+/** Quota errors get a message the UI can show as is; anything else passes through. */
+export function describeWriteError(error: unknown): unknown {
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return new LibraryError("Not enough storage space left. Delete some recordings from the library.");
+  }
+  return error;
+}
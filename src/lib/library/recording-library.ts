@@ -0,0 +1,130 @@
+import { Emitter } from "@/lib/recorder/emitter";
+import { describeWriteError, ENTRIES, LibraryError, MEDIA, openDatabase, requestResult, transactionDone } from "./database";
+import type { CaptureSource } from "@/lib/recorder/recorder-engine";
+
+export { isLibrarySupported, LibraryError } from "./database";
+
+export type LibraryEntryKind = "recording" | "clip";
+
+/** What the library knows about a stored recording. The media itself is kept separately so listing stays cheap. */
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  kind: LibraryEntryKind;
+  /** Seconds; null when the browser couldn't tell. */
+  duration: number | null;
+  size: number;
+  mimeType: string;
+  /** Codec list from the MIME type, e.g. "vp9, opus", or the container when it names none. */
+  codec: string;
+  source: CaptureSource | null;
+  /** Milliseconds since the epoch. */
+  createdAt: number;
+  /** Set once the recording has been described; entries saved before that have none. */
+  summary?: string;
+  tags?: string[];
+}
+
+export interface NewLibraryEntry {
+  name: string;
+  kind: LibraryEntryKind;
+  source: CaptureSource | null;
+  /** Probed from the blob when omitted. */
+  duration?: number | null;
+}
+
+const events = new Emitter<{ change: void }>();
+
+/** Called after any write, so every open view of the library can refresh. */
+export function onLibraryChange(listener: () => void): () => void {
+  return events.on("change", listener);
+}
+
+/** "vp9, opus" from "video/webm;codecs=vp9,opus"; the container subtype when no codecs are listed. */
+export function codecLabel(mimeType: string): string {
+  const codecs = /codecs="?([^";]+)"?/i.exec(mimeType)?.[1];
+  if (codecs) return codecs.split(",").map(codec => codec.trim()).join(", ");
+  return mimeType.split(";")[0].split("/")[1] ?? mimeType;
+}
+
+/** Reads a recording's length through a media element. Resolves null for formats that don't report one. */
+export function probeDuration(blob: Blob): Promise<number | null> {
+  if (typeof document === "undefined") return Promise.resolve(null);
+  return new Promise(resolve => {
+    const media = document.createElement(blob.type.startsWith("audio/") ? "audio" : "video");
+    const url = URL.createObjectURL(blob);
+    const finish = (duration: number | null) => {
+      media.removeAttribute("src");
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    media.preload = "metadata";
+    media.onloadedmetadata = () => finish(Number.isFinite(media.duration) ? media.duration : null);
+    media.onerror = () => finish(null);
+    media.src = url;
+  });
+}
+
+/** Newest first. */
+export async function listEntries(): Promise<LibraryEntry[]> {
+  const db = await openDatabase();
+  const entries = await requestResult(db.transaction(ENTRIES).objectStore(ENTRIES).index("createdAt").getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.reverse();
+}
+
+export async function addEntry(blob: Blob, details: NewLibraryEntry): Promise<LibraryEntry> {
+  const entry: LibraryEntry = {
+    id: crypto.randomUUID(),
+    name: details.name,
+    kind: details.kind,
+    duration: details.duration !== undefined ? details.duration : await probeDuration(blob),
+    size: blob.size,
+    mimeType: blob.type,
+    codec: codecLabel(blob.type),
+    source: details.source,
+    createdAt: Date.now(),
+  };
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES, MEDIA], "readwrite");
+  transaction.objectStore(ENTRIES).add(entry);
+  transaction.objectStore(MEDIA).add(blob, entry.id);
+  try {
+    await transactionDone(transaction);
+  } catch (error) {
+    throw describeWriteError(error);
+  }
+  events.emit("change", undefined);
+  return entry;
+}
+
+export async function getMedia(id: string): Promise<Blob> {
+  const db = await openDatabase();
+  const blob = await requestResult(db.transaction(MEDIA).objectStore(MEDIA).get(id) as IDBRequest<Blob | undefined>);
+  if (!blob) throw new LibraryError("This recording is no longer in the library.");
+  return blob;
+}
+
+export async function renameEntry(id: string, name: string): Promise<void> {
+  await updateEntry(id, { name });
+}
+
+/** Changes what the library shows for an entry; the media is left alone. */
+export async function updateEntry(id: string, patch: Partial<Pick<LibraryEntry, "name" | "summary" | "tags">>): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(ENTRIES, "readwrite");
+  const store = transaction.objectStore(ENTRIES);
+  const entry = await requestResult(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  if (!entry) throw new LibraryError("This recording is no longer in the library.");
+  store.put({ ...entry, ...patch });
+  await transactionDone(transaction);
+  events.emit("change", undefined);
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES, MEDIA], "readwrite");
+  transaction.objectStore(ENTRIES).delete(id);
+  transaction.objectStore(MEDIA).delete(id);
+  await transactionDone(transaction);
+  events.emit("change", undefined);
+}
@@ -0,0 +1,165 @@
+import type { CaptureSource } from "@/lib/recorder/recorder-engine";
+import { finalizeWebm } from "@/lib/webm/finalize";
+import { CHUNKS, describeWriteError, openDatabase, requestResult, SESSIONS, transactionDone } from "./database";
+
+/** A recording whose chunks are being written to, or were left behind in, IndexedDB. */
+export interface JournalSession {
+  id: string;
+  mimeType: string;
+  source: CaptureSource | null;
+  chunkCount: number;
+  /** Bytes written so far. */
+  size: number;
+  /** Milliseconds since the epoch. */
+  startedAt: number;
+  updatedAt: number;
+}
+
+// Held for as long as a session records, so other tabs can tell a live session from an abandoned one.
+const lockName = (id: string) => `screencatcher-session-${id}`;
+
+const chunkRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+// The journal is a second copy of the recording; below this much free space it gives way to the recording itself.
+const MIN_FREE_BYTES = 500_000_000;
+const STORAGE_CHECK_INTERVAL_MS = 10_000;
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "QuotaExceededError";
+}
+
+/** Throws a QuotaExceededError when the origin is close to its storage quota. Passes where usage isn't reported. */
+async function ensureFreeSpace() {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return;
+  const { quota, usage } = await navigator.storage.estimate();
+  if (quota !== undefined && usage !== undefined && quota - usage < MIN_FREE_BYTES) {
+    throw new DOMException("Too little storage left to journal the recording.", "QuotaExceededError");
+  }
+}
+
+/**
+ * Writes a recording's chunks to IndexedDB as they arrive, so a crash or
+ * reload leaves something to recover. Writes run one at a time in arrival
+ * order; after the first failure the journal stops and reports it once.
+ * Free space is checked before the first write and every few seconds after;
+ * running low counts as a failure, and the partial journal is then deleted
+ * to hand its space back to the recording.
+ */
+export class SessionJournal {
+  private session: JournalSession | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private releaseLock: (() => void) | null = null;
+  private failed = false;
+  private lastStorageCheck = 0;
+
+  constructor(private readonly onError: (error: unknown) => void) {}
+
+  begin(details: { mimeType: string; source: CaptureSource | null }) {
+    const now = Date.now();
+    const session: JournalSession = { id: crypto.randomUUID(), ...details, chunkCount: 0, size: 0, startedAt: now, updatedAt: now };
+    this.session = session;
+    this.failed = false;
+    this.lastStorageCheck = 0;
+    if (typeof navigator !== "undefined" && navigator.locks) {
+      navigator.locks
+        .request(lockName(session.id), () => new Promise<void>(resolve => (this.releaseLock = resolve)))
+        .catch(e => console.warn("Could not hold the session lock:", e));
+    }
+    this.enqueue(async db => {
+      const transaction = db.transaction(SESSIONS, "readwrite");
+      transaction.objectStore(SESSIONS).put(session);
+      await transactionDone(transaction);
+    });
+  }
+
+  append(chunk: Blob, index: number) {
+    const session = this.session;
+    if (!session) return;
+    session.chunkCount = Math.max(session.chunkCount, index + 1);
+    session.size += chunk.size;
+    session.updatedAt = Date.now();
+    const snapshot = { ...session };
+    this.enqueue(async db => {
+      const transaction = db.transaction([SESSIONS, CHUNKS], "readwrite");
+      transaction.objectStore(CHUNKS).put(chunk, [session.id, index]);
+      transaction.objectStore(SESSIONS).put(snapshot);
+      await transactionDone(transaction);
+    });
+  }
+
+  /** The recording ended normally; its journal isn't needed anymore. */
+  finish() {
+    const session = this.session;
+    if (!session) return;
+    this.end();
+    this.queue = this.queue.then(() => discardSession(session.id)).catch(e => console.warn("Could not clear the recording journal:", e));
+  }
+
+  /** The recording ended abnormally; the journal stays behind for recovery on the next load. */
+  abandon() {
+    this.end();
+  }
+
+  private end() {
+    this.session = null;
+    this.releaseLock?.();
+    this.releaseLock = null;
+  }
+
+  private enqueue(write: (db: IDBDatabase) => Promise<void>) {
+    if (this.failed) return;
+    const id = this.session?.id;
+    this.queue = this.queue
+      .then(async () => {
+        if (this.failed) return;
+        if (Date.now() - this.lastStorageCheck >= STORAGE_CHECK_INTERVAL_MS) {
+          this.lastStorageCheck = Date.now();
+          await ensureFreeSpace();
+        }
+        await write(await openDatabase());
+      })
+      .catch(error => {
+        if (this.failed) return;
+        this.failed = true;
+        this.onError(describeWriteError(error));
+        if (id && isQuotaError(error)) {
+          return discardSession(id).catch(e => console.warn("Could not clear the recording journal:", e));
+        }
+      });
+  }
+}
+
+/** Sessions left behind by a crash or reload. Sessions still recording in another tab are skipped. */
+export async function listUnfinishedSessions(): Promise<JournalSession[]> {
+  const db = await openDatabase();
+  const sessions = await requestResult(db.transaction(SESSIONS).objectStore(SESSIONS).getAll() as IDBRequest<JournalSession[]>);
+  const held = typeof navigator !== "undefined" && navigator.locks
+    ? new Set((await navigator.locks.query()).held?.map(lock => lock.name))
+    : new Set<string | undefined>();
+  return sessions.filter(session => session.chunkCount > 0 && !held.has(lockName(session.id))).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Rebuilds a playable file from a session's chunks. WebM gets its duration
+ * and seek index back; if that fails the raw chunks still play from the start.
+ */
+export async function recoverSession(session: JournalSession): Promise<Blob> {
+  const db = await openDatabase();
+  const chunks = await requestResult(db.transaction(CHUNKS).objectStore(CHUNKS).getAll(chunkRange(session.id)) as IDBRequest<Blob[]>);
+  const raw = new Blob(chunks, { type: session.mimeType });
+  if (!raw.type.startsWith("video/webm") && !raw.type.startsWith("audio/webm")) return raw;
+  try {
+    return await finalizeWebm(raw);
+  } catch (e) {
+    console.warn("Could not finalize the recovered recording, using the raw chunks:", e);
+    return raw;
+  }
+}
+
+export async function discardSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS, CHUNKS], "readwrite");
+  transaction.objectStore(SESSIONS).delete(id);
+  transaction.objectStore(CHUNKS).delete(chunkRange(id));
+  await transactionDone(transaction);
+}
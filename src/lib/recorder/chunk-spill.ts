@@ -0,0 +1,106 @@
+/** Chunks held in memory before older ones move to disk, by default. */
+export const DEFAULT_MEMORY_BUDGET_BYTES = 512_000_000;
+
+// Every tab's spill directories live under this one, so stale ones can be found and cleared.
+const SPILL_ROOT = "screencatcher-spill";
+
+// Held while a spill directory is in use, so another tab's cleanup leaves it alone.
+const lockName = (id: string) => `screencatcher-spill-${id}`;
+
+export function isSpillSupported(): boolean {
+  return typeof navigator !== "undefined" && typeof navigator.storage?.getDirectory === "function";
+}
+
+let staleCleared: Promise<void> | null = null;
+
+/**
+ * Moves recorded chunks out of memory into the origin private file system.
+ * Each batch goes into its own file that is never touched again, so the
+ * disk-backed blobs handed back stay readable until `dispose`.
+ */
+export class ChunkSpill {
+  private nextFile = 0;
+  private disposed = false;
+
+  private constructor(
+    private readonly id: string,
+    private readonly directory: FileSystemDirectoryHandle,
+    private readonly releaseLock: () => void,
+  ) {}
+
+  /** Resolves null where the origin private file system is unavailable. */
+  static async open(): Promise<ChunkSpill | null> {
+    if (!isSpillSupported()) return null;
+    staleCleared ??= clearStaleSpills().catch(e => console.warn("Could not clear old spilled recordings:", e));
+    await staleCleared;
+
+    const id = crypto.randomUUID();
+    let releaseLock = () => {};
+    if (navigator.locks) {
+      await new Promise<void>(acquired => {
+        navigator.locks
+          .request(lockName(id), () => {
+            acquired();
+            return new Promise<void>(resolve => (releaseLock = resolve));
+          })
+          .catch(e => {
+            console.warn("Could not hold the spill lock:", e);
+            acquired();
+          });
+      });
+    }
+    const root = await navigator.storage.getDirectory();
+    const spillRoot = await root.getDirectoryHandle(SPILL_ROOT, { create: true });
+    const directory = await spillRoot.getDirectoryHandle(id, { create: true });
+    return new ChunkSpill(id, directory, releaseLock);
+  }
+
+  /**
+   * Writes `chunks` to a new file and returns one disk-backed blob per chunk,
+   * in the same order, to stand in for the originals.
+   */
+  async write(chunks: Blob[]): Promise<Blob[]> {
+    if (this.disposed) throw new Error("The spill directory was already disposed.");
+    const handle = await this.directory.getFileHandle(`${this.nextFile++}.part`, { create: true });
+    const writable = await handle.createWritable();
+    try {
+      for (const chunk of chunks) await writable.write(chunk);
+      await writable.close();
+    } catch (error) {
+      await writable.abort().catch(() => undefined);
+      throw error;
+    }
+    const file = await handle.getFile();
+    let offset = 0;
+    return chunks.map(chunk => file.slice(offset, (offset += chunk.size), chunk.type));
+  }
+
+  /** Deletes everything written. Blobs returned by `write` can't be read afterwards. */
+  async dispose(): Promise<void> {
+    if (this.disposed) return;
+    this.disposed = true;
+    try {
+      const root = await navigator.storage.getDirectory();
+      const spillRoot = await root.getDirectoryHandle(SPILL_ROOT);
+      await spillRoot.removeEntry(this.id, { recursive: true });
+    } catch (e) {
+      console.warn("Could not delete spilled recording chunks:", e);
+    } finally {
+      this.releaseLock();
+    }
+  }
+}
+
+/** Deletes spill directories left behind by a crash or reload. Directories still in use by another tab are skipped. */
+async function clearStaleSpills(): Promise<void> {
+  const root = await navigator.storage.getDirectory();
+  const spillRoot = await root.getDirectoryHandle(SPILL_ROOT, { create: true });
+  const held = navigator.locks
+    ? new Set((await navigator.locks.query()).held?.map(lock => lock.name))
+    : new Set<string | undefined>();
+  const stale: string[] = [];
+  for await (const name of spillRoot.keys()) {
+    if (!held.has(lockName(name))) stale.push(name);
+  }
+  await Promise.all(stale.map(name => spillRoot.removeEntry(name, { recursive: true })));
+}
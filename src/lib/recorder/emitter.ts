@@ -0,0 +1,34 @@
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. Keeps the recorder modules free of DOM
+ * EventTarget so they can be driven from plain scripts and tests.
+ */
+export class Emitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    set.add(listener);
+    this.listeners[event] = set;
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (e) {
+        console.error(`Listener for "${String(event)}" threw:`, e);
+      }
+    });
+  }
+
+  removeAllListeners() {
+    this.listeners = {};
+  }
+}
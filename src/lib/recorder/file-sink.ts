@@ -0,0 +1,63 @@
+/**
+ * Where a recording's chunks go instead of memory. Writes are queued in
+ * arrival order; `close` resolves to the finished file.
+ */
+export interface RecordingSink {
+  /** Shown to the user, e.g. the file name. */
+  readonly name: string;
+  write(chunk: Blob): Promise<void>;
+  close(): Promise<Blob>;
+  /** Drops whatever was written. Safe to call more than once. */
+  abort(): Promise<void>;
+}
+
+export function isFileSinkSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.showSaveFilePicker === "function";
+}
+
+/**
+ * Asks where to save a recording. Resolves null if the user dismissed the
+ * picker. Must be called from a user gesture.
+ */
+export async function pickRecordingFile(suggestedName: string, audioOnly: boolean): Promise<FileSystemFileHandle | null> {
+  try {
+    return await window.showSaveFilePicker!({
+      suggestedName,
+      id: "screencatcher-recordings",
+      types: [audioOnly
+        ? { description: "WebM audio", accept: { "audio/webm": [".webm"] } }
+        : { description: "WebM video", accept: { "video/webm": [".webm"] } }],
+    });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "AbortError") return null;
+    throw e;
+  }
+}
+
+/** Streams chunks into a file picked with pickRecordingFile. Nothing but the write queue is held in memory. */
+export async function createFileSink(handle: FileSystemFileHandle): Promise<RecordingSink> {
+  const writable = await handle.createWritable();
+  let queue: Promise<void> = Promise.resolve();
+  let done = false;
+
+  return {
+    name: handle.name,
+    write(chunk) {
+      queue = queue.then(() => writable.write(chunk));
+      return queue;
+    },
+    async close() {
+      done = true;
+      await queue;
+      await writable.close();
+      // Backed by the file on disk, so reading it back doesn't load it into memory.
+      return handle.getFile();
+    },
+    async abort() {
+      if (done) return;
+      done = true;
+      await queue.catch(() => undefined);
+      await writable.abort().catch(e => console.warn("Could not abort the file write:", e));
+    },
+  };
+}
@@ -0,0 +1,117 @@
+export type VideoCodec = "vp8" | "vp9" | "av1" | "h264";
+
+export interface VideoCodecOption {
+  codec: VideoCodec;
+  label: string;
+  /** Container/codec strings to try with MediaRecorder.isTypeSupported, in order of preference. */
+  mimeTypes: readonly string[];
+}
+
+export const VIDEO_CODECS: readonly VideoCodecOption[] = [
+  { codec: "vp9", label: "VP9", mimeTypes: ["video/webm; codecs=vp9"] },
+  { codec: "vp8", label: "VP8", mimeTypes: ["video/webm; codecs=vp8"] },
+  { codec: "av1", label: "AV1", mimeTypes: ["video/webm; codecs=av01", "video/webm; codecs=av1"] },
+  { codec: "h264", label: "H.264", mimeTypes: ["video/webm; codecs=h264", "video/mp4; codecs=avc1", "video/mp4"] },
+];
+
+/** Hint passed to the encoder through MediaStreamTrack.contentHint. */
+export type VideoContentHint = "" | "motion" | "detail" | "text";
+
+export interface QualitySettings {
+  /** "auto" keeps the browser's preferred WebM codec. */
+  codec: VideoCodec | "auto";
+  /** Target bitrates; undefined leaves the choice to the browser. */
+  videoBitsPerSecond?: number;
+  audioBitsPerSecond?: number;
+  /** Upper bound on capture frame rate; 0 for no limit. */
+  maxFrameRate: number;
+  /** Upper bound on capture height in pixels; 0 for native resolution. */
+  maxHeight: number;
+  contentHint: VideoContentHint;
+}
+
+export type QualityPresetId = "small" | "balanced" | "crisp";
+
+export interface QualityPreset {
+  id: QualityPresetId;
+  label: string;
+  description: string;
+  settings: QualitySettings;
+}
+
+export const QUALITY_PRESETS: readonly QualityPreset[] = [
+  {
+    id: "small",
+    label: "Small file",
+    description: "720p at 15 fps, low bitrate. Good for sharing in chat.",
+    settings: { codec: "auto", videoBitsPerSecond: 1_000_000, audioBitsPerSecond: 64_000, maxFrameRate: 15, maxHeight: 720, contentHint: "" },
+  },
+  {
+    id: "balanced",
+    label: "Balanced",
+    description: "1080p at 30 fps. A sensible default for most recordings.",
+    settings: { codec: "auto", videoBitsPerSecond: 4_000_000, audioBitsPerSecond: 128_000, maxFrameRate: 30, maxHeight: 1080, contentHint: "" },
+  },
+  {
+    id: "crisp",
+    label: "Crisp text",
+    description: "Native resolution and a high bitrate, tuned for code and documents.",
+    settings: { codec: "auto", videoBitsPerSecond: 8_000_000, audioBitsPerSecond: 128_000, maxFrameRate: 15, maxHeight: 0, contentHint: "text" },
+  },
+];
+
+export const DEFAULT_QUALITY_PRESET: QualityPresetId = "balanced";
+
+/** Browser defaults: VP9 when available, no bitrate, frame rate or resolution limits. */
+export const BROWSER_DEFAULT_QUALITY: QualitySettings = {
+  codec: "auto",
+  maxFrameRate: 0,
+  maxHeight: 0,
+  contentHint: "",
+};
+
+export const VIDEO_BITRATE_OPTIONS = [500_000, 1_000_000, 2_500_000, 4_000_000, 8_000_000, 16_000_000];
+export const AUDIO_BITRATE_OPTIONS = [32_000, 64_000, 96_000, 128_000, 192_000];
+export const FRAME_RATE_OPTIONS = [5, 10, 15, 24, 30, 60];
+export const MAX_HEIGHT_OPTIONS = [480, 720, 1080, 1440, 2160];
+
+const AUTO_MIME_TYPES = ["video/webm; codecs=vp9", "video/webm"];
+const AUDIO_MIME_TYPES = ["audio/webm; codecs=opus", "audio/webm", "audio/mp4"];
+
+/** Lists the codecs this browser's MediaRecorder accepts, with the MIME type to request for each. */
+export function supportedCodecs(isTypeSupported: (mimeType: string) => boolean): { option: VideoCodecOption; mimeType: string }[] {
+  return VIDEO_CODECS.flatMap(option => {
+    const mimeType = option.mimeTypes.find(isTypeSupported);
+    return mimeType ? [{ option, mimeType }] : [];
+  });
+}
+
+/** Picks the MIME type for the requested codec, falling back to the automatic choice when unsupported. */
+export function resolveMimeType(codec: QualitySettings["codec"], isTypeSupported: (mimeType: string) => boolean): string | undefined {
+  const preferred = VIDEO_CODECS.find(option => option.codec === codec)?.mimeTypes ?? [];
+  return [...preferred, ...AUTO_MIME_TYPES].find(isTypeSupported);
+}
+
+/** Picks the MIME type for audio-only recordings, preferring Opus in WebM. */
+export function resolveAudioMimeType(isTypeSupported: (mimeType: string) => boolean): string | undefined {
+  return AUDIO_MIME_TYPES.find(isTypeSupported);
+}
+
+/** Video constraints for getDisplayMedia. Limits are upper bounds; the source may be smaller. */
+export function displayVideoConstraints(settings: QualitySettings): MediaTrackConstraints | true {
+  const constraints: MediaTrackConstraints = {};
+  if (settings.maxFrameRate > 0) constraints.frameRate = { ideal: settings.maxFrameRate, max: settings.maxFrameRate };
+  if (settings.maxHeight > 0) constraints.height = { max: settings.maxHeight };
+  return Object.keys(constraints).length > 0 ? constraints : true;
+}
+
+export function recorderBitrates(settings: QualitySettings): Pick<MediaRecorderOptions, "videoBitsPerSecond" | "audioBitsPerSecond"> {
+  const options: Pick<MediaRecorderOptions, "videoBitsPerSecond" | "audioBitsPerSecond"> = {};
+  if (settings.videoBitsPerSecond) options.videoBitsPerSecond = settings.videoBitsPerSecond;
+  if (settings.audioBitsPerSecond) options.audioBitsPerSecond = settings.audioBitsPerSecond;
+  return options;
+}
+
+export function formatBitrate(bitsPerSecond: number): string {
+  return bitsPerSecond >= 1_000_000 ? `${bitsPerSecond / 1_000_000} Mbps` : `${bitsPerSecond / 1000} kbps`;
+}
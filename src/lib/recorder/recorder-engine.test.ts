@@ -0,0 +1,421 @@
+import { describe, expect, it } from "vitest";
+import {
+  InvalidTransitionError,
+  RecorderEngine,
+  canTransition,
+  type RecorderEnvironment,
+  type RecorderNotice,
+  type RecordingStatus,
+} from "./recorder-engine";
+
+const STATUSES: RecordingStatus[] = ["idle", "permission_pending", "recording", "stopped_pending_full_download", "error"];
+
+class FakeTrack {
+  onended: (() => void) | null = null;
+  stopped = false;
+
+  constructor(readonly kind: "audio" | "video") {}
+
+  stop() {
+    this.stopped = true;
+  }
+
+  clone() {
+    return new FakeTrack(this.kind);
+  }
+
+  getSettings() {
+    return {};
+  }
+}
+
+class FakeStream {
+  constructor(readonly tracks: FakeTrack[]) {}
+
+  getTracks() {
+    return this.tracks;
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter(track => track.kind === "audio");
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter(track => track.kind === "video");
+  }
+
+  addTrack(track: FakeTrack) {
+    this.tracks.push(track);
+  }
+
+  removeTrack(track: FakeTrack) {
+    this.tracks.splice(this.tracks.indexOf(track), 1);
+  }
+}
+
+/** Stands in for MediaRecorder. Like the real one, it reports stopping asynchronously. */
+class FakeRecorder {
+  state: RecordingState = "inactive";
+  timeslice: number | undefined;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor(
+    readonly stream: FakeStream,
+    readonly options: MediaRecorderOptions = {},
+  ) {}
+
+  get mimeType() {
+    return this.options.mimeType ?? "";
+  }
+
+  start(timeslice?: number) {
+    this.state = "recording";
+    this.timeslice = timeslice;
+  }
+
+  stop() {
+    if (this.state === "inactive") throw new DOMException("Not recording", "InvalidStateError");
+    this.state = "inactive";
+    queueMicrotask(() => this.onstop?.());
+  }
+
+  pause() {
+    this.state = "paused";
+  }
+
+  resume() {
+    this.state = "recording";
+  }
+
+  /** Hands the engine a chunk, as a timeslice elapsing would. */
+  emit(bytes: number) {
+    this.ondataavailable?.({ data: new Blob([new Uint8Array(bytes)], { type: this.mimeType }) });
+  }
+
+  fail(name: string) {
+    this.onerror?.({ error: { name } });
+  }
+}
+
+const screen = () => new FakeStream([new FakeTrack("video")]);
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/** Lets queued recorder events and the engine's async follow-ups run. */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/** A browser with a screen to share and a working MediaRecorder for WebM. */
+function fakeEnvironment(overrides: Partial<RecorderEnvironment> = {}) {
+  const recorders: FakeRecorder[] = [];
+  const displays: FakeStream[] = [];
+  const env: RecorderEnvironment = {
+    isCaptureSupported: () => true,
+    getDisplayMedia: async () => {
+      const stream = screen();
+      displays.push(stream);
+      return stream as unknown as MediaStream;
+    },
+    getUserMedia: async () => new FakeStream([new FakeTrack("audio")]) as unknown as MediaStream,
+    isTypeSupported: mimeType => mimeType === "video/webm",
+    createMediaRecorder: (stream, options) => {
+      const recorder = new FakeRecorder(stream as unknown as FakeStream, options);
+      recorders.push(recorder);
+      return recorder as unknown as MediaRecorder;
+    },
+    createMediaStream: tracks => new FakeStream([...tracks] as unknown as FakeTrack[]) as unknown as MediaStream,
+    createAudioContext: () => null,
+    createSourceCropper: async () => null,
+    createCompositor: () => null,
+    openChunkSpill: async () => null,
+    estimateStorage: async () => null,
+    ...overrides,
+  };
+  return { env, recorders, displays };
+}
+
+function record(engine: RecorderEngine) {
+  const statuses: RecordingStatus[] = [];
+  const notices: RecorderNotice[] = [];
+  engine.on("statechange", ({ status }) => statuses.push(status));
+  engine.on("notice", notice => notices.push(notice));
+  return { statuses, notices };
+}
+
+const OPTIONS = { includeSystemAudio: false, includeMicAudio: false };
+
+describe("canTransition", () => {
+  const into = (to: RecordingStatus) => STATUSES.filter(from => canTransition(from, to));
+
+  it("only starts a session from idle or after an error", () => {
+    expect(into("permission_pending")).toEqual(["idle", "error"]);
+  });
+
+  it("only records once permission was asked for", () => {
+    expect(into("recording")).toEqual(["permission_pending"]);
+    expect(into("stopped_pending_full_download")).toEqual(["recording"]);
+  });
+
+  it("leaves a finished recording only by resetting", () => {
+    expect(STATUSES.filter(to => canTransition("stopped_pending_full_download", to))).toEqual(["idle"]);
+  });
+
+  it("can always reset to idle", () => {
+    expect(into("idle")).toEqual(STATUSES.filter(status => status !== "idle"));
+  });
+});
+
+describe("InvalidTransitionError", () => {
+  it("carries both ends of the rejected transition", () => {
+    const error = new InvalidTransitionError("recording", "permission_pending");
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("InvalidTransitionError");
+    expect(error.from).toBe("recording");
+    expect(error.to).toBe("permission_pending");
+    expect(error.message).toBe("Invalid recorder transition: recording -> permission_pending");
+  });
+});
+
+describe("RecorderEngine", () => {
+  it("records, finishes and resets", async () => {
+    const { env, recorders, displays } = fakeEnvironment();
+    const engine = new RecorderEngine(env);
+    const { statuses, notices } = record(engine);
+
+    await expect(engine.start(OPTIONS)).resolves.toBe(true);
+    expect(engine.status).toBe("recording");
+    expect(engine.mimeType).toBe("video/webm");
+    const recorder = recorders[0];
+    expect(recorder.state).toBe("recording");
+    expect(recorder.timeslice).toBe(1000);
+
+    recorder.emit(10);
+    recorder.emit(20);
+    expect(engine.getSnapshot().chunkCount).toBe(2);
+
+    engine.stop();
+    await settle();
+    expect(engine.status).toBe("stopped_pending_full_download");
+    expect(engine.getSnapshot().recording?.size).toBe(30);
+    expect(displays[0].tracks.every(track => track.stopped)).toBe(true);
+
+    engine.reset();
+    expect(engine.getSnapshot()).toMatchObject({ status: "idle", recording: null, chunkCount: 0 });
+    expect(statuses).toEqual(["permission_pending", "recording", "stopped_pending_full_download", "idle"]);
+    expect(notices.map(notice => notice.kind)).toEqual(["recording_started", "recording_finished"]);
+  });
+
+  it("fails a recording that captured nothing", async () => {
+    const { env } = fakeEnvironment();
+    const engine = new RecorderEngine(env);
+    const { notices } = record(engine);
+    await engine.start(OPTIONS);
+
+    engine.stop();
+    await settle();
+    expect(engine.status).toBe("error");
+    expect(notices.at(-1)).toEqual({ kind: "recording_empty" });
+  });
+
+  it("ends the session when the recorder fails, and can start again", async () => {
+    const { env, recorders, displays } = fakeEnvironment();
+    const engine = new RecorderEngine(env);
+    const { statuses, notices } = record(engine);
+    await engine.start(OPTIONS);
+
+    recorders[0].fail("UnknownError");
+    expect(engine.getSnapshot()).toMatchObject({ status: "error", errorMessage: "MediaRecorder error: UnknownError" });
+    expect(notices.at(-1)).toEqual({ kind: "recorder_error" });
+    expect(displays[0].tracks.every(track => track.stopped)).toBe(true);
+
+    await expect(engine.start(OPTIONS)).resolves.toBe(true);
+    expect(engine.getSnapshot()).toMatchObject({ status: "recording", errorMessage: null });
+    expect(statuses).toEqual(["permission_pending", "recording", "error", "permission_pending", "recording"]);
+  });
+
+  it("reports a denied screen picker, then starts once it is allowed", async () => {
+    const denied = Object.assign(new Error("Permission denied"), { name: "NotAllowedError" });
+    let allow = false;
+    const { env } = fakeEnvironment();
+    const share = env.getDisplayMedia;
+    const engine = new RecorderEngine({ ...env, getDisplayMedia: options => (allow ? share(options) : Promise.reject(denied)) });
+    const { notices } = record(engine);
+
+    await expect(engine.start(OPTIONS)).resolves.toBe(false);
+    expect(engine.status).toBe("error");
+    expect(notices).toEqual([{ kind: "permission_denied" }]);
+
+    allow = true;
+    await expect(engine.start(OPTIONS)).resolves.toBe(true);
+    expect(engine.status).toBe("recording");
+  });
+
+  it("reports browsers without screen capture", async () => {
+    const { env } = fakeEnvironment({ isCaptureSupported: () => false });
+    const engine = new RecorderEngine(env);
+    const { notices } = record(engine);
+
+    await expect(engine.start(OPTIONS)).resolves.toBe(false);
+    expect(engine.status).toBe("error");
+    expect(notices).toEqual([{ kind: "unsupported" }]);
+  });
+
+  it("records the microphone next to the screen when Web Audio is unavailable", async () => {
+    const { env, recorders } = fakeEnvironment();
+    const engine = new RecorderEngine(env);
+
+    await expect(engine.start({ ...OPTIONS, includeMicAudio: true })).resolves.toBe(true);
+    expect(recorders[0].stream.tracks.map(track => track.kind)).toEqual(["video", "audio"]);
+  });
+
+  it("records without the microphone when it is denied", async () => {
+    const denied = Object.assign(new Error("Permission denied"), { name: "NotAllowedError" });
+    const { env } = fakeEnvironment({ getUserMedia: () => Promise.reject(denied) });
+    const engine = new RecorderEngine(env);
+    const { notices } = record(engine);
+
+    await expect(engine.start({ ...OPTIONS, includeMicAudio: true })).resolves.toBe(true);
+    expect(notices.map(notice => notice.kind)).toEqual(["mic_denied", "recording_started"]);
+  });
+
+  it("ignores a second start while the first is pending", async () => {
+    const picker = deferred<MediaStream>();
+    const { env } = fakeEnvironment({ getDisplayMedia: () => picker.promise });
+    const engine = new RecorderEngine(env);
+    const { statuses } = record(engine);
+    const first = engine.start(OPTIONS);
+
+    await expect(engine.start(OPTIONS)).resolves.toBe(false);
+    expect(statuses).toEqual(["permission_pending"]);
+
+    picker.resolve(screen() as unknown as MediaStream);
+    await expect(first).resolves.toBe(true);
+    expect(statuses).toEqual(["permission_pending", "recording"]);
+  });
+
+  it("ignores start while recording or holding a finished recording", async () => {
+    const { env, recorders } = fakeEnvironment();
+    const engine = new RecorderEngine(env);
+    await engine.start(OPTIONS);
+
+    await expect(engine.start(OPTIONS)).resolves.toBe(false);
+    expect(engine.status).toBe("recording");
+
+    recorders[0].emit(10);
+    engine.stop();
+    await settle();
+    await expect(engine.start(OPTIONS)).resolves.toBe(false);
+    expect(engine.status).toBe("stopped_pending_full_download");
+    expect(recorders).toHaveLength(1);
+  });
+
+  it("pauses and resumes the recorder", async () => {
+    const { env, recorders } = fakeEnvironment();
+    const engine = new RecorderEngine(env);
+    await engine.start(OPTIONS);
+    const recorder = recorders[0];
+
+    engine.pause();
+    expect(recorder.state).toBe("paused");
+    expect(engine.getSnapshot()).toMatchObject({ status: "recording", paused: true });
+
+    engine.togglePause();
+    expect(recorder.state).toBe("recording");
+    expect(engine.getSnapshot().paused).toBe(false);
+
+    recorder.emit(10);
+    engine.pause();
+    engine.stop();
+    await settle();
+    expect(engine.getSnapshot()).toMatchObject({ status: "stopped_pending_full_download", paused: false });
+  });
+
+  it("ignores pause and resume when nothing is recording", () => {
+    const { env } = fakeEnvironment();
+    const engine = new RecorderEngine(env);
+    engine.pause();
+    engine.resume();
+    expect(engine.getSnapshot()).toMatchObject({ status: "idle", paused: false });
+  });
+
+  it("drops the picked screen when reset while the picker is open", async () => {
+    const picker = deferred<MediaStream>();
+    const { env, recorders } = fakeEnvironment({ getDisplayMedia: () => picker.promise });
+    const engine = new RecorderEngine(env);
+    const pending = engine.start(OPTIONS);
+
+    engine.reset();
+    expect(engine.status).toBe("idle");
+
+    const shared = screen();
+    picker.resolve(shared as unknown as MediaStream);
+    await expect(pending).resolves.toBe(false);
+    expect(engine.status).toBe("idle");
+    expect(shared.tracks.every(track => track.stopped)).toBe(true);
+    expect(recorders).toHaveLength(0);
+  });
+
+  it("ignores a picker that resolves after a reset and a newer start", async () => {
+    const pickers = [deferred<MediaStream>(), deferred<MediaStream>()];
+    let calls = 0;
+    const { env, recorders } = fakeEnvironment({ getDisplayMedia: () => pickers[calls++].promise });
+    const engine = new RecorderEngine(env);
+    const first = engine.start(OPTIONS);
+    engine.reset();
+    const second = engine.start(OPTIONS);
+
+    const stale = screen();
+    pickers[0].resolve(stale as unknown as MediaStream);
+    await expect(first).resolves.toBe(false);
+    expect(stale.tracks.every(track => track.stopped)).toBe(true);
+    expect(engine.status).toBe("permission_pending");
+
+    const current = screen();
+    pickers[1].resolve(current as unknown as MediaStream);
+    await expect(second).resolves.toBe(true);
+    expect(engine.status).toBe("recording");
+    expect(recorders).toHaveLength(1);
+    expect(recorders[0].stream.tracks).toEqual(current.tracks);
+  });
+
+  it("keeps the newer session's capture when the older picker resolves after it started", async () => {
+    const stalePicker = deferred<MediaStream>();
+    const { env, displays } = fakeEnvironment();
+    const share = env.getDisplayMedia;
+    let calls = 0;
+    const engine = new RecorderEngine({ ...env, getDisplayMedia: options => (calls++ === 0 ? stalePicker.promise : share(options)) });
+    const first = engine.start(OPTIONS);
+    engine.reset();
+    await expect(engine.start(OPTIONS)).resolves.toBe(true);
+
+    const stale = screen();
+    stalePicker.resolve(stale as unknown as MediaStream);
+    await expect(first).resolves.toBe(false);
+    expect(stale.tracks.every(track => track.stopped)).toBe(true);
+    expect(engine.status).toBe("recording");
+    expect(displays[0].tracks.some(track => track.stopped)).toBe(false);
+  });
+
+  it("doesn't report a late picker error after a reset", async () => {
+    const picker = deferred<MediaStream>();
+    const { env } = fakeEnvironment({ getDisplayMedia: () => picker.promise });
+    const engine = new RecorderEngine(env);
+    const { notices } = record(engine);
+    const pending = engine.start(OPTIONS);
+    engine.reset();
+
+    picker.reject(Object.assign(new Error("Permission denied"), { name: "NotAllowedError" }));
+    await expect(pending).resolves.toBe(false);
+    expect(engine.getSnapshot()).toMatchObject({ status: "idle", errorMessage: null });
+    expect(notices).toEqual([]);
+  });
+});
@@ -0,0 +1,1306 @@
+import { Emitter } from "./emitter";
+import { REPLAY_CHUNK_DURATION_MS, ReplayBuffer } from "./replay-buffer";
+import { createStandaloneClip } from "@/lib/webm/clip";
+import { finalizeWebm } from "@/lib/webm/finalize";
+import { AudioMixer, DEFAULT_AUDIO_SOURCE_SETTINGS, type AudioSourceId, type AudioSourceSettings, type ScreenAudioId } from "@/lib/audio/audio-mixer";
+import { BROWSER_DEFAULT_QUALITY, displayVideoConstraints, recorderBitrates, resolveAudioMimeType, resolveMimeType, supportedCodecs, type QualitySettings } from "./quality";
+import { DEFAULT_SILENCE_WARNING_SECONDS, SilenceTracker, type AudioLevel, type LevelMeter } from "@/lib/audio/level-meter";
+import { DEFAULT_CAMERA_OVERLAY_SETTINGS, type CameraOverlaySettings } from "@/lib/video/camera-overlay";
+import { VideoCompositor, type CompositorLayers } from "@/lib/video/compositor";
+import { AnnotationLayer } from "@/lib/video/annotations";
+import type { RecordingMarker } from "@/lib/edit/markers";
+import type { RecordingSink } from "./file-sink";
+import { ChunkSpill, DEFAULT_MEMORY_BUDGET_BYTES } from "./chunk-spill";
+import { DEFAULT_SOURCE_LAYOUT, type SourceLayout } from "@/lib/video/layout";
+import { FULL_REGION, clampRegion, createTabCropper, exposeSelfCaptureHandle, type Region, type SourceCropper } from "@/lib/video/region";
+
+export type RecordingStatus = "idle" | "permission_pending" | "recording" | "stopped_pending_full_download" | "error";
+
+/**
+ * "recording" keeps every chunk until stopped; "replay" keeps only a rolling
+ * window of recent footage in a ReplayBuffer.
+ */
+export type RecordingMode = "recording" | "replay";
+
+export const MAIN_RECORDING_CHUNK_DURATION_MS = 1000; // 1 second chunks for main recording
+export const DEFAULT_MIME_TYPE = "video/webm";
+export const DEFAULT_REPLAY_WINDOW_SECONDS = 180; // Default to 3 minutes for buffer
+/** Free storage below which a recording is about to run out of room. */
+export const LOW_STORAGE_BYTES = 250_000_000;
+// Memory held past the budget, as a multiple of it, before spilling is considered to be falling behind.
+const MEMORY_CEILING_FACTOR = 2;
+// Finalizing reads the whole recording into one buffer and writes a copy of it, on top of the chunks themselves.
+const FINALIZE_PEAK_FACTOR = 3;
+const STORAGE_CHECK_INTERVAL_MS = 10_000;
+// Browsers may otherwise go minutes between keyframes, leaving clips and replays nothing to start on.
+const MAX_KEYFRAME_INTERVAL_MS = REPLAY_CHUNK_DURATION_MS;
+/** Compositor frame rate when the quality settings leave it unlimited. */
+const DEFAULT_COMPOSITE_FRAME_RATE = 30;
+
+/**
+ * Allowed status transitions. Anything not listed here is a programming error
+ * and throws an InvalidTransitionError.
+ */
+const TRANSITIONS: Record<RecordingStatus, readonly RecordingStatus[]> = {
+  idle: ["permission_pending", "error"],
+  permission_pending: ["recording", "error", "idle"],
+  recording: ["stopped_pending_full_download", "error", "idle"],
+  stopped_pending_full_download: ["idle"],
+  error: ["idle", "permission_pending", "error"],
+};
+
+export function canTransition(from: RecordingStatus, to: RecordingStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public readonly from: RecordingStatus, public readonly to: RecordingStatus) {
+    super(`Invalid recorder transition: ${from} -> ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+/**
+ * Thrown when clipping finds footage but no video keyframe to start a
+ * playable file on. Usually clears up once the recorder emits its next one.
+ */
+export class NoKeyframeError extends Error {
+  constructor() {
+    super("The buffered footage has no keyframe to start a clip on yet.");
+    this.name = "NoKeyframeError";
+  }
+}
+
+/**
+ * Non-fatal things the UI may want to tell the user about. The engine only
+ * reports what happened; wording and presentation are up to the view.
+ */
+export type RecorderNoticeKind =
+  | "unsupported"
+  | "permission_denied"
+  | "display_media_error"
+  | "mic_denied"
+  | "mic_error"
+  | "camera_denied"
+  | "camera_error"
+  | "compositor_unsupported"
+  | "screen_ended"
+  | "no_audio_source"
+  | "source_ended"
+  | "recorder_error"
+  | "stop_failed"
+  | "recording_empty"
+  | "recording_started"
+  | "replay_started"
+  | "recording_finished"
+  | "source_silent"
+  | "file_write_failed"
+  | "memory_low"
+  | "stopped_memory_low";
+
+export interface RecorderNotice {
+  kind: RecorderNoticeKind;
+  detail?: string;
+}
+
+/** What a session captured, for labelling recordings. */
+export type CaptureSource = "screen" | "window" | "tab" | "audio" | "combined";
+
+/** A screen captured into the recording. */
+export interface CapturedScreen {
+  /** Mixer id of the screen's audio: "system" for the first screen. */
+  audioId: AudioSourceId;
+  label: string;
+  hasAudio: boolean;
+}
+
+export interface RecorderSnapshot {
+  status: RecordingStatus;
+  errorMessage: string | null;
+  chunkCount: number;
+  recording: Blob | null;
+  mimeType: string;
+  mode: RecordingMode;
+  /** True between the recorder stopping and the finished file being ready. */
+  finalizing: boolean;
+  /** True while a session started with `selectRegion` waits for confirmRegion. */
+  selectingRegion: boolean;
+  /** Every screen feeding the current session, primary first. */
+  screens: CapturedScreen[];
+  /** True while a recording is paused; status stays "recording". */
+  paused: boolean;
+  /** Markers dropped during the session, kept with the finished recording until the next session or reset. */
+  markers: RecordingMarker[];
+  /** What the current or last session captured; null when the browser doesn't say. */
+  source: CaptureSource | null;
+  /** Name of the file the current or last session was streamed to; null for in-memory recordings. */
+  outputFile: string | null;
+  /** Bytes of recorded chunks held in memory. */
+  memoryBytes: number;
+  /** Bytes of recorded chunks moved to disk to stay within the memory budget. */
+  spilledBytes: number;
+  /** Storage left for this site while recording; null until the browser has been asked, or when it won't say. */
+  storageFree: number | null;
+}
+
+export interface RecorderEngineEvents extends Record<string, unknown> {
+  change: RecorderSnapshot;
+  statechange: { status: RecordingStatus; previous: RecordingStatus };
+  chunk: { chunk: Blob; index: number };
+  notice: RecorderNotice;
+}
+
+export interface RecorderStartOptions {
+  includeSystemAudio: boolean;
+  includeMicAudio: boolean;
+  timeslice?: number;
+  mode?: RecordingMode;
+  /** Length of the rolling window kept in replay mode. */
+  replayWindowSeconds?: number;
+  /** Warn when a captured audio source stays silent this long. 0 disables the warning. */
+  silenceWarningSeconds?: number;
+  /** Codec, bitrate, frame rate and resolution. Browser defaults when omitted. */
+  quality?: QualitySettings;
+  /**
+   * Records sound only. Tab or system audio still goes through the screen
+   * picker; its video track is kept open, so the browser's "Stop sharing"
+   * control keeps working, but isn't recorded.
+   */
+  audioOnly?: boolean;
+  /** Draws the webcam over the screen capture, styled by setCameraOverlay. Ignored for audio-only recordings. */
+  includeCamera?: boolean;
+  /** Composites whatever is drawn on `annotations` into the video. Ignored for audio-only recordings. */
+  annotate?: boolean;
+  /**
+   * Records part of the shared surface. Once the surface is granted the
+   * session waits for confirmRegion; the region can move mid-recording via
+   * setRegion. Ignored for audio-only recordings.
+   */
+  selectRegion?: boolean;
+  /**
+   * Lays several screens out in one recording. More are added mid-recording
+   * with addScreen, and the recording carries on until the last one ends.
+   * Ignored for audio-only recordings.
+   */
+  combineScreens?: boolean;
+  /**
+   * Streams chunks here instead of keeping them in memory, so memory use
+   * stays flat however long the recording runs. Live clips aren't available
+   * then. Ignored in replay mode.
+   */
+  sink?: RecordingSink;
+  /**
+   * In "recording" mode, older chunks move to disk once more than this many
+   * bytes are held in memory. Where they can't, going over raises a
+   * "memory_low" notice instead.
+   */
+  memoryBudgetBytes?: number;
+  /** Stops the recording, keeping what was captured, instead of only warning when memory or storage runs low. */
+  stopWhenLow?: boolean;
+}
+
+/**
+ * Everything the engine needs from the browser. Swapping this out lets the
+ * state machine run without a DOM.
+ */
+export interface RecorderEnvironment {
+  isCaptureSupported(): boolean;
+  getDisplayMedia(options: DisplayMediaStreamOptions): Promise<MediaStream>;
+  getUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream>;
+  isTypeSupported(mimeType: string): boolean;
+  createMediaRecorder(stream: MediaStream, options?: MediaRecorderOptions): MediaRecorder;
+  createMediaStream(tracks: MediaStreamTrack[]): MediaStream;
+  /** Returns null where Web Audio is unavailable; sources are then recorded unmixed. */
+  createAudioContext(): AudioContext | null;
+  /** Crops a capture at the source where the browser can. Null means the compositor crops instead. */
+  createSourceCropper(track: MediaStreamTrack): Promise<SourceCropper | null>;
+  /** Returns null where canvas capture is unavailable; the screen is then recorded without overlays. */
+  createCompositor(screen: MediaStream, layers: CompositorLayers, frameRate: number): VideoCompositor | null;
+  /** Returns null where chunks can't be moved to disk; they then stay in memory. */
+  openChunkSpill(): Promise<ChunkSpill | null>;
+  /** Returns null where the browser doesn't report storage use. */
+  estimateStorage(): Promise<StorageEstimate | null>;
+}
+
+export function createBrowserEnvironment(): RecorderEnvironment {
+  return {
+    isCaptureSupported: () =>
+      typeof navigator !== "undefined" && !!navigator.mediaDevices && !!navigator.mediaDevices.getDisplayMedia,
+    getDisplayMedia: options => {
+      exposeSelfCaptureHandle();
+      return navigator.mediaDevices.getDisplayMedia(options);
+    },
+    getUserMedia: constraints => navigator.mediaDevices.getUserMedia(constraints),
+    isTypeSupported: mimeType => typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(mimeType),
+    createMediaRecorder: (stream, options) => new MediaRecorder(stream, options),
+    createMediaStream: tracks => new MediaStream(tracks),
+    createAudioContext: () => (typeof AudioContext !== "undefined" ? new AudioContext() : null),
+    createSourceCropper: createTabCropper,
+    createCompositor: (screen, layers, frameRate) =>
+      typeof HTMLCanvasElement !== "undefined" && "captureStream" in HTMLCanvasElement.prototype
+        ? new VideoCompositor(screen, layers, frameRate)
+        : null,
+    openChunkSpill: () => ChunkSpill.open(),
+    estimateStorage: async () =>
+      typeof navigator !== "undefined" && navigator.storage?.estimate ? navigator.storage.estimate() : null,
+  };
+}
+
+function captureSourceOf(stream: MediaStream | null): CaptureSource | null {
+  switch (stream?.getVideoTracks()[0]?.getSettings().displaySurface) {
+    case "monitor":
+      return "screen";
+    case "window":
+      return "window";
+    case "browser":
+      return "tab";
+    default:
+      return null;
+  }
+}
+
+/** Ends capture for streams a session opened but never took ownership of. */
+function stopTracks(...streams: (MediaStream | null)[]) {
+  streams.forEach(stream => stream?.getTracks().forEach(track => track.stop()));
+}
+
+/**
+ * Framework-agnostic screen recorder. Owns the capture stream, the
+ * MediaRecorder and the recorded chunks, and exposes them through an explicit
+ * status machine plus event subscriptions.
+ */
+export class RecorderEngine {
+  private readonly events = new Emitter<RecorderEngineEvents>();
+  private snapshot: RecorderSnapshot = {
+    status: "idle",
+    errorMessage: null,
+    chunkCount: 0,
+    recording: null,
+    mimeType: DEFAULT_MIME_TYPE,
+    mode: "recording",
+    finalizing: false,
+    selectingRegion: false,
+    screens: [],
+    paused: false,
+    markers: [],
+    source: null,
+    outputFile: null,
+    memoryBytes: 0,
+    spilledBytes: 0,
+    storageFree: null,
+  };
+
+  // Streams handed out by the browser (display, microphone, camera) and the composed stream fed to the recorder.
+  private sources: MediaStream[] = [];
+  private stream: MediaStream | null = null;
+  private mixer: AudioMixer | null = null;
+  private meters = new Map<AudioSourceId, LevelMeter>();
+  private silenceTimer: ReturnType<typeof setInterval> | null = null;
+  private audioMix: Partial<Record<AudioSourceId, AudioSourceSettings>> = {
+    system: { ...DEFAULT_AUDIO_SOURCE_SETTINGS },
+    mic: { ...DEFAULT_AUDIO_SOURCE_SETTINGS },
+  };
+  // The uncropped surface for previews; a clone of the display when it is cropped at the source.
+  private preview: MediaStream | null = null;
+  private region: Region = FULL_REGION;
+  private resolveRegion: ((region: Region | null) => void) | null = null;
+  private cropper: SourceCropper | null = null;
+  private compositor: VideoCompositor | null = null;
+  private layout: SourceLayout = DEFAULT_SOURCE_LAYOUT;
+  // Screens of the current session with their streams, in the same order as `snapshot.screens`.
+  private screenStreams: MediaStream[] = [];
+  private nextScreenNumber = 2;
+  private combining = false;
+  private quality: QualitySettings = BROWSER_DEFAULT_QUALITY;
+  private cameraOverlay: CameraOverlaySettings = { ...DEFAULT_CAMERA_OVERLAY_SETTINGS };
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private replayBuffer: ReplayBuffer | null = null;
+  private sink: RecordingSink | null = null;
+  // Chunks before spilledCount live on disk in `spill`; the rest are still in memory.
+  private spill: ChunkSpill | null = null;
+  private spilledCount = 0;
+  private spilling = false;
+  private spillUnavailable = false;
+  private memoryBudget = DEFAULT_MEMORY_BUDGET_BYTES;
+  private stopWhenLow = false;
+  private warnedLow = false;
+  private lastStorageCheck = 0;
+  private chunkIndex = 0;
+  // Bumped whenever a session starts or is dropped, so late async work can tell it is stale.
+  private session = 0;
+  private timeslice = MAIN_RECORDING_CHUNK_DURATION_MS;
+  // Wall-clock bookkeeping for elapsedSeconds, which leaves out time spent paused.
+  private recordingStartedAt = 0;
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+  private nextMarkerId = 1;
+
+  /** Drawn into the video of sessions started with `annotate`. Cleared when a session starts. */
+  readonly annotations = new AnnotationLayer();
+
+  constructor(private readonly env: RecorderEnvironment = createBrowserEnvironment()) {}
+
+  getSnapshot = (): RecorderSnapshot => this.snapshot;
+
+  /** Subscribes to snapshot changes. Shaped for React's useSyncExternalStore. */
+  subscribe = (listener: () => void): (() => void) => this.events.on("change", () => listener());
+
+  on<K extends keyof RecorderEngineEvents>(event: K, listener: (payload: RecorderEngineEvents[K]) => void) {
+    return this.events.on(event, listener);
+  }
+
+  get status(): RecordingStatus {
+    return this.snapshot.status;
+  }
+
+  get mimeType(): string {
+    return this.snapshot.mimeType;
+  }
+
+  /** The uncropped screen capture of the current session, for previewing, picking a region or drawing over. */
+  get displayStream(): MediaStream | null {
+    return this.preview;
+  }
+
+  get recordedChunks(): readonly Blob[] {
+    return this.chunks;
+  }
+
+  /** Seconds of recording time so far, excluding pauses. 0 outside a recording. */
+  get elapsedSeconds(): number {
+    if (this.snapshot.status !== "recording" || !this.recordingStartedAt) return 0;
+    return Math.max(0, ((this.pausedAt ?? Date.now()) - this.recordingStartedAt - this.pausedMs) / 1000);
+  }
+
+  /** Seconds of footage captured so far, based on the recorder timeslice. */
+  get recordedSeconds(): number {
+    if (this.replayBuffer) return this.replayBuffer.bufferedSeconds;
+    return (this.sink ? this.chunkIndex : this.chunks.length) * (this.timeslice / 1000);
+  }
+
+  chunksNeededFor(seconds: number): number {
+    return Math.ceil(seconds / (this.timeslice / 1000));
+  }
+
+  /**
+   * Starts a session. Resolves false without touching the current one when a
+   * session is already starting, running or waiting to be downloaded, so a
+   * double click or repeated shortcut is harmless.
+   */
+  async start(options: RecorderStartOptions): Promise<boolean> {
+    if (!canTransition(this.snapshot.status, "permission_pending")) {
+      void options.sink?.abort();
+      return false;
+    }
+    if (!this.env.isCaptureSupported()) {
+      void options.sink?.abort();
+      this.fail("Screen recording is not supported by your browser.", { kind: "unsupported" });
+      return false;
+    }
+    const audioOnly = options.audioOnly ?? false;
+    if (audioOnly && !options.includeSystemAudio && !options.includeMicAudio) {
+      void options.sink?.abort();
+      this.fail("Audio-only recording needs tab/system audio, the microphone, or both.", { kind: "no_audio_source" });
+      return false;
+    }
+
+    this.transition("permission_pending");
+    const mode = options.mode ?? "recording";
+    this.session++;
+    const session = this.session;
+    this.releaseSession();
+    this.chunks = [];
+    this.chunkIndex = 0;
+    this.timeslice = options.timeslice ?? (mode === "replay" ? REPLAY_CHUNK_DURATION_MS : MAIN_RECORDING_CHUNK_DURATION_MS);
+    this.replayBuffer = mode === "replay"
+      ? new ReplayBuffer(options.replayWindowSeconds ?? DEFAULT_REPLAY_WINDOW_SECONDS, this.timeslice / 1000)
+      : null;
+    this.recordingStartedAt = 0;
+    this.sink = mode === "recording" ? options.sink ?? null : null;
+    if (options.sink && !this.sink) void options.sink.abort();
+    this.dropSpill();
+    this.memoryBudget = options.memoryBudgetBytes ?? DEFAULT_MEMORY_BUDGET_BYTES;
+    this.stopWhenLow = options.stopWhenLow ?? false;
+    this.warnedLow = false;
+    this.lastStorageCheck = 0;
+    this.update({
+      errorMessage: null,
+      chunkCount: 0,
+      recording: null,
+      mode,
+      markers: [],
+      source: null,
+      outputFile: this.sink?.name ?? null,
+      memoryBytes: 0,
+      spilledBytes: 0,
+      storageFree: null,
+    });
+
+    const quality = options.quality ?? BROWSER_DEFAULT_QUALITY;
+    this.quality = quality;
+    // Microphone-only audio recordings never open the screen picker.
+    let displayStream: MediaStream | null = null;
+    try {
+      if (!audioOnly || options.includeSystemAudio) {
+        displayStream = await this.env.getDisplayMedia({
+          video: audioOnly ? true : displayVideoConstraints(quality),
+          audio: options.includeSystemAudio,
+        });
+      }
+    } catch (err) {
+      // A reset or a newer start while the picker was open owns the state now.
+      if (session !== this.session) return false;
+      const typedError = err as Error;
+      if (typedError.name === "NotAllowedError") {
+        console.info("Screen recording permission denied by user.");
+        this.fail("Permission to record screen was denied. Please allow access and try again.", { kind: "permission_denied" });
+      } else {
+        console.error("Error getting display media:", typedError);
+        this.fail(`An error occurred while getting display media: ${typedError.message}`, {
+          kind: "display_media_error",
+          detail: typedError.message,
+        });
+      }
+      return false;
+    }
+    // The user may have reset, or reset and started again, while a picker was open.
+    if (session !== this.session) {
+      stopTracks(displayStream);
+      return false;
+    }
+
+    const micStream = options.includeMicAudio ? await this.openMicrophone() : null;
+    const cameraStream = options.includeCamera && !audioOnly ? await this.openCamera() : null;
+    if (session !== this.session) {
+      stopTracks(displayStream, micStream, cameraStream);
+      return false;
+    }
+    this.sources = [displayStream, micStream, cameraStream].filter((stream): stream is MediaStream => stream !== null);
+
+    if (audioOnly && !this.sources.some(source => source.getAudioTracks().length > 0)) {
+      this.releaseStream();
+      this.fail("No audio was shared. Tick \"Share tab audio\" in the picker or allow the microphone.", { kind: "no_audio_source" });
+      return false;
+    }
+
+    // Losing the camera only drops the overlay; the compositor notices on its own.
+    this.sources
+      .filter(source => source !== cameraStream)
+      .forEach(source => source.getTracks().forEach(track => (track.onended = this.handleSourceEnded)));
+    this.preview = displayStream;
+    this.combining = (options.combineScreens ?? false) && !audioOnly && displayStream !== null;
+    if (displayStream && !audioOnly) {
+      this.screenStreams = [displayStream];
+      this.nextScreenNumber = 2;
+      this.update({ screens: [{ audioId: "system", label: "Screen 1", hasAudio: displayStream.getAudioTracks().length > 0 }] });
+      if (this.combining) this.watchScreen(displayStream);
+    }
+    this.update({ source: audioOnly ? "audio" : captureSourceOf(displayStream) });
+
+    const selectRegion = (options.selectRegion ?? false) && !audioOnly && displayStream !== null;
+    if (selectRegion && displayStream) {
+      const region = await this.waitForRegion();
+      if (session !== this.session) return false;
+      if (!region) {
+        this.releaseStream();
+        this.transition("idle");
+        return false;
+      }
+      this.region = region;
+      await this.cropAtSource(displayStream);
+      if (session !== this.session) return false;
+    }
+
+    this.annotations.clear();
+    const video = !audioOnly && displayStream
+      ? this.composeVideo(displayStream, cameraStream, options.annotate ?? false, selectRegion, quality)
+      : [];
+    const recordedStream = this.composeStream(video, displayStream, micStream, this.combining);
+    this.stream = recordedStream;
+    this.watchForSilence(options.silenceWarningSeconds ?? DEFAULT_SILENCE_WARNING_SECONDS);
+
+    const recorder = this.createRecorder(recordedStream, quality, audioOnly);
+    if (!recorder) return false;
+    this.recorder = recorder;
+
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) {
+        const index = this.chunkIndex++;
+        if (this.replayBuffer) {
+          this.replayBuffer.push(event.data);
+          this.update({ chunkCount: this.replayBuffer.length, memoryBytes: this.replayBuffer.byteLength });
+        } else if (this.sink) {
+          this.sink.write(event.data).catch(error => this.handleSinkError(error));
+          this.update({ chunkCount: this.chunkIndex });
+        } else {
+          this.chunks.push(event.data);
+          this.update({ chunkCount: this.chunks.length, memoryBytes: this.snapshot.memoryBytes + event.data.size });
+          void this.spillChunks();
+          this.checkStorage();
+          this.checkResources();
+        }
+        this.events.emit("chunk", { chunk: event.data, index });
+      }
+    };
+    recorder.onstop = () => this.handleRecorderStop(recorder);
+    recorder.onerror = event => {
+      console.error("MediaRecorder error:", event);
+      const name = (event as Event & { error?: DOMException }).error?.name || "Unknown error";
+      this.releaseSession();
+      this.fail(`MediaRecorder error: ${name}`, { kind: "recorder_error" });
+    };
+
+    try {
+      recorder.start(this.timeslice);
+      if (mode === "recording" && !this.sink) this.checkStorage();
+      this.recordingStartedAt = Date.now();
+      this.pausedAt = null;
+      this.pausedMs = 0;
+    } catch (e) {
+      console.error("Error starting media recorder:", e);
+      this.releaseSession();
+      this.fail("Failed to start recorder.");
+      return false;
+    }
+
+    this.transition("recording");
+    this.events.emit("notice", { kind: mode === "replay" ? "replay_started" : "recording_started" });
+    return true;
+  }
+
+  stop() {
+    if (this.snapshot.finalizing) return;
+    const recorder = this.recorder;
+    if (recorder && (recorder.state === "recording" || recorder.state === "paused")) {
+      try {
+        recorder.stop(); // onstop handles the state change
+      } catch (error) {
+        console.error("Error explicitly stopping MediaRecorder:", error);
+        this.releaseSession();
+        this.chunks = [];
+        this.fail("Error stopping recorder. State has been reset.", { kind: "stop_failed" });
+      }
+      return;
+    }
+
+    console.warn("Stop called but recorder not in recording/paused state:", recorder?.state);
+    if (this.snapshot.status === "recording" || this.snapshot.status === "permission_pending") {
+      this.reset();
+    }
+  }
+
+  /** Suspends capture without ending the session. Nothing is recorded until resume(). */
+  pause() {
+    if (this.snapshot.finalizing || this.recorder?.state !== "recording") return;
+    this.recorder.pause();
+    this.pausedAt = Date.now();
+    this.update({ paused: true });
+  }
+
+  resume() {
+    if (this.recorder?.state !== "paused") return;
+    this.recorder.resume();
+    if (this.pausedAt !== null) this.pausedMs += Date.now() - this.pausedAt;
+    this.pausedAt = null;
+    this.update({ paused: false });
+  }
+
+  togglePause() {
+    if (this.snapshot.paused) this.resume();
+    else this.pause();
+  }
+
+  /** Drops the current session, including any finished recording, and goes back to idle. */
+  reset() {
+    this.session++;
+    this.releaseSession();
+    this.chunks = [];
+    this.dropSpill();
+    this.replayBuffer = null;
+    this.update({
+      chunkCount: 0,
+      recording: null,
+      errorMessage: null,
+      finalizing: false,
+      markers: [],
+      source: null,
+      memoryBytes: 0,
+      spilledBytes: 0,
+      storageFree: null,
+    });
+    if (this.snapshot.status !== "idle") {
+      this.transition("idle");
+    }
+  }
+
+  /**
+   * Drops a marker at the current recording time. Only in "recording" mode,
+   * since Instant Replay has no finished recording to carry markers.
+   */
+  addMarker(label = ""): RecordingMarker | null {
+    if (this.snapshot.status !== "recording" || this.snapshot.mode !== "recording" || this.snapshot.finalizing) return null;
+    const marker: RecordingMarker = { id: `marker-${this.nextMarkerId++}`, time: this.elapsedSeconds, label: label.trim() };
+    this.update({ markers: [...this.snapshot.markers, marker] });
+    return marker;
+  }
+
+  renameMarker(id: string, label: string) {
+    this.update({ markers: this.snapshot.markers.map(marker => (marker.id === id ? { ...marker, label: label.trim() } : marker)) });
+  }
+
+  removeMarker(id: string) {
+    this.update({ markers: this.snapshot.markers.filter(marker => marker.id !== id) });
+  }
+
+  /**
+   * Exports the last `seconds` of footage as a standalone file without
+   * interrupting capture. With `endSeconds` the clip ends at that recording
+   * time instead, to the chunk. Returns null if not enough was recorded yet,
+   * and throws NoKeyframeError if none of it can start a playable clip.
+   */
+  async createClip(seconds: number, endSeconds?: number): Promise<Blob | null> {
+    const needed = this.chunksNeededFor(seconds);
+    const end = endSeconds === undefined ? this.chunks.length : Math.min(this.chunks.length, this.chunksNeededFor(endSeconds));
+    if (end === 0 || end < needed) return null;
+    const chunks = this.chunks.slice(0, end);
+    return this.exportChunks(this.chunks[0], chunks, seconds, () => chunks.slice(-needed));
+  }
+
+  /**
+   * Exports the current Instant Replay window without interrupting capture.
+   * Returns null if nothing was buffered yet, and throws NoKeyframeError if
+   * the window holds no keyframe to start on.
+   */
+  async saveReplay(): Promise<Blob | null> {
+    const buffer = this.replayBuffer;
+    if (!buffer || !buffer.init || buffer.length === 0) return null;
+    const chunks = buffer.chunks();
+    return this.exportChunks(buffer.init, chunks, buffer.windowSeconds, () =>
+      chunks[0] === buffer.init ? chunks : [buffer.init!, ...chunks],
+    );
+  }
+
+  dispose() {
+    this.releaseSession();
+    this.chunks = [];
+    this.dropSpill();
+    this.replayBuffer = null;
+    this.events.removeAllListeners();
+  }
+
+  /**
+   * Cuts a standalone WebM out of live chunks. Falls back to plain
+   * concatenation when the recorder isn't producing WebM (e.g. Safari's MP4).
+   */
+  private async exportChunks(initChunk: Blob, chunks: readonly Blob[], seconds: number, fallback: () => Blob[]): Promise<Blob> {
+    const mimeType = this.snapshot.mimeType;
+    if (mimeType.startsWith("video/webm") || mimeType.startsWith("audio/webm")) {
+      let clip: Blob | null;
+      try {
+        clip = await createStandaloneClip({ initChunk, chunks, durationSeconds: seconds, chunkSeconds: this.timeslice / 1000, mimeType });
+      } catch (e) {
+        console.warn("Could not build a standalone clip, falling back to raw chunks:", e);
+        return new Blob(fallback(), { type: mimeType });
+      }
+      // Raw chunks would start mid-GOP and show garbage until the next keyframe, so don't hand them out.
+      if (!clip) throw new NoKeyframeError();
+      return clip;
+    }
+    return new Blob(fallback(), { type: mimeType });
+  }
+
+  /**
+   * Updates volume or mute for one audio source. Applied to the live mix
+   * right away and remembered for the next session.
+   */
+  setAudioSource(id: AudioSourceId, patch: Partial<AudioSourceSettings>) {
+    this.audioMix[id] = { ...(this.audioMix[id] ?? DEFAULT_AUDIO_SOURCE_SETTINGS), ...patch };
+    this.mixer?.update(id, patch);
+  }
+
+  /** Starts recording the given region of a session waiting in `selectingRegion`. */
+  confirmRegion(region: Region) {
+    this.resolveRegion?.(clampRegion(region));
+  }
+
+  /** Gives up on a session waiting in `selectingRegion` and goes back to idle. */
+  cancelRegionSelection() {
+    this.resolveRegion?.(null);
+  }
+
+  /** Moves the recorded region of a session started with `selectRegion`, mid-recording included. */
+  setRegion(region: Region) {
+    this.region = clampRegion(region);
+    this.cropper?.apply(this.region).catch(e => console.warn("Could not move the capture crop:", e));
+    this.compositor?.updateRegion(this.region);
+  }
+
+  /**
+   * Asks for another screen and adds it to a recording started with
+   * `combineScreens`. Resolves false if the picker was dismissed or the
+   * session can't take more screens.
+   */
+  async addScreen(includeAudio: boolean): Promise<boolean> {
+    if (!this.combining || !this.compositor || this.snapshot.status !== "recording") return false;
+    const session = this.session;
+    let stream: MediaStream;
+    try {
+      stream = await this.env.getDisplayMedia({ video: displayVideoConstraints(this.quality), audio: includeAudio });
+    } catch (err) {
+      const typedError = err as Error;
+      if (typedError.name !== "NotAllowedError") {
+        console.error("Error adding a screen:", typedError);
+        this.events.emit("notice", { kind: "display_media_error", detail: typedError.message });
+      }
+      return false;
+    }
+    if (session !== this.session || !this.compositor || this.snapshot.status !== "recording") {
+      stream.getTracks().forEach(track => track.stop());
+      return false;
+    }
+
+    const number = this.nextScreenNumber++;
+    const audioId: ScreenAudioId = `screen-${number}`;
+    if (this.quality.contentHint) stream.getVideoTracks().forEach(track => (track.contentHint = this.quality.contentHint));
+    this.sources.push(stream);
+    this.screenStreams.push(stream);
+    this.watchScreen(stream);
+    this.compositor.addScreen(stream);
+    const hasAudio = stream.getAudioTracks().length > 0 && this.mixer !== null;
+    if (hasAudio) this.addToMix(audioId, stream);
+    this.update({ screens: [...this.snapshot.screens, { audioId, label: `Screen ${number}`, hasAudio }], source: "combined" });
+    return true;
+  }
+
+  /** Changes how combined screens share the frame. Applied right away and remembered for the next session. */
+  setLayout(layout: SourceLayout) {
+    this.layout = layout;
+    this.compositor?.updateLayout(layout);
+  }
+
+  /**
+   * Updates the webcam overlay's position, size, shape or border. Applied to
+   * the live composite right away and remembered for the next session.
+   */
+  setCameraOverlay(patch: Partial<CameraOverlaySettings>) {
+    this.cameraOverlay = { ...this.cameraOverlay, ...patch };
+    this.compositor?.updateCameraOverlay(patch);
+  }
+
+  /** Codecs this browser can record, for building a codec picker. */
+  supportedCodecs() {
+    return supportedCodecs(type => this.env.isTypeSupported(type));
+  }
+
+  /** Current input level of each audio source being captured. Empty when not recording or unmixed. */
+  getAudioLevels(): Partial<Record<AudioSourceId, AudioLevel>> {
+    const levels: Partial<Record<AudioSourceId, AudioLevel>> = {};
+    this.meters.forEach((meter, id) => (levels[id] = meter.read()));
+    return levels;
+  }
+
+  private watchForSilence(seconds: number) {
+    if (!this.mixer || seconds <= 0) return;
+    const tracker = new SilenceTracker<AudioSourceId>(seconds * 1000);
+    this.silenceTimer = setInterval(() => {
+      if (this.snapshot.status !== "recording") return;
+      const now = Date.now();
+      this.meters.forEach((meter, id) => {
+        if (tracker.sample(id, meter.read().rms, now)) {
+          this.events.emit("notice", { kind: "source_silent", detail: id });
+        }
+      });
+    }, 500);
+  }
+
+  private async openMicrophone(): Promise<MediaStream | null> {
+    try {
+      return await this.env.getUserMedia({ audio: true, video: false });
+    } catch (micError) {
+      const typedMicError = micError as Error;
+      if (typedMicError.name === "NotAllowedError") {
+        console.info("Microphone permission denied by user.");
+        this.events.emit("notice", { kind: "mic_denied" });
+      } else {
+        console.warn("Error accessing microphone:", micError);
+        this.events.emit("notice", { kind: "mic_error" });
+      }
+      return null;
+    }
+  }
+
+  private async openCamera(): Promise<MediaStream | null> {
+    try {
+      return await this.env.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } }, audio: false });
+    } catch (cameraError) {
+      const typedCameraError = cameraError as Error;
+      if (typedCameraError.name === "NotAllowedError") {
+        console.info("Camera permission denied by user.");
+        this.events.emit("notice", { kind: "camera_denied" });
+      } else {
+        console.warn("Error accessing camera:", cameraError);
+        this.events.emit("notice", { kind: "camera_error" });
+      }
+      return null;
+    }
+  }
+
+  private waitForRegion(): Promise<Region | null> {
+    this.update({ selectingRegion: true });
+    return new Promise(resolve => {
+      this.resolveRegion = region => {
+        this.resolveRegion = null;
+        this.update({ selectingRegion: false });
+        resolve(region);
+      };
+    });
+  }
+
+  /**
+   * Tries Region Capture on the display track. A clone taken first stays
+   * uncropped, so the preview can still show the whole surface.
+   */
+  private async cropAtSource(displayStream: MediaStream) {
+    const [track] = displayStream.getVideoTracks();
+    if (!track) return;
+    const uncropped = track.clone();
+    try {
+      this.cropper = await this.env.createSourceCropper(track);
+    } catch (e) {
+      console.warn("Could not crop the capture at the source:", e);
+    }
+    if (!this.cropper) {
+      uncropped.stop();
+      return;
+    }
+    await this.cropper.apply(this.region);
+    this.preview = this.env.createMediaStream([uncropped]);
+  }
+
+  /**
+   * The video tracks to record: the display as-is, or composited when there
+   * is a camera or annotations to draw over it, or a region the browser
+   * couldn't crop at the source.
+   */
+  private composeVideo(
+    displayStream: MediaStream,
+    cameraStream: MediaStream | null,
+    annotate: boolean,
+    selectRegion: boolean,
+    quality: QualitySettings,
+  ): MediaStreamTrack[] {
+    let tracks = displayStream.getVideoTracks();
+    // A canvas crop is set up even for the whole surface, so the region can still be narrowed mid-recording.
+    const cropOnCanvas = selectRegion && !this.cropper;
+    if (cameraStream || annotate || cropOnCanvas || this.combining) {
+      const layers: CompositorLayers = {
+        layout: this.layout,
+        camera: cameraStream,
+        cameraOverlay: { ...this.cameraOverlay },
+        annotations: annotate ? this.annotations : null,
+        region: selectRegion ? this.region : FULL_REGION,
+        cropOnCanvas,
+      };
+      try {
+        const frameRate = quality.maxFrameRate || DEFAULT_COMPOSITE_FRAME_RATE;
+        this.compositor = this.env.createCompositor(displayStream, layers, frameRate);
+      } catch (e) {
+        console.warn("Could not start the video compositor:", e);
+      }
+      if (this.compositor) {
+        tracks = [this.compositor.track];
+      } else {
+        this.combining = false;
+        this.events.emit("notice", { kind: "compositor_unsupported" });
+      }
+    }
+    if (quality.contentHint) tracks.forEach(track => (track.contentHint = quality.contentHint));
+    return tracks;
+  }
+
+  /**
+   * Builds the stream the recorder sees: the given video tracks plus one
+   * mixed audio track, since Chromium only encodes the first audio track it gets.
+   * With `keepMixer` the mix exists even without inputs, so screens added
+   * later can bring their audio in.
+   */
+  private composeStream(
+    videoTracks: MediaStreamTrack[],
+    displayStream: MediaStream | null,
+    micStream: MediaStream | null,
+    keepMixer: boolean,
+  ): MediaStream {
+    const inputs: [AudioSourceId, MediaStream][] = [];
+    if (displayStream && displayStream.getAudioTracks().length > 0) inputs.push(["system", displayStream]);
+    if (micStream && micStream.getAudioTracks().length > 0) inputs.push(["mic", micStream]);
+    if (inputs.length === 0 && !keepMixer) return this.env.createMediaStream(videoTracks);
+
+    let context: AudioContext | null = null;
+    try {
+      context = this.env.createAudioContext();
+    } catch (e) {
+      console.warn("Could not create an AudioContext, recording audio unmixed:", e);
+    }
+    if (!context) {
+      const tracks = inputs.flatMap(([, stream]) => stream.getAudioTracks());
+      return this.env.createMediaStream([...videoTracks, ...tracks]);
+    }
+
+    this.mixer = new AudioMixer(context);
+    inputs.forEach(([id, stream]) => this.addToMix(id, stream));
+    return this.env.createMediaStream([...videoTracks, this.mixer.track]);
+  }
+
+  private addToMix(id: AudioSourceId, stream: MediaStream) {
+    if (!this.mixer) return;
+    this.mixer.addSource(id, stream, this.audioMix[id]);
+    const meter = this.mixer.createMeter(id);
+    if (meter) this.meters.set(id, meter);
+  }
+
+  private removeFromMix(id: AudioSourceId) {
+    this.meters.get(id)?.disconnect();
+    this.meters.delete(id);
+    this.mixer?.removeSource(id);
+  }
+
+  /** In a combined recording, a screen that stops sharing only leaves the layout. */
+  private watchScreen(stream: MediaStream) {
+    stream.getTracks().forEach(track => (track.onended = () => this.handleScreenEnded(stream)));
+  }
+
+  private handleScreenEnded(stream: MediaStream) {
+    const index = this.screenStreams.indexOf(stream);
+    if (index === -1) return;
+    if (this.screenStreams.length === 1 || !this.compositor || this.snapshot.status !== "recording") {
+      this.handleSourceEnded();
+      return;
+    }
+
+    const screen = this.snapshot.screens[index];
+    stream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    this.sources = this.sources.filter(source => source !== stream);
+    this.screenStreams.splice(index, 1);
+    this.compositor.removeScreen(stream);
+    this.removeFromMix(screen.audioId);
+    if (index === 0) {
+      // The next screen becomes the primary one; a crop made at the old one's source no longer applies.
+      this.cropper?.dispose();
+      this.cropper = null;
+      this.preview = this.screenStreams[0];
+    }
+    this.update({ screens: this.snapshot.screens.filter((_, i) => i !== index) });
+    this.events.emit("notice", { kind: "screen_ended", detail: screen.label });
+  }
+
+  private createRecorder(stream: MediaStream, quality: QualitySettings, audioOnly: boolean): MediaRecorder | null {
+    try {
+      const isTypeSupported = (type: string) => this.env.isTypeSupported(type);
+      const mimeType = audioOnly ? resolveAudioMimeType(isTypeSupported) : resolveMimeType(quality.codec, isTypeSupported);
+      const { audioBitsPerSecond, videoBitsPerSecond } = recorderBitrates(quality);
+      const bitrates = audioOnly
+        ? { audioBitsPerSecond }
+        : { audioBitsPerSecond, videoBitsPerSecond, videoKeyFrameIntervalDuration: MAX_KEYFRAME_INTERVAL_MS };
+      const recorder = mimeType
+        ? this.env.createMediaRecorder(stream, { mimeType, ...bitrates })
+        : this.env.createMediaRecorder(stream, bitrates); // Absolute fallback
+      this.update({ mimeType: mimeType ?? (recorder.mimeType || DEFAULT_MIME_TYPE) });
+      return recorder;
+    } catch (e) {
+      console.warn("Error initializing MediaRecorder, falling back to basic init:", e);
+    }
+    try {
+      const recorder = this.env.createMediaRecorder(stream);
+      this.update({ mimeType: recorder.mimeType || DEFAULT_MIME_TYPE });
+      return recorder;
+    } catch (finalError) {
+      console.error("Fatal error initializing MediaRecorder even with fallback:", finalError);
+      this.releaseSession();
+      this.fail("Failed to initialize recorder. Your browser might not support MediaRecorder with the selected inputs.");
+      return null;
+    }
+  }
+
+  private async handleRecorderStop(recorder: MediaRecorder) {
+    // Sessions torn down through releaseSession() have already dropped their recorder.
+    if (recorder !== this.recorder) return;
+    this.recorder = null;
+    this.releaseStream();
+    if (this.snapshot.status !== "recording") return;
+
+    if (this.replayBuffer) {
+      // Stopping replay just ends buffering; whatever wasn't saved is dropped.
+      this.replayBuffer = null;
+      this.update({ chunkCount: 0 });
+      this.transition("idle");
+      return;
+    }
+
+    if (this.sink) {
+      await this.closeSink();
+      return;
+    }
+
+    // Chunks are intentionally kept after stopping, they back clip export and trimming.
+    if (this.chunks.length === 0) {
+      this.fail("No data was recorded.", { kind: "recording_empty" });
+      return;
+    }
+
+    const session = this.session;
+    const raw = new Blob(this.chunks, { type: this.snapshot.mimeType });
+    // A raw recording still plays from the start, it just has no duration or seek index.
+    const finalize = this.canFinalizeInMemory();
+    this.update({ finalizing: finalize });
+    const recording = finalize ? await this.finalizeRecording(raw) : raw;
+    if (session !== this.session) return;
+
+    this.update({ recording, finalizing: false });
+    this.transition("stopped_pending_full_download");
+    this.events.emit("notice", finalize ? { kind: "recording_finished" } : { kind: "recording_finished", detail: "unindexed" });
+  }
+
+  /**
+   * Whether the finished recording can be finalized without going past the
+   * memory ceiling. Spilled recordings never are: finalizing would read them
+   * back from disk into memory all at once.
+   */
+  private canFinalizeInMemory(): boolean {
+    if (this.spilledCount > 0 || this.snapshot.spilledBytes > 0) return false;
+    return this.snapshot.memoryBytes * FINALIZE_PEAK_FACTOR <= this.memoryCeiling();
+  }
+
+  /** Memory the session may use before the user is warned. Without spilling the budget is a hard limit. */
+  private memoryCeiling(): number {
+    return this.memoryBudget * (this.spillUnavailable ? 1 : MEMORY_CEILING_FACTOR);
+  }
+
+  /**
+   * Finishes a recording streamed to a file. The file is left as written
+   * rather than finalized, since that would mean reading it all back into memory.
+   */
+  private async closeSink() {
+    const sink = this.sink!;
+    this.sink = null;
+    if (this.chunkIndex === 0) {
+      await sink.abort();
+      this.fail("No data was recorded.", { kind: "recording_empty" });
+      return;
+    }
+
+    const session = this.session;
+    this.update({ finalizing: true });
+    let recording: Blob;
+    try {
+      recording = await sink.close();
+    } catch (error) {
+      if (session !== this.session) return;
+      console.error("Could not finish writing the recording file:", error);
+      this.update({ finalizing: false });
+      this.fail("The recording file could not be finished. Whatever was written is still in it.", { kind: "file_write_failed", detail: sink.name });
+      return;
+    }
+    if (session !== this.session) return;
+
+    this.update({ recording, finalizing: false });
+    this.transition("stopped_pending_full_download");
+    this.events.emit("notice", { kind: "recording_finished" });
+  }
+
+  /**
+   * Moves the oldest in-memory chunks to disk once memory use is over budget,
+   * until it is back to half the budget. The disk-backed blobs replace the
+   * originals in place, so clips and the finished recording read them as before.
+   */
+  private async spillChunks() {
+    if (this.spilling || this.spillUnavailable || this.snapshot.memoryBytes <= this.memoryBudget) return;
+    const session = this.session;
+    this.spilling = true;
+    try {
+      const spill = this.spill ?? (await this.env.openChunkSpill());
+      if (session !== this.session) {
+        if (spill !== this.spill) void spill?.dispose();
+        return;
+      }
+      if (!spill) {
+        this.spillUnavailable = true;
+        this.checkResources();
+        return;
+      }
+      this.spill = spill;
+
+      const start = this.spilledCount;
+      const target = this.snapshot.memoryBytes - this.memoryBudget / 2;
+      let end = start;
+      let bytes = 0;
+      while (end < this.chunks.length && bytes < target) bytes += this.chunks[end++].size;
+      const spilled = await spill.write(this.chunks.slice(start, end));
+      if (session !== this.session) return;
+
+      this.chunks.splice(start, spilled.length, ...spilled);
+      this.spilledCount = end;
+      this.update({ memoryBytes: this.snapshot.memoryBytes - bytes, spilledBytes: this.snapshot.spilledBytes + bytes });
+    } catch (error) {
+      if (session !== this.session) return;
+      console.warn("Could not move recorded chunks to disk, keeping them in memory:", error);
+      this.spillUnavailable = true;
+      this.checkResources();
+      return;
+    } finally {
+      if (session === this.session) this.spilling = false;
+    }
+    // Chunks kept arriving while that batch was written.
+    void this.spillChunks();
+  }
+
+  private dropSpill() {
+    void this.spill?.dispose();
+    this.spill = null;
+    this.spilledCount = 0;
+    this.spilling = false;
+    this.spillUnavailable = false;
+  }
+
+  /** Refreshes `storageFree`, at most every few seconds. */
+  private checkStorage() {
+    const now = Date.now();
+    if (now - this.lastStorageCheck < STORAGE_CHECK_INTERVAL_MS) return;
+    this.lastStorageCheck = now;
+    const session = this.session;
+    this.env
+      .estimateStorage()
+      .then(estimate => {
+        if (session !== this.session || estimate?.quota === undefined) return;
+        this.update({ storageFree: Math.max(0, estimate.quota - (estimate.usage ?? 0)) });
+        this.checkResources();
+      })
+      .catch(e => console.warn("Could not estimate free storage:", e));
+  }
+
+  /**
+   * Warns once per session when memory use is past what spilling can handle,
+   * or storage is nearly full, before the browser gives up on the tab.
+   * Memory use counts the copies finalizing makes on stop when it will run;
+   * it is skipped rather than allowed past the ceiling.
+   * With `stopWhenLow` the recording is stopped and finished normally instead.
+   */
+  private checkResources() {
+    if (this.warnedLow || this.snapshot.status !== "recording" || this.snapshot.finalizing) return;
+    const peak = this.snapshot.memoryBytes * (this.sink || !this.canFinalizeInMemory() ? 1 : FINALIZE_PEAK_FACTOR);
+    const memoryLow = peak > this.memoryCeiling();
+    const storageLow = this.snapshot.storageFree !== null && this.snapshot.storageFree < LOW_STORAGE_BYTES;
+    if (!memoryLow && !storageLow) return;
+
+    this.warnedLow = true;
+    const detail = memoryLow ? "memory" : "storage";
+    if (this.stopWhenLow) {
+      this.events.emit("notice", { kind: "stopped_memory_low", detail });
+      this.stop();
+    } else {
+      this.events.emit("notice", { kind: "memory_low", detail });
+    }
+  }
+
+  /** A write failed (disk full, file removed): stop here instead of recording into nowhere. */
+  private handleSinkError(error: unknown) {
+    if (!this.sink || this.snapshot.status !== "recording") return;
+    console.error("Writing the recording file failed:", error);
+    const sink = this.sink;
+    this.sink = null;
+    void sink.abort();
+    this.releaseSession();
+    this.fail("Writing the recording file failed, so recording stopped.", { kind: "file_write_failed", detail: sink.name });
+  }
+
+  /** Adds duration and a seek index to WebM output. Anything else is passed through untouched. */
+  private async finalizeRecording(raw: Blob): Promise<Blob> {
+    if (!raw.type.startsWith("video/webm") && !raw.type.startsWith("audio/webm")) return raw;
+    try {
+      return await finalizeWebm(raw);
+    } catch (e) {
+      console.warn("Could not finalize WebM, offering the raw recording instead:", e);
+      return raw;
+    }
+  }
+
+  private handleSourceEnded = () => {
+    this.events.emit("notice", { kind: "source_ended" });
+    // Sharing stopped while a region was still being picked.
+    this.resolveRegion?.(null);
+    if (this.snapshot.status === "recording") {
+      this.stop();
+    }
+  };
+
+  private releaseStream() {
+    this.resolveRegion?.(null);
+    for (const stream of [...this.sources, this.stream, this.preview]) {
+      stream?.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      });
+    }
+    this.sources = [];
+    this.stream = null;
+    this.preview = null;
+    this.screenStreams = [];
+    this.combining = false;
+    if (this.snapshot.screens.length > 0 || this.snapshot.paused) this.update({ screens: [], paused: false });
+    this.cropper?.dispose();
+    this.cropper = null;
+    if (this.silenceTimer) {
+      clearInterval(this.silenceTimer);
+      this.silenceTimer = null;
+    }
+    this.meters.forEach(meter => meter.disconnect());
+    this.meters.clear();
+    this.compositor?.close();
+    this.compositor = null;
+    if (this.mixer) {
+      this.mixer.close().catch(e => console.warn("Error closing audio mixer:", e));
+      this.mixer = null;
+    }
+  }
+
+  private releaseSession() {
+    // A session dropped before it finished leaves nothing worth keeping in its file.
+    if (this.sink) {
+      void this.sink.abort();
+      this.sink = null;
+    }
+    const recorder = this.recorder;
+    this.recorder = null;
+    if (recorder && recorder.state !== "inactive") {
+      try {
+        recorder.stop();
+      } catch (e) {
+        console.warn("Error stopping media recorder during cleanup:", e);
+      }
+    }
+    this.releaseStream();
+  }
+
+  private fail(message: string, notice?: RecorderNotice) {
+    this.update({ errorMessage: message });
+    this.transition("error");
+    if (notice) this.events.emit("notice", notice);
+  }
+
+  private transition(next: RecordingStatus) {
+    const previous = this.snapshot.status;
+    if (!canTransition(previous, next)) {
+      throw new InvalidTransitionError(previous, next);
+    }
+    this.update({ status: next });
+    this.events.emit("statechange", { status: next, previous });
+  }
+
+  private update(patch: Partial<RecorderSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.events.emit("change", this.snapshot);
+  }
+}
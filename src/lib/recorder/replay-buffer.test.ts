@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { REPLAY_CHUNK_DURATION_SECONDS, ReplayBuffer } from "./replay-buffer";
+
+/** A chunk whose size doubles as its label. */
+const chunk = (bytes: number) => new Blob([new Uint8Array(bytes)]);
+
+const sizes = (chunks: Blob[]) => chunks.map(c => c.size);
+
+describe("ReplayBuffer", () => {
+  it("holds enough chunks to cover the window, rounding up", () => {
+    expect(new ReplayBuffer(30).capacity).toBe(30 / REPLAY_CHUNK_DURATION_SECONDS);
+    expect(new ReplayBuffer(30, 4).capacity).toBe(8);
+    expect(new ReplayBuffer(1, 5).capacity).toBe(1);
+    expect(new ReplayBuffer(10.5, 0.25).capacity).toBe(42);
+  });
+
+  it("rejects windows and chunk durations that aren't positive", () => {
+    expect(() => new ReplayBuffer(0)).toThrow(RangeError);
+    expect(() => new ReplayBuffer(30, -1)).toThrow(RangeError);
+  });
+
+  it("returns chunks oldest first before it fills up", () => {
+    const buffer = new ReplayBuffer(20, 5);
+    [1, 2, 3].forEach(size => buffer.push(chunk(size)));
+
+    expect(sizes(buffer.chunks())).toEqual([1, 2, 3]);
+    expect(buffer.length).toBe(3);
+    expect(buffer.bufferedSeconds).toBe(15);
+  });
+
+  it("evicts the oldest chunk once full and keeps order across the wrap", () => {
+    const buffer = new ReplayBuffer(15, 5);
+    for (let size = 1; size <= 7; size++) {
+      buffer.push(chunk(size));
+      expect(sizes(buffer.chunks())).toEqual([size - 2, size - 1, size].filter(s => s >= 1));
+    }
+    expect(buffer.length).toBe(3);
+    expect(buffer.bufferedSeconds).toBe(15);
+  });
+
+  it("keeps the first chunk of the session after it leaves the window", () => {
+    const buffer = new ReplayBuffer(10, 5);
+    const init = chunk(100);
+    buffer.push(init);
+    buffer.push(chunk(1));
+    buffer.push(chunk(2));
+
+    expect(sizes(buffer.chunks())).toEqual([1, 2]);
+    expect(buffer.init).toBe(init);
+  });
+
+  it("counts the pinned init chunk once, and stays flat however many chunks are pushed", () => {
+    const buffer = new ReplayBuffer(15, 5);
+    buffer.push(chunk(100));
+    buffer.push(chunk(10));
+    expect(buffer.byteLength).toBe(110);
+
+    buffer.push(chunk(10));
+    buffer.push(chunk(10));
+    // The init chunk has left the ring but is still held.
+    expect(buffer.byteLength).toBe(130);
+
+    for (let i = 0; i < 1000; i++) buffer.push(chunk(10));
+    expect(buffer.byteLength).toBe(130);
+    expect(buffer.length).toBe(3);
+  });
+
+  it("forgets everything on clear, including the init chunk", () => {
+    const buffer = new ReplayBuffer(10, 5);
+    [1, 2, 3].forEach(size => buffer.push(chunk(size)));
+    buffer.clear();
+
+    expect(buffer.chunks()).toEqual([]);
+    expect(buffer.length).toBe(0);
+    expect(buffer.byteLength).toBe(0);
+    expect(buffer.init).toBeNull();
+
+    const next = chunk(4);
+    buffer.push(next);
+    expect(buffer.init).toBe(next);
+    expect(sizes(buffer.chunks())).toEqual([4]);
+  });
+});
@@ -0,0 +1,80 @@
+export const REPLAY_CHUNK_DURATION_MS = 5000; // 5 seconds per chunk
+export const REPLAY_CHUNK_DURATION_SECONDS = REPLAY_CHUNK_DURATION_MS / 1000;
+
+/**
+ * Fixed-capacity ring of recorder chunks backing Instant Replay. Old chunks are
+ * overwritten in place, so memory stays bounded however long capture runs.
+ *
+ * The first chunk a MediaRecorder emits carries the WebM header and track
+ * info, so it is pinned outside the ring for as long as the session runs.
+ */
+export class ReplayBuffer {
+  private readonly slots: (Blob | undefined)[];
+  private next = 0;
+  private size = 0;
+  private initChunk: Blob | null = null;
+  private bytes = 0;
+
+  constructor(
+    readonly windowSeconds: number,
+    readonly chunkSeconds: number = REPLAY_CHUNK_DURATION_SECONDS,
+  ) {
+    if (windowSeconds <= 0 || chunkSeconds <= 0) {
+      throw new RangeError("Replay window and chunk duration must be positive.");
+    }
+    this.slots = new Array(Math.ceil(windowSeconds / chunkSeconds));
+  }
+
+  get capacity(): number {
+    return this.slots.length;
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  /** Seconds of footage currently held in the window. */
+  get bufferedSeconds(): number {
+    return this.size * this.chunkSeconds;
+  }
+
+  /** Bytes held in the ring plus the pinned init chunk when it has left the window. */
+  get byteLength(): number {
+    const initOutsideRing = this.initChunk && !this.slots.includes(this.initChunk);
+    return this.bytes + (initOutsideRing ? this.initChunk!.size : 0);
+  }
+
+  push(chunk: Blob) {
+    if (!this.initChunk) this.initChunk = chunk;
+
+    const evicted = this.slots[this.next];
+    if (evicted) this.bytes -= evicted.size;
+    this.slots[this.next] = chunk;
+    this.bytes += chunk.size;
+    this.next = (this.next + 1) % this.slots.length;
+    this.size = Math.min(this.size + 1, this.slots.length);
+  }
+
+  /** The first chunk of the session, kept even after it leaves the window. */
+  get init(): Blob | null {
+    return this.initChunk;
+  }
+
+  /** Chunks in the window, oldest first. They are contiguous but may not start with the init chunk. */
+  chunks(): Blob[] {
+    const ordered: Blob[] = [];
+    const oldest = (this.next - this.size + this.slots.length) % this.slots.length;
+    for (let i = 0; i < this.size; i++) {
+      ordered.push(this.slots[(oldest + i) % this.slots.length]!);
+    }
+    return ordered;
+  }
+
+  clear() {
+    this.slots.fill(undefined);
+    this.next = 0;
+    this.size = 0;
+    this.bytes = 0;
+    this.initChunk = null;
+  }
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  SHORTCUTS_STORAGE_KEY,
+  actionFor,
+  bindingFromEvent,
+  bindingProblem,
+  defaultBindings,
+  findConflicts,
+  formatBinding,
+  loadBindings,
+  saveBindings,
+  shortcutActions,
+  type ShortcutBindings,
+} from "./shortcuts";
+
+const CLIPS = [
+  { label: "Last 30 Seconds", value: 30 },
+  { label: "Last 1 Minute", value: 60 },
+];
+const DEFAULTS = defaultBindings(shortcutActions(CLIPS));
+
+const press = (code: string, held: Partial<Record<"ctrlKey" | "altKey" | "shiftKey" | "metaKey", boolean>> = {}) => ({
+  code,
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: false,
+  metaKey: false,
+  ...held,
+});
+
+describe("defaultBindings", () => {
+  it("binds every action, numbering the clips in order", () => {
+    expect(DEFAULTS).toEqual({
+      "toggle-recording": "Alt+Shift+KeyR",
+      "toggle-pause": "Alt+Shift+KeyP",
+      "drop-marker": "Alt+Shift+KeyM",
+      "save-clip-30": "Alt+Shift+Digit1",
+      "save-clip-60": "Alt+Shift+Digit2",
+    });
+    expect(findConflicts(DEFAULTS).size).toBe(0);
+  });
+
+  it("leaves clips past the ninth unbound", () => {
+    const clips = Array.from({ length: 10 }, (_, index) => ({ label: `${index + 1}s`, value: index + 1 }));
+    const bindings = defaultBindings(shortcutActions(clips));
+    expect(bindings["save-clip-9"]).toBe("Alt+Shift+Digit9");
+    expect(bindings["save-clip-10"]).toBeNull();
+  });
+});
+
+describe("bindingFromEvent", () => {
+  it("lists modifiers in a fixed order whatever was held", () => {
+    expect(bindingFromEvent(press("KeyR", { shiftKey: true, altKey: true }))).toBe("Alt+Shift+KeyR");
+    expect(bindingFromEvent(press("KeyR", { metaKey: true, shiftKey: true, ctrlKey: true, altKey: true }))).toBe("Ctrl+Alt+Shift+Meta+KeyR");
+    expect(bindingFromEvent(press("F9"))).toBe("F9");
+  });
+
+  it("waits for a key other than a modifier", () => {
+    expect(bindingFromEvent(press("ShiftLeft", { shiftKey: true }))).toBeNull();
+    expect(bindingFromEvent(press("AltRight", { altKey: true, shiftKey: true }))).toBeNull();
+    expect(bindingFromEvent(press("CapsLock"))).toBeNull();
+    expect(bindingFromEvent(press(""))).toBeNull();
+  });
+});
+
+describe("bindingProblem", () => {
+  it("needs Ctrl, Alt or Meta except on function keys", () => {
+    expect(bindingProblem("Shift+KeyR")).not.toBeNull();
+    expect(bindingProblem("KeyR")).not.toBeNull();
+    expect(bindingProblem("Meta+KeyR")).toBeNull();
+    expect(bindingProblem("Shift+F8")).toBeNull();
+    expect(bindingProblem("F25")).not.toBeNull();
+  });
+});
+
+describe("findConflicts", () => {
+  it("maps every action sharing a binding to the others", () => {
+    const bindings: ShortcutBindings = {
+      ...DEFAULTS,
+      "toggle-pause": "Alt+Shift+KeyR",
+      "save-clip-30": "Alt+Shift+KeyR",
+      "save-clip-60": null,
+      "drop-marker": null,
+    };
+    const conflicts = findConflicts(bindings);
+    expect(conflicts.get("toggle-recording")).toEqual(["toggle-pause", "save-clip-30"]);
+    expect(conflicts.get("save-clip-30")).toEqual(["toggle-recording", "toggle-pause"]);
+    // Unbound actions never clash with each other.
+    expect(conflicts.has("drop-marker")).toBe(false);
+    expect(conflicts.has("save-clip-60")).toBe(false);
+  });
+
+  it("resolves a conflicting binding to the first action listed", () => {
+    const bindings: ShortcutBindings = { ...DEFAULTS, "drop-marker": "Alt+Shift+KeyP" };
+    expect(actionFor(bindings, "Alt+Shift+KeyP")).toBe("toggle-pause");
+    expect(actionFor(bindings, "Alt+Shift+KeyX")).toBeNull();
+  });
+});
+
+describe("formatBinding", () => {
+  it("drops the code prefixes", () => {
+    expect(formatBinding("Alt+Shift+KeyR")).toBe("Alt+Shift+R");
+    expect(formatBinding("Ctrl+Digit1")).toBe("Ctrl+1");
+    expect(formatBinding("Alt+ArrowLeft")).toBe("Alt+Left");
+    expect(formatBinding("Alt+Keypad")).toBe("Alt+Keypad");
+  });
+});
+
+describe("loadBindings", () => {
+  const store = new Map<string, string>();
+
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("uses the defaults when nothing was saved", () => {
+    expect(loadBindings(DEFAULTS)).toBe(DEFAULTS);
+  });
+
+  it("round-trips saved bindings, including unbound actions", () => {
+    const custom: ShortcutBindings = { ...DEFAULTS, "toggle-recording": "Ctrl+Alt+KeyS", "save-clip-60": null };
+    saveBindings(custom);
+    expect(loadBindings(DEFAULTS)).toEqual(custom);
+  });
+
+  it("fills actions missing from a partial save with their defaults", () => {
+    store.set(SHORTCUTS_STORAGE_KEY, JSON.stringify({ "toggle-pause": "Meta+KeyP" }));
+    expect(loadBindings(DEFAULTS)).toEqual({ ...DEFAULTS, "toggle-pause": "Meta+KeyP" });
+  });
+
+  it("ignores unknown actions and malformed or unusable entries", () => {
+    store.set(
+      SHORTCUTS_STORAGE_KEY,
+      JSON.stringify({
+        "toggle-recording": 42,
+        "toggle-pause": "KeyP",
+        "drop-marker": { code: "KeyM" },
+        "save-clip-30": null,
+        "save-clip-120": "Alt+KeyX",
+      }),
+    );
+    const bindings = loadBindings(DEFAULTS);
+    expect(bindings).toEqual({ ...DEFAULTS, "save-clip-30": null });
+    expect(bindings).not.toHaveProperty("save-clip-120");
+  });
+
+  it("falls back to the defaults on corrupt data", () => {
+    for (const raw of ["{ not json", "null", "\"Alt+KeyR\"", "[]"]) {
+      store.set(SHORTCUTS_STORAGE_KEY, raw);
+      expect(loadBindings(DEFAULTS)).toEqual(DEFAULTS);
+    }
+  });
+
+  it("falls back to the defaults when storage can't be read", () => {
+    vi.stubGlobal("localStorage", {
+      getItem: () => {
+        throw new DOMException("Access denied", "SecurityError");
+      },
+    });
+    expect(loadBindings(DEFAULTS)).toBe(DEFAULTS);
+  });
+});
@@ -0,0 +1,138 @@
+/** Something a keyboard shortcut can do. Clip actions carry the clip length in seconds. */
+export type ShortcutAction = "toggle-recording" | "toggle-pause" | "drop-marker" | `save-clip-${number}`;
+
+export interface ShortcutActionInfo {
+  action: ShortcutAction;
+  label: string;
+}
+
+/**
+ * A key combination in canonical form: modifiers in a fixed order, then the
+ * physical key code, e.g. "Alt+Shift+KeyR". Codes rather than characters so
+ * Alt and keyboard layouts don't change what a binding matches.
+ */
+export type KeyBinding = string;
+
+/** null leaves an action unbound. */
+export type ShortcutBindings = Record<ShortcutAction, KeyBinding | null>;
+
+const MODIFIERS = ["Ctrl", "Alt", "Shift", "Meta"] as const;
+const MODIFIER_CODES = new Set([
+  "ControlLeft", "ControlRight", "AltLeft", "AltRight", "ShiftLeft", "ShiftRight", "MetaLeft", "MetaRight", "CapsLock",
+]);
+const FUNCTION_KEY = /^F([1-9]|1[0-9]|2[0-4])$/;
+
+/** Combinations browsers or the OS keep for themselves; bound anyway, but flagged. */
+const RESERVED_BINDINGS = new Set<KeyBinding>([
+  "Ctrl+KeyD", "Ctrl+KeyF", "Ctrl+KeyH", "Ctrl+KeyJ", "Ctrl+KeyL", "Ctrl+KeyN", "Ctrl+KeyP", "Ctrl+KeyQ", "Ctrl+KeyR",
+  "Ctrl+KeyS", "Ctrl+KeyT", "Ctrl+KeyW", "Ctrl+Shift+KeyI", "Ctrl+Shift+KeyN", "Ctrl+Shift+KeyT", "Ctrl+Tab",
+  "Meta+KeyN", "Meta+KeyQ", "Meta+KeyR", "Meta+KeyT", "Meta+KeyW", "Alt+F4", "Alt+Tab", "F5", "F11", "F12",
+]);
+
+export const SHORTCUTS_STORAGE_KEY = "screencatcher:shortcuts";
+
+/** Every bindable action: recording, pause, markers, then one per live clip length. */
+export function shortcutActions(clipDurations: { label: string; value: number }[]): ShortcutActionInfo[] {
+  return [
+    { action: "toggle-recording", label: "Start / stop recording" },
+    { action: "toggle-pause", label: "Pause / resume" },
+    { action: "drop-marker", label: "Drop marker" },
+    ...clipDurations.map(({ label, value }) => ({ action: `save-clip-${value}` as const, label: `Save clip: ${label}` })),
+  ];
+}
+
+/** Alt+Shift+R, P and M, then Alt+Shift+1.. for the clips in order. */
+export function defaultBindings(actions: ShortcutActionInfo[]): ShortcutBindings {
+  const bindings = {} as ShortcutBindings;
+  let clip = 0;
+  for (const { action } of actions) {
+    if (action === "toggle-recording") bindings[action] = "Alt+Shift+KeyR";
+    else if (action === "toggle-pause") bindings[action] = "Alt+Shift+KeyP";
+    else if (action === "drop-marker") bindings[action] = "Alt+Shift+KeyM";
+    else bindings[action] = ++clip <= 9 ? `Alt+Shift+Digit${clip}` : null;
+  }
+  return bindings;
+}
+
+/**
+ * The binding a key press stands for, or null while only modifiers are down.
+ * Used both for recording new bindings and for matching presses against them.
+ */
+export function bindingFromEvent(event: Pick<KeyboardEvent, "code" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey">): KeyBinding | null {
+  if (!event.code || MODIFIER_CODES.has(event.code)) return null;
+  const held = [event.ctrlKey, event.altKey, event.shiftKey, event.metaKey];
+  return [...MODIFIERS.filter((_, index) => held[index]), event.code].join("+");
+}
+
+/**
+ * Why a binding can't be used, or null if it can. Anything but a function key
+ * needs Ctrl, Alt or Meta so shortcuts never fire while typing.
+ */
+export function bindingProblem(binding: KeyBinding): string | null {
+  const parts = binding.split("+");
+  const code = parts[parts.length - 1];
+  if (FUNCTION_KEY.test(code)) return null;
+  if (!parts.some(part => part === "Ctrl" || part === "Alt" || part === "Meta")) {
+    return "Add Ctrl, Alt or Meta so the shortcut doesn't fire while typing.";
+  }
+  return null;
+}
+
+export function isReservedBinding(binding: KeyBinding): boolean {
+  return RESERVED_BINDINGS.has(binding);
+}
+
+/** Actions sharing a binding with another action, each mapped to the others it clashes with. */
+export function findConflicts(bindings: ShortcutBindings): Map<ShortcutAction, ShortcutAction[]> {
+  const byBinding = new Map<KeyBinding, ShortcutAction[]>();
+  (Object.keys(bindings) as ShortcutAction[]).forEach(action => {
+    const binding = bindings[action];
+    if (binding) byBinding.set(binding, [...(byBinding.get(binding) ?? []), action]);
+  });
+  const conflicts = new Map<ShortcutAction, ShortcutAction[]>();
+  byBinding.forEach(actions => {
+    if (actions.length < 2) return;
+    actions.forEach(action => conflicts.set(action, actions.filter(other => other !== action)));
+  });
+  return conflicts;
+}
+
+/** The action bound to `binding`. Conflicting bindings resolve to the first action listed. */
+export function actionFor(bindings: ShortcutBindings, binding: KeyBinding): ShortcutAction | null {
+  return (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === binding) ?? null;
+}
+
+/** Human form of a binding, e.g. "Alt+Shift+R". */
+export function formatBinding(binding: KeyBinding): string {
+  return binding
+    .split("+")
+    .map(part => part.replace(/^Key(?=[A-Z]$)/, "").replace(/^Digit(?=\d$)/, "").replace(/^Arrow/, ""))
+    .join("+");
+}
+
+/** Saved bindings over the defaults. Unknown actions and malformed entries are ignored. */
+export function loadBindings(defaults: ShortcutBindings): ShortcutBindings {
+  try {
+    const raw = localStorage.getItem(SHORTCUTS_STORAGE_KEY);
+    if (!raw) return defaults;
+    const saved = JSON.parse(raw) as unknown;
+    if (!saved || typeof saved !== "object") return defaults;
+    const bindings = { ...defaults };
+    (Object.keys(defaults) as ShortcutAction[]).forEach(action => {
+      const value = (saved as Record<string, unknown>)[action];
+      if (value === null || (typeof value === "string" && !bindingProblem(value))) bindings[action] = value;
+    });
+    return bindings;
+  } catch (e) {
+    console.warn("Could not read saved shortcuts, using the defaults:", e);
+    return defaults;
+  }
+}
+
+export function saveBindings(bindings: ShortcutBindings) {
+  try {
+    localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn("Could not save shortcuts:", e);
+  }
+}
@@ -0,0 +1,46 @@
+import { exportAudioWebm } from "@/lib/export/audio-export";
+import { ExportError } from "@/lib/export/export-job";
+
+/**
+ * Largest audio sent for transcription. Base64 adds a third on top, which
+ * has to stay under the server action body limit in next.config.ts.
+ */
+export const MAX_TRANSCRIPTION_AUDIO_BYTES = 14_000_000;
+
+/** A recording that can't be transcribed. The message is shown to the user. */
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptionError";
+  }
+}
+
+/**
+ * The part of a recording sent for transcription: its audio track on its
+ * own where it can be split out, otherwise the whole recording.
+ */
+export async function transcriptionAudio(recording: Blob): Promise<Blob> {
+  let audio = recording;
+  if (!recording.type.startsWith("audio/") && recording.type.includes("webm")) {
+    try {
+      audio = await exportAudioWebm(recording);
+    } catch (e) {
+      // ExportError means the file parsed fine but has no audio to send.
+      if (e instanceof ExportError) throw new TranscriptionError(e.message);
+      console.warn("Could not split out the audio, sending the whole recording:", e);
+    }
+  }
+  if (audio.size > MAX_TRANSCRIPTION_AUDIO_BYTES) {
+    throw new TranscriptionError("The recording is too long to transcribe. Trim it or save a shorter clip first.");
+  }
+  return audio;
+}
+
+export function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
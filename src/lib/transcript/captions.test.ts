@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { TranscriptSegment } from "@/ai/flows/transcribe-recording";
+import {
+  DEFAULT_CAPTION_OPTIONS,
+  cueAt,
+  cuesToSrt,
+  cuesToWebVtt,
+  formatSrtTimestamp,
+  transcriptToCues,
+  type CaptionCue,
+  type CaptionOptions,
+} from "./captions";
+
+const LONG_TEXT =
+  "So the first thing we do is open the settings page, then we pick the recording preset and check that the microphone level looks right before starting.";
+
+/** Cue text with its line breaks undone, to compare against what was said. */
+const spoken = (cues: CaptionCue[]) => cues.map(cue => cue.text.replace(/\n/g, " ")).join(" ");
+
+describe("transcriptToCues", () => {
+  it("splits a long segment into cues no longer than maxCueLength, sharing its time by characters", () => {
+    const cues = transcriptToCues([{ start: 10, end: 20, text: LONG_TEXT }]);
+
+    expect(cues.length).toBe(2);
+    expect(spoken(cues)).toBe(LONG_TEXT);
+    for (const cue of cues) expect(cue.text.replace(/\n/g, " ").length).toBeLessThanOrEqual(DEFAULT_CAPTION_OPTIONS.maxCueLength);
+    expect(cues[0].start).toBe(10);
+    expect(cues.at(-1)!.end).toBeCloseTo(20);
+    // The gap between cues is the space that was cut at.
+    expect(cues[1].start - cues[0].end).toBeCloseTo(10 / LONG_TEXT.length);
+  });
+
+  it("splits a slow segment so no cue stays up much longer than maxCueSeconds", () => {
+    const options: CaptionOptions = { ...DEFAULT_CAPTION_OPTIONS, maxCueSeconds: 6 };
+    const text = "one two three four five six";
+    const cues = transcriptToCues([{ start: 0, end: 20, text }], options);
+
+    expect(cues.map(cue => cue.text)).toEqual(["one two", "three four", "five six"]);
+    [0, 8, 19].forEach((offset, index) => expect(cues[index].start).toBeCloseTo((offset * 20) / text.length));
+    for (const cue of cues) expect(cue.end - cue.start).toBeLessThan(8);
+  });
+
+  it("names speakers only when more than one talks, and only when the speaker changes", () => {
+    const segments: TranscriptSegment[] = [
+      { start: 0, end: 1, text: "Hi there.", speaker: "Speaker 1" },
+      { start: 1, end: 2, text: "Welcome back.", speaker: "Speaker 1" },
+      { start: 2, end: 3, text: "Thanks!", speaker: "Speaker 2" },
+      { start: 3, end: 4, text: "Let's start.", speaker: "Speaker 1" },
+    ];
+    expect(transcriptToCues(segments).map(cue => cue.text)).toEqual([
+      "Speaker 1: Hi there.",
+      "Welcome back.",
+      "Speaker 2: Thanks!",
+      "Speaker 1: Let's start.",
+    ]);
+
+    const alone = segments.map(segment => ({ ...segment, speaker: "Speaker 1" }));
+    expect(transcriptToCues(alone).map(cue => cue.text)).toEqual(["Hi there.", "Welcome back.", "Thanks!", "Let's start."]);
+  });
+
+  it("gives zero-length segments a reading time, and skips empty ones", () => {
+    const cues = transcriptToCues([
+      { start: 5, end: 5, text: "Fifteen chars.." },
+      { start: 7, end: 8, text: "   " },
+    ]);
+    expect(cues).toEqual([{ start: 5, end: 6, text: "Fifteen chars.." }]);
+  });
+
+  it("wraps cues longer than a line at the space nearest the middle", () => {
+    const options: CaptionOptions = { maxLineLength: 20, maxCueLength: 60, maxCueSeconds: 60 };
+    const [wrapped] = transcriptToCues([{ start: 0, end: 1, text: "a bb ccc dddd eeeee ffffff" }], options);
+    expect(wrapped.text).toBe("a bb ccc dddd\neeeee ffffff");
+
+    const [short] = transcriptToCues([{ start: 0, end: 1, text: "Fits on one line." }], options);
+    expect(short.text).toBe("Fits on one line.");
+
+    const [single] = transcriptToCues([{ start: 0, end: 1, text: "Supercalifragilisticexpialidocious" }], options);
+    expect(single.text).toBe("Supercalifragilisticexpialidocious");
+  });
+});
+
+describe("cuesToSrt", () => {
+  it("numbers cues and uses a comma before the milliseconds", () => {
+    const cues: CaptionCue[] = [
+      { start: 0, end: 1.5, text: "First" },
+      { start: 62.345, end: 3723.0004, text: "Two\nlines" },
+    ];
+    expect(cuesToSrt(cues)).toBe("1\n00:00:00,000 --> 00:00:01,500\nFirst\n\n2\n00:01:02,345 --> 01:02:03,000\nTwo\nlines\n");
+    expect(formatSrtTimestamp(0.0005)).toBe("00:00:00,001");
+  });
+});
+
+describe("cuesToWebVtt", () => {
+  it("starts with the header and escapes markup and the cue arrow", () => {
+    const vtt = cuesToWebVtt([{ start: 1, end: 2.25, text: "<b>Tom & Jerry</b> --> next" }]);
+    expect(vtt).toBe("WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.250\n&lt;b&gt;Tom &amp; Jerry&lt;/b&gt; --&gt; next\n");
+  });
+});
+
+describe("cueAt", () => {
+  const cues: CaptionCue[] = [
+    { start: 0, end: 2, text: "a" },
+    { start: 2, end: 4, text: "b" },
+    { start: 5, end: 6, text: "c" },
+  ];
+
+  it("treats cue starts as inclusive and ends as exclusive", () => {
+    expect(cueAt(cues, 0)?.text).toBe("a");
+    expect(cueAt(cues, 1.999)?.text).toBe("a");
+    expect(cueAt(cues, 2)?.text).toBe("b");
+    expect(cueAt(cues, 5)?.text).toBe("c");
+  });
+
+  it("finds nothing in gaps, before the first cue or after the last", () => {
+    expect(cueAt(cues, 4)).toBeNull();
+    expect(cueAt(cues, 4.5)).toBeNull();
+    expect(cueAt(cues, -1)).toBeNull();
+    expect(cueAt(cues, 6)).toBeNull();
+    expect(cueAt([], 0)).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import type { TranscriptSegment } from "@/ai/flows/transcribe-recording";
+import { formatVttTimestamp } from "@/lib/edit/markers";
+import { formatTimecode } from "@/lib/edit/timeline";
+
+/** One caption on screen. Lines are separated by "\n". */
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface CaptionOptions {
+  /** Characters per line before wrapping. */
+  maxLineLength: number;
+  /** Characters per cue, across all its lines. */
+  maxCueLength: number;
+  /** About how many seconds a cue stays up before the rest of the segment moves to the next one. */
+  maxCueSeconds: number;
+}
+
+/** Two lines of 42 characters, the common broadcast guideline, for at most 6 seconds. */
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = { maxLineLength: 42, maxCueLength: 84, maxCueSeconds: 6 };
+
+const READING_CHARS_PER_SECOND = 15;
+
+/**
+ * Splits transcript segments into cues short enough to read. A long segment
+ * is cut at word boundaries and its time shared out by character count,
+ * since the transcript doesn't time individual words. Speaker names start a
+ * speaker's cues when more than one person talks.
+ */
+export function transcriptToCues(segments: readonly TranscriptSegment[], options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): CaptionCue[] {
+  const speakers = new Set(segments.map(segment => segment.speaker).filter(Boolean));
+  const cues: CaptionCue[] = [];
+  let lastSpeaker: string | undefined;
+
+  for (const segment of segments) {
+    const named = speakers.size > 1 && segment.speaker && segment.speaker !== lastSpeaker;
+    lastSpeaker = segment.speaker;
+    const text = `${named ? `${segment.speaker}: ` : ""}${segment.text}`.replace(/\s+/g, " ").trim();
+    if (!text) continue;
+    // Zero-length segments would never show; give them a typical reading time instead.
+    const duration = segment.end > segment.start ? segment.end - segment.start : text.length / READING_CHARS_PER_SECOND;
+    const secondsPerChar = duration / text.length;
+    const timeAt = (offset: number) => segment.start + offset * secondsPerChar;
+
+    let offset = 0;
+    let words: string[] = [];
+    const flush = () => {
+      const cueText = words.join(" ");
+      cues.push({ start: timeAt(offset), end: timeAt(offset + cueText.length), text: wrapLines(cueText, options.maxLineLength) });
+      offset += cueText.length + 1;
+      words = [];
+    };
+    // Cues of about even length, so a long segment doesn't end on a stray word or two.
+    const count = Math.max(Math.ceil(text.length / options.maxCueLength), Math.ceil(duration / options.maxCueSeconds), 1);
+    const target = Math.ceil(text.length / count);
+    for (const word of text.split(" ")) {
+      if (words.length > 0 && [...words, word].join(" ").length > options.maxCueLength) flush();
+      words.push(word);
+      if (words.join(" ").length >= target) flush();
+    }
+    if (words.length > 0) flush();
+  }
+  return cues;
+}
+
+/** Breaks a cue into two lines at the space nearest the middle when it is too long for one. */
+function wrapLines(text: string, maxLineLength: number): string {
+  if (text.length <= maxLineLength) return text;
+  const middle = text.length / 2;
+  let split = -1;
+  for (let index = text.indexOf(" "); index !== -1; index = text.indexOf(" ", index + 1)) {
+    if (split === -1 || Math.abs(index - middle) < Math.abs(split - middle)) split = index;
+  }
+  return split === -1 ? text : `${text.slice(0, split)}\n${text.slice(split + 1)}`;
+}
+
+/** The transcript as plain text, one "[1:02.345] Speaker 1: ..." line per segment. */
+export function transcriptToText(segments: readonly TranscriptSegment[]): string {
+  return segments
+    .map(segment => `[${formatTimecode(segment.start)}] ${segment.speaker ? `${segment.speaker}: ` : ""}${segment.text}`)
+    .join("\n");
+}
+
+/** "00:01:02,345", the timestamp form SRT requires. */
+export function formatSrtTimestamp(seconds: number): string {
+  return formatVttTimestamp(seconds).replace(".", ",");
+}
+
+export function cuesToSrt(cues: readonly CaptionCue[]): string {
+  const blocks = cues.map((cue, index) =>
+    `${index + 1}\n${formatSrtTimestamp(cue.start)} --> ${formatSrtTimestamp(cue.end)}\n${cue.text}`,
+  );
+  return `${blocks.join("\n\n")}\n`;
+}
+
+export function cuesToWebVtt(cues: readonly CaptionCue[]): string {
+  const blocks = cues.map((cue, index) => {
+    // Cue text is parsed for tags and entities, and can't contain the arrow.
+    const text = cue.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    return `${index + 1}\n${formatVttTimestamp(cue.start)} --> ${formatVttTimestamp(cue.end)}\n${text}`;
+  });
+  return `WEBVTT\n\n${blocks.join("\n\n")}\n`;
+}
+
+/** The cue on screen at `time`, if any. Expects cues in time order. */
+export function cueAt(cues: readonly CaptionCue[], time: number): CaptionCue | null {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const cue = cues[middle];
+    if (time < cue.start) high = middle - 1;
+    else if (time >= cue.end) low = middle + 1;
+    else return cue;
+  }
+  return null;
+}
+
+/**
+ * Draws a cue the way players show captions: white text on a dark box,
+ * centred near the bottom, scaled to the frame height.
+ */
+export function drawCaption(context: OffscreenCanvasRenderingContext2D, cue: CaptionCue) {
+  const { width, height } = context.canvas;
+  const fontSize = Math.max(12, Math.round(height * 0.045));
+  const lineHeight = Math.round(fontSize * 1.25);
+  const padding = Math.round(fontSize * 0.35);
+  const lines = cue.text.split("\n");
+
+  context.save();
+  context.font = `600 ${fontSize}px system-ui, sans-serif`;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  const boxWidth = Math.min(width, Math.max(...lines.map(line => context.measureText(line).width)) + padding * 2);
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const top = height - Math.round(height * 0.06) - boxHeight;
+
+  context.fillStyle = "rgba(0, 0, 0, 0.75)";
+  context.fillRect((width - boxWidth) / 2, top, boxWidth, boxHeight);
+  context.fillStyle = "#fff";
+  lines.forEach((line, index) => context.fillText(line, width / 2, top + padding + lineHeight * (index + 0.5)));
+  context.restore();
+}
@@ -0,0 +1,152 @@
+export type AnnotationTool = "pen" | "highlighter" | "arrow" | "rectangle" | "text";
+
+/** A position on the frame, 0..1 on both axes, so strokes survive any change of resolution. */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+interface AnnotationBase {
+  id: number;
+  color: string;
+  /** Set when the user lets go; the clear-after timer counts from here. */
+  finishedAt: number | null;
+}
+
+export type Annotation =
+  | (AnnotationBase & { tool: "pen" | "highlighter"; points: Point[] })
+  | (AnnotationBase & { tool: "arrow" | "rectangle"; from: Point; to: Point })
+  | (AnnotationBase & { tool: "text"; at: Point; text: string });
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export const ANNOTATION_COLORS = ["#ef4444", "#f59e0b", "#22c55e", "#3b82f6", "#ffffff"];
+export const ANNOTATION_CLEAR_AFTER_OPTIONS = [
+  { value: 0, label: "Never" },
+  { value: 3, label: "After 3s" },
+  { value: 5, label: "After 5s" },
+  { value: 10, label: "After 10s" },
+];
+
+// Stroke widths and text size as fractions of the frame height.
+const STROKE_WIDTH = 0.005;
+const HIGHLIGHTER_WIDTH = 0.025;
+const TEXT_SIZE = 0.04;
+const HIGHLIGHTER_ALPHA = 0.35;
+
+/**
+ * The annotations drawn during a recording. The drawing surface writes to it
+ * and both the surface and the compositor draw from it, so what the user
+ * sees is what gets recorded.
+ */
+export class AnnotationLayer {
+  private items: Annotation[] = [];
+  private nextId = 1;
+  /** Finished annotations disappear after this many seconds. 0 keeps them until cleared. */
+  clearAfterSeconds = 0;
+
+  get annotations(): readonly Annotation[] {
+    return this.items;
+  }
+
+  /** Starts an annotation and returns its id for `update` and `finish`. */
+  begin(annotation: DistributiveOmit<Annotation, "id" | "finishedAt">): number {
+    const id = this.nextId++;
+    this.items.push({ ...annotation, id, finishedAt: null } as Annotation);
+    return id;
+  }
+
+  /** Extends a pen or highlighter stroke, or moves the far end of an arrow or rectangle. */
+  update(id: number, point: Point) {
+    const item = this.items.find(annotation => annotation.id === id);
+    if (!item) return;
+    if (item.tool === "pen" || item.tool === "highlighter") item.points.push(point);
+    else if (item.tool === "arrow" || item.tool === "rectangle") item.to = point;
+  }
+
+  finish(id: number, now = Date.now()) {
+    const item = this.items.find(annotation => annotation.id === id);
+    if (item) item.finishedAt = now;
+  }
+
+  undo() {
+    this.items.pop();
+  }
+
+  clear() {
+    this.items = [];
+  }
+
+  /** Drops annotations whose clear-after time has passed. */
+  prune(now = Date.now()) {
+    if (this.clearAfterSeconds <= 0) return;
+    const cutoff = now - this.clearAfterSeconds * 1000;
+    this.items = this.items.filter(item => item.finishedAt === null || item.finishedAt > cutoff);
+  }
+
+  /** Draws every annotation onto a `width`×`height` frame. */
+  draw(context: CanvasRenderingContext2D, width: number, height: number, now = Date.now()) {
+    this.prune(now);
+    for (const item of this.items) drawAnnotation(context, item, width, height);
+  }
+}
+
+function drawAnnotation(context: CanvasRenderingContext2D, item: Annotation, width: number, height: number) {
+  const px = (point: Point): [number, number] => [point.x * width, point.y * height];
+  context.save();
+  context.strokeStyle = item.color;
+  context.fillStyle = item.color;
+  context.lineWidth = Math.max(1, STROKE_WIDTH * height);
+  context.lineCap = "round";
+  context.lineJoin = "round";
+
+  switch (item.tool) {
+    case "highlighter":
+      context.globalAlpha = HIGHLIGHTER_ALPHA;
+      context.lineWidth = HIGHLIGHTER_WIDTH * height;
+      context.lineCap = "butt";
+    // falls through
+    case "pen": {
+      context.beginPath();
+      item.points.forEach((point, index) => (index === 0 ? context.moveTo(...px(point)) : context.lineTo(...px(point))));
+      if (item.points.length === 1) context.lineTo(...px(item.points[0]));
+      context.stroke();
+      break;
+    }
+    case "rectangle": {
+      const [x1, y1] = px(item.from);
+      const [x2, y2] = px(item.to);
+      context.strokeRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+      break;
+    }
+    case "arrow": {
+      const [x1, y1] = px(item.from);
+      const [x2, y2] = px(item.to);
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = context.lineWidth * 4;
+      context.beginPath();
+      context.moveTo(x1, y1);
+      context.lineTo(x2, y2);
+      context.stroke();
+      context.beginPath();
+      context.moveTo(x2, y2);
+      context.lineTo(x2 - head * Math.cos(angle - Math.PI / 6), y2 - head * Math.sin(angle - Math.PI / 6));
+      context.lineTo(x2 - head * Math.cos(angle + Math.PI / 6), y2 - head * Math.sin(angle + Math.PI / 6));
+      context.closePath();
+      context.fill();
+      break;
+    }
+    case "text": {
+      const size = TEXT_SIZE * height;
+      context.font = `600 ${size}px system-ui, sans-serif`;
+      context.textBaseline = "top";
+      // A dark outline keeps light text readable on light content.
+      context.lineWidth = size / 8;
+      context.strokeStyle = "rgba(0, 0, 0, 0.6)";
+      context.strokeText(item.text, ...px(item.at));
+      context.fillText(item.text, ...px(item.at));
+      break;
+    }
+  }
+  context.restore();
+}
@@ -0,0 +1,120 @@
+export type OverlayPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+export type OverlayShape = "circle" | "rounded";
+
+export interface CameraOverlaySettings {
+  position: OverlayPosition;
+  /** Overlay height as a fraction of the frame height. */
+  size: number;
+  shape: OverlayShape;
+  /** Border thickness in pixels at 1080p, scaled with the frame. 0 for none. */
+  borderWidth: number;
+  borderColor: string;
+}
+
+export const DEFAULT_CAMERA_OVERLAY_SETTINGS: CameraOverlaySettings = {
+  position: "bottom-right",
+  size: 0.28,
+  shape: "circle",
+  borderWidth: 6,
+  borderColor: "#ffffff",
+};
+
+export const OVERLAY_POSITION_OPTIONS: { value: OverlayPosition; label: string }[] = [
+  { value: "top-left", label: "Top left" },
+  { value: "top-right", label: "Top right" },
+  { value: "bottom-left", label: "Bottom left" },
+  { value: "bottom-right", label: "Bottom right" },
+];
+export const OVERLAY_SIZE_OPTIONS = [
+  { value: 0.2, label: "Small" },
+  { value: 0.28, label: "Medium" },
+  { value: 0.38, label: "Large" },
+];
+export const OVERLAY_SHAPE_OPTIONS: { value: OverlayShape; label: string }[] = [
+  { value: "circle", label: "Circle" },
+  { value: "rounded", label: "Rounded rectangle" },
+];
+export const OVERLAY_BORDER_OPTIONS = [
+  { value: 0, label: "None" },
+  { value: 3, label: "Thin" },
+  { value: 6, label: "Medium" },
+  { value: 12, label: "Thick" },
+];
+export const OVERLAY_BORDER_COLOR_OPTIONS = [
+  { value: "#ffffff", label: "White" },
+  { value: "#000000", label: "Black" },
+  { value: "#8b5cf6", label: "Violet" },
+  { value: "#f59e0b", label: "Amber" },
+];
+
+export interface OverlayRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MARGIN = 0.03;
+
+/** Where the camera goes on a `frameWidth`×`frameHeight` frame. Circles are square; rectangles keep the camera's aspect. */
+export function overlayRect(
+  frameWidth: number,
+  frameHeight: number,
+  cameraAspect: number,
+  { position, size, shape }: CameraOverlaySettings,
+): OverlayRect {
+  const height = Math.round(frameHeight * size);
+  const width = shape === "circle" ? height : Math.min(Math.round(height * cameraAspect), frameWidth);
+  const margin = Math.round(frameHeight * MARGIN);
+  const x = position.endsWith("left") ? margin : frameWidth - width - margin;
+  const y = position.startsWith("top") ? margin : frameHeight - height - margin;
+  return { x, y, width, height };
+}
+
+/** Draws the camera onto a `width`×`height` frame in the shape, place and border the settings ask for. */
+export function drawCameraOverlay(
+  context: CanvasRenderingContext2D,
+  camera: HTMLVideoElement,
+  settings: CameraOverlaySettings,
+  width: number,
+  height: number,
+) {
+  if (camera.videoWidth === 0 || camera.videoHeight === 0) return;
+  const rect = overlayRect(width, height, camera.videoWidth / camera.videoHeight, settings);
+
+  context.save();
+  context.beginPath();
+  if (settings.shape === "circle") {
+    context.arc(rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width / 2, 0, Math.PI * 2);
+  } else {
+    context.roundRect(rect.x, rect.y, rect.width, rect.height, Math.round(rect.height * 0.12));
+  }
+  context.clip();
+  drawCover(context, camera, rect);
+  context.restore();
+
+  const borderWidth = (settings.borderWidth * height) / 1080;
+  if (borderWidth > 0) {
+    context.lineWidth = borderWidth;
+    context.strokeStyle = settings.borderColor;
+    context.stroke();
+  }
+}
+
+/** Draws `video` scaled to fill `rect`, cropping the overflow evenly from both sides. */
+function drawCover(context: CanvasRenderingContext2D, video: HTMLVideoElement, rect: OverlayRect) {
+  const scale = Math.max(rect.width / video.videoWidth, rect.height / video.videoHeight);
+  const sourceWidth = rect.width / scale;
+  const sourceHeight = rect.height / scale;
+  context.drawImage(
+    video,
+    (video.videoWidth - sourceWidth) / 2,
+    (video.videoHeight - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+  );
+}
@@ -0,0 +1,180 @@
+import { drawCameraOverlay, type CameraOverlaySettings } from "./camera-overlay";
+import type { AnnotationLayer } from "./annotations";
+import { fitInto, layoutTiles, type SourceLayout } from "./layout";
+import { regionToPixels, type Region } from "./region";
+
+/** What gets drawn over the screen capture. Each layer is optional. */
+export interface CompositorLayers {
+  /** How the screens share the frame once more than one is captured. */
+  layout: SourceLayout;
+  camera: MediaStream | null;
+  cameraOverlay: CameraOverlaySettings;
+  annotations: AnnotationLayer | null;
+  /** The part of the surface being recorded. Annotations are placed relative to the whole surface. */
+  region: Region;
+  /**
+   * True when the compositor has to cut `region` out of the primary screen
+   * itself; false when that track arrives already cropped. A canvas crop
+   * keeps the output size of the first region and fits later regions into it.
+   */
+  cropOnCanvas: boolean;
+}
+
+// Page timers are throttled hard while the tab is hidden, which is exactly
+// when a screen recording is usually running; worker timers are not.
+const TICKER_SOURCE = "let id;onmessage=e=>{clearInterval(id);if(e.data>0)id=setInterval(()=>postMessage(0),e.data)}";
+
+interface Ticker {
+  stop(): void;
+}
+
+function startTicker(intervalMs: number, onTick: () => void): Ticker {
+  try {
+    const url = URL.createObjectURL(new Blob([TICKER_SOURCE], { type: "text/javascript" }));
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.onmessage = onTick;
+    worker.postMessage(intervalMs);
+    return { stop: () => worker.terminate() };
+  } catch (e) {
+    console.warn("Worker timer unavailable, composited frames may stall while the tab is hidden:", e);
+    const id = setInterval(onTick, intervalMs);
+    return { stop: () => clearInterval(id) };
+  }
+}
+
+function stopVideo(video: HTMLVideoElement) {
+  video.pause();
+  video.srcObject = null;
+}
+
+function playStream(stream: MediaStream): HTMLVideoElement {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  video.play().catch(e => console.warn("Could not play a compositor source:", e));
+  return video;
+}
+
+interface ScreenInput {
+  stream: MediaStream;
+  video: HTMLVideoElement;
+}
+
+/**
+ * Canvas pipeline that lays out one or more screen captures, draws the webcam
+ * and annotations over them and exposes the result as a single video track
+ * for MediaRecorder. Screens and layers can change mid-recording; a camera
+ * that goes away just disappears from the frame. The first screen is the
+ * primary one: the region and annotations apply to it.
+ */
+export class VideoCompositor {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly context: CanvasRenderingContext2D;
+  private screens: ScreenInput[];
+  private readonly camera: HTMLVideoElement | null;
+  private readonly output: MediaStreamTrack;
+  private readonly ticker: Ticker;
+  private outputSize: { width: number; height: number } | null = null;
+
+  constructor(primary: MediaStream, private readonly layers: CompositorLayers, frameRate: number) {
+    this.canvas = document.createElement("canvas");
+    const context = this.canvas.getContext("2d", { alpha: false });
+    if (!context) throw new Error("2D canvas is not available.");
+    this.context = context;
+    this.screens = [{ stream: primary, video: playStream(primary) }];
+    this.camera = layers.camera ? playStream(layers.camera) : null;
+    this.output = this.canvas.captureStream(frameRate).getVideoTracks()[0];
+    this.ticker = startTicker(1000 / frameRate, this.draw);
+  }
+
+  /** The composited track to hand to MediaRecorder. */
+  get track(): MediaStreamTrack {
+    return this.output;
+  }
+
+  get screenCount(): number {
+    return this.screens.length;
+  }
+
+  /** Adds a screen to the layout. Takes effect on the next frame. */
+  addScreen(stream: MediaStream) {
+    this.screens.push({ stream, video: playStream(stream) });
+  }
+
+  /** Drops a screen from the layout; the next one is promoted if it was the primary. */
+  removeScreen(stream: MediaStream) {
+    const input = this.screens.find(screen => screen.stream === stream);
+    if (!input) return;
+    stopVideo(input.video);
+    this.screens = this.screens.filter(screen => screen !== input);
+  }
+
+  updateLayout(layout: SourceLayout) {
+    this.layers.layout = layout;
+  }
+
+  /** Moves the recorded region. Takes effect on the next frame. */
+  updateRegion(region: Region) {
+    this.layers.region = region;
+  }
+
+  /** Changes the camera's position, size, shape or border. Takes effect on the next frame. */
+  updateCameraOverlay(patch: Partial<CameraOverlaySettings>) {
+    this.layers.cameraOverlay = { ...this.layers.cameraOverlay, ...patch };
+  }
+
+  close() {
+    this.ticker.stop();
+    this.output.stop();
+    this.screens.forEach(screen => stopVideo(screen.video));
+    if (this.camera) stopVideo(this.camera);
+  }
+
+  private draw = () => {
+    const { screens, camera, canvas, context, layers } = this;
+    const screen = screens[0]?.video;
+    if (!screen || screen.videoWidth === 0 || screen.videoHeight === 0) return;
+    const { region } = layers;
+    const source = layers.cropOnCanvas
+      ? regionToPixels(region, screen.videoWidth, screen.videoHeight)
+      : { x: 0, y: 0, width: screen.videoWidth, height: screen.videoHeight };
+    // Once cropping or combining screens the output keeps its first size; otherwise
+    // it follows the surface when that is resized mid-recording.
+    if (layers.cropOnCanvas || screens.length > 1) this.outputSize ??= { width: source.width, height: source.height };
+    const size = this.outputSize ?? source;
+    if (canvas.width !== size.width || canvas.height !== size.height) {
+      canvas.width = size.width;
+      canvas.height = size.height;
+    }
+
+    const tiles = layoutTiles(layers.layout, screens.length, canvas.width, canvas.height);
+    const target = fitInto(source.width / source.height, tiles[0]);
+    if (screens.length > 1 || target.width !== canvas.width || target.height !== canvas.height) {
+      context.fillStyle = "#000";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(screen, source.x, source.y, source.width, source.height, target.x, target.y, target.width, target.height);
+    screens.slice(1).forEach(({ video }, index) => {
+      if (video.videoWidth === 0 || video.videoHeight === 0) return;
+      const tile = fitInto(video.videoWidth / video.videoHeight, tiles[index + 1]);
+      context.drawImage(video, tile.x, tile.y, tile.width, tile.height);
+    });
+
+    const cameraLive = layers.camera?.getVideoTracks().some(track => track.readyState === "live");
+    if (camera && cameraLive) drawCameraOverlay(context, camera, layers.cameraOverlay, canvas.width, canvas.height);
+    if (layers.annotations) {
+      // Lay the whole surface out around the region so annotations line up with the uncropped preview.
+      const surfaceWidth = target.width / region.width;
+      const surfaceHeight = target.height / region.height;
+      context.save();
+      context.beginPath();
+      context.rect(target.x, target.y, target.width, target.height);
+      context.clip();
+      context.translate(target.x - region.x * surfaceWidth, target.y - region.y * surfaceHeight);
+      layers.annotations.draw(context, surfaceWidth, surfaceHeight);
+      context.restore();
+    }
+  };
+}
@@ -0,0 +1,76 @@
+/** A still from a recording, as sent to the describe flow. */
+export interface Keyframe {
+  /** Seconds from the start of the recording. */
+  time: number;
+  imageDataUri: string;
+}
+
+const JPEG_QUALITY = 0.7;
+
+function once(target: EventTarget, type: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(type, handleEvent);
+      target.removeEventListener("error", handleError);
+    };
+    const handleEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error(`The recording couldn't be read while waiting for "${type}".`));
+    };
+    target.addEventListener(type, handleEvent);
+    target.addEventListener("error", handleError);
+  });
+}
+
+/**
+ * Grabs `count` frames spread evenly across a recording by seeking a video
+ * element, so only those frames are decoded. Frames wider than `maxWidth`
+ * are scaled down.
+ */
+export async function sampleKeyframes(recording: Blob, count: number, maxWidth = 640): Promise<Keyframe[]> {
+  const video = document.createElement("video");
+  const url = URL.createObjectURL(recording);
+  video.muted = true;
+  video.preload = "auto";
+  try {
+    const loaded = once(video, "loadeddata");
+    video.src = url;
+    await loaded;
+
+    let duration = video.duration;
+    if (!Number.isFinite(duration)) {
+      // Unfinalized WebM reports Infinity until the end has been seen; seeking far past it makes the browser find it.
+      const found = once(video, "durationchange");
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      await found;
+      duration = video.duration;
+    }
+    if (!Number.isFinite(duration) || duration <= 0 || !video.videoWidth) return [];
+
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const context = canvas.getContext("2d");
+    if (!context) return [];
+
+    const keyframes: Keyframe[] = [];
+    for (let index = 0; index < count; index++) {
+      const time = ((index + 0.5) / count) * duration;
+      const seeked = once(video, "seeked");
+      video.currentTime = time;
+      await seeked;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      keyframes.push({ time: Math.round(time * 10) / 10, imageDataUri: canvas.toDataURL("image/jpeg", JPEG_QUALITY) });
+    }
+    return keyframes;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,59 @@
+import type { PixelRect } from "./region";
+
+/** How several captured screens share one recorded frame. */
+export type SourceLayout = "side-by-side" | "stacked" | "pip";
+
+export const DEFAULT_SOURCE_LAYOUT: SourceLayout = "side-by-side";
+
+export const SOURCE_LAYOUT_OPTIONS: { value: SourceLayout; label: string }[] = [
+  { value: "side-by-side", label: "Side by side" },
+  { value: "stacked", label: "Stacked" },
+  { value: "pip", label: "Picture-in-picture" },
+];
+
+// Picture-in-picture insets, as a fraction of the frame, and their gap from the edge.
+const PIP_SIZE = 0.3;
+const PIP_MARGIN = 0.03;
+
+/**
+ * The tile each of `count` screens is drawn into, primary first. Side by side
+ * and stacked split the frame evenly; picture-in-picture gives the primary the
+ * whole frame and stacks the others down the right-hand edge.
+ */
+export function layoutTiles(layout: SourceLayout, count: number, width: number, height: number): PixelRect[] {
+  if (count <= 1) return [{ x: 0, y: 0, width, height }];
+  switch (layout) {
+    case "side-by-side": {
+      const tileWidth = Math.floor(width / count);
+      return Array.from({ length: count }, (_, index) => ({ x: index * tileWidth, y: 0, width: tileWidth, height }));
+    }
+    case "stacked": {
+      const tileHeight = Math.floor(height / count);
+      return Array.from({ length: count }, (_, index) => ({ x: 0, y: index * tileHeight, width, height: tileHeight }));
+    }
+    case "pip": {
+      const insetWidth = Math.round(width * PIP_SIZE);
+      const insetHeight = Math.round(height * PIP_SIZE);
+      const margin = Math.round(height * PIP_MARGIN);
+      const insets = Array.from({ length: count - 1 }, (_, index) => ({
+        x: width - insetWidth - margin,
+        y: margin + index * (insetHeight + margin),
+        width: insetWidth,
+        height: insetHeight,
+      }));
+      return [{ x: 0, y: 0, width, height }, ...insets];
+    }
+  }
+}
+
+/** The largest rectangle of `aspect` that fits inside `tile`, centred. */
+export function fitInto(aspect: number, tile: PixelRect): PixelRect {
+  const fitted = aspect > tile.width / tile.height
+    ? { width: tile.width, height: Math.round(tile.width / aspect) }
+    : { width: Math.round(tile.height * aspect), height: tile.height };
+  return {
+    x: tile.x + Math.round((tile.width - fitted.width) / 2),
+    y: tile.y + Math.round((tile.height - fitted.height) / 2),
+    ...fitted,
+  };
+}
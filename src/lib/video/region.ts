@@ -0,0 +1,96 @@
+/** A rectangle of the captured surface, 0..1 on both axes. */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A rectangle in pixels. */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_REGION: Region = { x: 0, y: 0, width: 1, height: 1 };
+
+/** Smallest region side, so a stray click can't collapse the recording to nothing. */
+export const MIN_REGION_SIDE = 0.05;
+
+export function isFullRegion(region: Region): boolean {
+  return region.x <= 0 && region.y <= 0 && region.width >= 1 && region.height >= 1;
+}
+
+/** Keeps a region inside the surface and at least MIN_REGION_SIDE on each side. */
+export function clampRegion({ x, y, width, height }: Region): Region {
+  const w = Math.min(1, Math.max(MIN_REGION_SIDE, width));
+  const h = Math.min(1, Math.max(MIN_REGION_SIDE, height));
+  return { x: Math.min(1 - w, Math.max(0, x)), y: Math.min(1 - h, Math.max(0, y)), width: w, height: h };
+}
+
+/** The region in source pixels, rounded to even sizes since most video encoders need them. */
+export function regionToPixels(region: Region, sourceWidth: number, sourceHeight: number): PixelRect {
+  const width = Math.max(2, Math.round((region.width * sourceWidth) / 2) * 2);
+  const height = Math.max(2, Math.round((region.height * sourceHeight) / 2) * 2);
+  const x = Math.min(sourceWidth - width, Math.round(region.x * sourceWidth));
+  const y = Math.min(sourceHeight - height, Math.round(region.y * sourceHeight));
+  return { x: Math.max(0, x), y: Math.max(0, y), width, height };
+}
+
+// Lets a capture of this very tab be recognised, which is when Region Capture can crop at the source.
+const SELF_CAPTURE_HANDLE = `screencatcher-${Math.random().toString(36).slice(2)}`;
+
+/** Marks this page so its own tab can be recognised in a capture. Call before asking for display media. */
+export function exposeSelfCaptureHandle() {
+  try {
+    navigator.mediaDevices.setCaptureHandleConfig?.({ handle: SELF_CAPTURE_HANDLE, permittedOrigins: [location.origin] });
+  } catch (e) {
+    console.info("Capture handle unavailable:", e);
+  }
+}
+
+/** Crops a capture at the source. Moving the region takes effect on the next frame the browser delivers. */
+export interface SourceCropper {
+  apply(region: Region): Promise<void>;
+  dispose(): void;
+}
+
+/**
+ * Region Capture for a capture of this tab: an invisible fixed element is laid
+ * over the region and the track is cropped to it. Returns null for any other
+ * surface or where `cropTo` is unsupported; those are cropped on a canvas.
+ */
+export async function createTabCropper(track: MediaStreamTrack): Promise<SourceCropper | null> {
+  if (typeof CropTarget === "undefined" || !track.cropTo) return null;
+  if (track.getCaptureHandle?.()?.handle !== SELF_CAPTURE_HANDLE) return null;
+
+  const target = document.createElement("div");
+  target.setAttribute("aria-hidden", "true");
+  // Left transparent rather than hidden: Region Capture stops delivering frames for elements that aren't rendered.
+  Object.assign(target.style, { position: "fixed", pointerEvents: "none", zIndex: "-1" });
+  document.body.appendChild(target);
+  const place = (region: Region) => {
+    // Tab capture delivers the viewport, so region fractions map straight onto it.
+    Object.assign(target.style, {
+      left: `${region.x * 100}vw`,
+      top: `${region.y * 100}vh`,
+      width: `${region.width * 100}vw`,
+      height: `${region.height * 100}vh`,
+    });
+  };
+
+  try {
+    place(FULL_REGION);
+    await track.cropTo(await CropTarget.fromElement(target));
+  } catch (e) {
+    console.warn("Region Capture failed, cropping on a canvas instead:", e);
+    target.remove();
+    return null;
+  }
+  return {
+    apply: async region => place(region),
+    dispose: () => target.remove(),
+  };
+}
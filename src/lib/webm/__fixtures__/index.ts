@@ -0,0 +1,54 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { EbmlId, UNKNOWN_SIZE, children, readElementHeader } from "../ebml";
+import { parseHeader } from "../parser";
+
+/**
+ * Live-style WebM recordings for the parser tests, made with ffmpeg's WebM
+ * muxer in live mode (unknown-size Segment, no Duration, Cues or SeekHead):
+ *
+ *   live-vp8-opus.webm  4s testsrc 64x36@10fps VP8 (-g 10) + 440Hz Opus
+ *   live-opus.webm      3s 440Hz Opus only
+ *
+ * e.g. `ffmpeg -f lavfi -i testsrc=size=64x36:rate=10 -f lavfi -i sine=frequency=440
+ * -t 4 -c:v libvpx -g 10 -c:a libopus -f webm -live 1 -cluster_time_limit 1000 out.webm`
+ */
+export function loadFixture(name: "live-vp8-opus.webm" | "live-opus.webm"): Uint8Array {
+  return new Uint8Array(readFileSync(path.join(__dirname, name)));
+}
+
+/** Splits a recording at arbitrary byte offsets, the way MediaRecorder hands out chunks. */
+export function toChunks(bytes: Uint8Array, chunkSize: number, mimeType = "video/webm"): Blob[] {
+  const chunks: Blob[] = [];
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    chunks.push(new Blob([bytes.slice(offset, offset + chunkSize)], { type: mimeType }));
+  }
+  return chunks;
+}
+
+/** A copy with every Cluster's size rewritten to unknown, as Chrome's MediaRecorder writes them. */
+export function withUnknownClusterSizes(bytes: Uint8Array): Uint8Array {
+  const copy = bytes.slice();
+  let offset = parseHeader(bytes).firstClusterOffset;
+  while (offset < bytes.length) {
+    const header = readElementHeader(bytes, offset);
+    if (!header || header.size === UNKNOWN_SIZE) break;
+    if (header.id === EbmlId.Cluster) {
+      const sizeStart = offset + 4;
+      copy[sizeStart] = 0xff >> (header.dataStart - sizeStart - 1);
+      copy.fill(0xff, sizeStart + 1, header.dataStart);
+    }
+    offset = header.dataStart + header.size;
+  }
+  return copy;
+}
+
+/** The EBML header and Segment of a complete file, plus the Segment's children. */
+export function readSegment(bytes: Uint8Array) {
+  const ebml = readElementHeader(bytes, 0);
+  if (!ebml || ebml.id !== EbmlId.EBML) throw new Error("No EBML header");
+  const segment = readElementHeader(bytes, ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== EbmlId.Segment) throw new Error("No Segment");
+  const end = segment.size === UNKNOWN_SIZE ? bytes.length : segment.dataStart + segment.size;
+  return { ebml, segment, elements: [...children(bytes, segment.dataStart, end)] };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { EbmlId, encodeElement, encodeUintElement } from "./ebml";
+import { createStandaloneClip } from "./clip";
+import { parseClusters, parseHeader } from "./parser";
+import { loadFixture, readSegment, toChunks, withUnknownClusterSizes } from "./__fixtures__";
+
+const recording = withUnknownClusterSizes(loadFixture("live-vp8-opus.webm"));
+const header = parseHeader(recording);
+
+async function bytesOf(blob: Blob) {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe("createStandaloneClip", () => {
+  it("starts a clip cut mid-stream on a keyframe, with the header and Tracks", async () => {
+    const chunks = toChunks(recording, 1500);
+    const clip = await createStandaloneClip({ initChunk: chunks[0], chunks, durationSeconds: 1.5, chunkSeconds: 0.25, mimeType: "video/webm" });
+    expect(clip).not.toBeNull();
+    const bytes = await bytesOf(clip!);
+
+    const { ebml, segment, elements } = readSegment(bytes);
+    expect(bytes.subarray(0, ebml.dataStart + ebml.size)).toEqual(header.ebmlHeader);
+    expect(segment.dataStart + segment.size).toBe(bytes.length);
+    const tracks = elements.find(element => element.id === EbmlId.Tracks)!;
+    expect(bytes.subarray(tracks.start, tracks.dataStart + tracks.size)).toEqual(header.tracks);
+
+    const clipHeader = parseHeader(bytes);
+    const blocks = parseClusters(bytes, clipHeader.firstClusterOffset).flatMap(cluster => cluster.blocks);
+    const video = blocks.filter(block => block.track === 1);
+    expect(video[0]).toMatchObject({ keyframe: true, time: 0 });
+    // The last 1.5s reach back to the keyframe at 2s, so the clip holds 2s of video.
+    expect(video).toHaveLength(20);
+    expect(blocks.every(block => block.time >= 0)).toBe(true);
+  });
+
+  it("cuts from chunks that no longer include the init chunk", async () => {
+    const chunks = toChunks(recording, 1500);
+    const clip = await createStandaloneClip({ initChunk: chunks[0], chunks: chunks.slice(6), durationSeconds: 0.5, chunkSeconds: 0.25, mimeType: "video/webm" });
+    const bytes = await bytesOf(clip!);
+    const video = parseClusters(bytes, parseHeader(bytes).firstClusterOffset)
+      .flatMap(cluster => cluster.blocks)
+      .filter(block => block.track === 1);
+    expect(video[0]).toMatchObject({ keyframe: true, time: 0 });
+    expect(video).toHaveLength(10);
+  });
+
+  it("cuts audio-only recordings on the audio track", async () => {
+    const audio = withUnknownClusterSizes(loadFixture("live-opus.webm"));
+    const chunks = toChunks(audio, 1000, "audio/webm");
+    const clip = await createStandaloneClip({ initChunk: chunks[0], chunks, durationSeconds: 1, mimeType: "audio/webm" });
+    expect(clip?.type).toBe("audio/webm");
+    const bytes = await bytesOf(clip!);
+    const blocks = parseClusters(bytes, parseHeader(bytes).firstClusterOffset).flatMap(cluster => cluster.blocks);
+    expect(blocks[0].time).toBe(0);
+    expect(blocks.at(-1)!.time).toBeGreaterThanOrEqual(1000);
+  });
+
+  it("returns null when no chunk holds a keyframe", async () => {
+    const init = new Blob([recording.subarray(0, header.firstClusterOffset)]);
+    // Track 1, relative timecode 0, no keyframe flag.
+    const deltaFrame = encodeElement(EbmlId.SimpleBlock, new Uint8Array([0x81, 0, 0, 0, ...new Array(16).fill(0)]));
+    const cluster = encodeElement(EbmlId.Cluster, [encodeUintElement(EbmlId.Timecode, 5000), deltaFrame, deltaFrame]);
+    const clip = await createStandaloneClip({ initChunk: init, chunks: [init, new Blob([cluster])], durationSeconds: 1, mimeType: "video/webm" });
+    expect(clip).toBeNull();
+  });
+});
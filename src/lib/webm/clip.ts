@@ -0,0 +1,82 @@
+import { concatBytes } from "./ebml";
+import { parseClusters, parseHeader, primaryTrack, type WebmBlock, type WebmCluster } from "./parser";
+import { writeWebm } from "./writer";
+
+export interface StandaloneClipOptions {
+  /** The first chunk the recorder emitted, holding the WebM header and track info. */
+  initChunk: Blob;
+  /** Contiguous run of recorder chunks, oldest first. May or may not start with `initChunk`. */
+  chunks: readonly Blob[];
+  /** Length of the clip, measured back from the newest footage. */
+  durationSeconds: number;
+  /** Approximate duration of one chunk, used to guess how much data to parse. */
+  chunkSeconds?: number;
+  mimeType: string;
+}
+
+async function toBytes(blobs: readonly Blob[]): Promise<Uint8Array> {
+  const buffers = await Promise.all(blobs.map(blob => blob.arrayBuffer()));
+  return concatBytes(buffers.map(buffer => new Uint8Array(buffer)));
+}
+
+function findStartBlock(clusters: WebmCluster[], track: number, windowStart: number): WebmBlock | null {
+  let before: WebmBlock | null = null;
+  let after: WebmBlock | null = null;
+  for (const cluster of clusters) {
+    for (const block of cluster.blocks) {
+      if (block.track !== track || !block.keyframe) continue;
+      if (block.time <= windowStart) before = block;
+      else if (!after) after = block;
+    }
+  }
+  return before ?? after;
+}
+
+/**
+ * Cuts the last `durationSeconds` out of a live recording as a standalone,
+ * playable WebM file: the init segment is always written, the clip starts on
+ * a keyframe of the primary track and timestamps are rebased to start at 0.
+ * Like finalized recordings, clips carry a Duration and a Cues index.
+ *
+ * The clip begins at the nearest keyframe at or before the requested start,
+ * so it can run a little longer than asked. Returns null when the chunks hold
+ * no usable footage. Throws EbmlParseError when the data isn't WebM.
+ */
+export async function createStandaloneClip({
+  initChunk,
+  chunks,
+  durationSeconds,
+  chunkSeconds = 1,
+  mimeType,
+}: StandaloneClipOptions): Promise<Blob | null> {
+  const header = parseHeader(await toBytes([initChunk]));
+  const track = primaryTrack(header);
+  const unitsPerSecond = 1e9 / header.timecodeScale;
+
+  // Parse only the tail first and widen the window until it reaches back to a keyframe.
+  let take = Math.min(chunks.length, Math.ceil(durationSeconds / chunkSeconds) + 1);
+  let clusters: WebmCluster[] = [];
+  let start: WebmBlock | null = null;
+  while (take > 0) {
+    const from = chunks.length - take;
+    const bytes = await toBytes(chunks.slice(from));
+    clusters = parseClusters(bytes, from === 0 && chunks[0] === initChunk ? header.firstClusterOffset : 0);
+
+    const end = clusters.reduce(
+      (latest, cluster) => cluster.blocks.reduce((max, block) => Math.max(max, block.time), latest),
+      -Infinity,
+    );
+    if (end > -Infinity) {
+      const windowStart = end - durationSeconds * unitsPerSecond;
+      start = findStartBlock(clusters, track, windowStart);
+      if (start && (start.time <= windowStart || take === chunks.length)) break;
+    }
+    if (take === chunks.length) break;
+    take = Math.min(chunks.length, take * 2);
+  }
+  if (!start) return null;
+
+  const base = start.time;
+  const blocks = clusters.flatMap(cluster => cluster.blocks.filter(block => block.time >= base));
+  return writeWebm(header, blocks, { shift: base, mimeType });
+}
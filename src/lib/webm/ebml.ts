@@ -0,0 +1,201 @@
+/**
+ * Low-level EBML helpers: variable-length integers, element headers and
+ * element encoding. Only what the WebM tooling in this folder needs.
+ */
+
+export const EbmlId = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  Position: 0xa7,
+  PrevSize: 0xab,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Chapters: 0x1043a770,
+  Tags: 0x1254c367,
+  Attachments: 0x1941a469,
+  Void: 0xec,
+} as const;
+
+/** IDs that may only appear directly below Segment. Seeing one ends an unknown-sized Cluster. */
+export const TOP_LEVEL_IDS: ReadonlySet<number> = new Set([
+  EbmlId.EBML,
+  EbmlId.Segment,
+  EbmlId.SeekHead,
+  EbmlId.Info,
+  EbmlId.Tracks,
+  EbmlId.Cluster,
+  EbmlId.Cues,
+  EbmlId.Chapters,
+  EbmlId.Tags,
+  EbmlId.Attachments,
+]);
+
+/** Data size of an element whose size field is all ones ("unknown", used by live muxers). */
+export const UNKNOWN_SIZE = -1;
+
+export interface ElementHeader {
+  id: number;
+  /** Offset of the first byte of the ID. */
+  start: number;
+  /** Offset of the first byte of the payload. */
+  dataStart: number;
+  /** Payload size in bytes, or UNKNOWN_SIZE. */
+  size: number;
+}
+
+export class EbmlParseError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(`${message} at byte ${offset}`);
+    this.name = "EbmlParseError";
+  }
+}
+
+function vintLength(firstByte: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+}
+
+/** Reads an element ID, keeping its length marker bits. Returns null when truncated or invalid. */
+export function readId(bytes: Uint8Array, offset: number): { value: number; length: number } | null {
+  if (offset >= bytes.length) return null;
+  const length = vintLength(bytes[offset]);
+  if (length === 0 || length > 4 || offset + length > bytes.length) return null;
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+}
+
+/** Reads a size vint with the marker bit stripped. All-ones sizes come back as UNKNOWN_SIZE. */
+export function readSize(bytes: Uint8Array, offset: number): { value: number; length: number } | null {
+  if (offset >= bytes.length) return null;
+  const length = vintLength(bytes[offset]);
+  if (length === 0 || offset + length > bytes.length) return null;
+  let value = bytes[offset] & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    const byte = bytes[offset + i];
+    if (byte !== 0xff) allOnes = false;
+    value = value * 256 + byte;
+  }
+  return { value: allOnes ? UNKNOWN_SIZE : value, length };
+}
+
+export function readElementHeader(bytes: Uint8Array, offset: number): ElementHeader | null {
+  const id = readId(bytes, offset);
+  if (!id) return null;
+  const size = readSize(bytes, offset + id.length);
+  if (!size) return null;
+  return { id: id.value, start: offset, dataStart: offset + id.length + size.length, size: size.value };
+}
+
+export function readUint(bytes: Uint8Array, start: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + bytes[start + i];
+  return value;
+}
+
+export function readFloat(bytes: Uint8Array, start: number, size: number): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start, size);
+  return size === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+export function readString(bytes: Uint8Array, start: number, size: number): string {
+  return new TextDecoder().decode(bytes.subarray(start, start + size)).replace(/\0+$/, "");
+}
+
+/** Iterates the direct children of a master element with a known payload range. */
+export function* children(bytes: Uint8Array, start: number, end: number): Generator<ElementHeader> {
+  let offset = start;
+  while (offset < end) {
+    const header = readElementHeader(bytes, offset);
+    if (!header || header.size === UNKNOWN_SIZE || header.dataStart + header.size > end) return;
+    yield header;
+    offset = header.dataStart + header.size;
+  }
+}
+
+export function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return Uint8Array.from(bytes);
+}
+
+/** Encodes a size vint, using the shortest form unless `length` asks for a fixed width. */
+export function encodeSize(size: number, length?: number): Uint8Array {
+  let width = length ?? 1;
+  if (length === undefined) {
+    // 2^(7n) - 1 is reserved for "unknown", so stay strictly below it.
+    while (size >= 2 ** (7 * width) - 1) width++;
+  }
+  if (width > 8) throw new RangeError(`Element size ${size} does not fit in a vint`);
+  const bytes = new Uint8Array(width);
+  let value = size;
+  for (let i = width - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (width - 1);
+  return bytes;
+}
+
+export function encodeUint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+  return Uint8Array.from(bytes.length ? bytes : [0]);
+}
+
+export function encodeFloat64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+export function concatBytes(parts: readonly Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function encodeElement(id: number, payload: Uint8Array | readonly Uint8Array[]): Uint8Array {
+  const data = payload instanceof Uint8Array ? payload : concatBytes(payload);
+  return concatBytes([encodeId(id), encodeSize(data.length), data]);
+}
+
+export function encodeUintElement(id: number, value: number): Uint8Array {
+  return encodeElement(id, encodeUint(value));
+}
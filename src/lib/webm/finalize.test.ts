@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { EbmlId, EbmlParseError, children, readElementHeader, readFloat, readUint } from "./ebml";
+import { finalizeWebm } from "./finalize";
+import { parseClusters, parseHeader } from "./parser";
+import { loadFixture, readSegment, withUnknownClusterSizes } from "./__fixtures__";
+
+const recording = withUnknownClusterSizes(loadFixture("live-vp8-opus.webm"));
+
+async function finalize(bytes: Uint8Array) {
+  return new Uint8Array(await (await finalizeWebm(new Blob([bytes], { type: "video/webm" }))).arrayBuffer());
+}
+
+describe("finalizeWebm", () => {
+  it("writes a known-size Segment led by a SeekHead", async () => {
+    const bytes = await finalize(recording);
+    const { segment, elements } = readSegment(bytes);
+    expect(segment.dataStart + segment.size).toBe(bytes.length);
+    expect(elements.map(element => element.id).slice(0, 4)).toEqual([EbmlId.SeekHead, EbmlId.Info, EbmlId.Tracks, EbmlId.Cues]);
+
+    const seekHead = elements[0];
+    const targets = new Map<number, number>();
+    for (const seek of children(bytes, seekHead.dataStart, seekHead.dataStart + seekHead.size)) {
+      const fields = [...children(bytes, seek.dataStart, seek.dataStart + seek.size)];
+      const id = fields.find(field => field.id === EbmlId.SeekID)!;
+      const position = fields.find(field => field.id === EbmlId.SeekPosition)!;
+      targets.set(readUint(bytes, id.dataStart, id.size), readUint(bytes, position.dataStart, position.size));
+    }
+    for (const id of [EbmlId.Info, EbmlId.Tracks, EbmlId.Cues]) {
+      expect(readElementHeader(bytes, segment.dataStart + targets.get(id)!)?.id).toBe(id);
+    }
+  });
+
+  it("writes the Duration", async () => {
+    const header = parseHeader(await finalize(recording));
+    // 40 frames at 10fps, the last one shown for a frame interval.
+    expect(header.duration).toBeGreaterThanOrEqual(4000);
+    expect(header.duration).toBeLessThan(4200);
+  });
+
+  it("indexes the video keyframes that start clusters in Cues", async () => {
+    const bytes = await finalize(recording);
+    const { segment, elements } = readSegment(bytes);
+    const cues = elements.find(element => element.id === EbmlId.Cues)!;
+    const points = [...children(bytes, cues.dataStart, cues.dataStart + cues.size)].map(point => {
+      const fields = [...children(bytes, point.dataStart, point.dataStart + point.size)];
+      const time = fields.find(field => field.id === EbmlId.CueTime)!;
+      const positions = fields.find(field => field.id === EbmlId.CueTrackPositions)!;
+      const cluster = [...children(bytes, positions.dataStart, positions.dataStart + positions.size)]
+        .find(field => field.id === EbmlId.CueClusterPosition)!;
+      return { time: readUint(bytes, time.dataStart, time.size), position: readUint(bytes, cluster.dataStart, cluster.size) };
+    });
+
+    // Video starts 7ms after the audio, so the first cluster opens on an audio block and gets no cue.
+    expect(points.map(point => point.time)).toEqual([1007, 2007, 3007]);
+    for (const point of points) {
+      const offset = segment.dataStart + point.position;
+      expect(readElementHeader(bytes, offset)?.id).toBe(EbmlId.Cluster);
+      const first = parseClusters(bytes, offset)[0].blocks[0];
+      expect(first).toMatchObject({ track: 1, keyframe: true, time: point.time });
+    }
+  });
+
+  it("keeps every block, rebased to start at zero", async () => {
+    const bytes = await finalize(recording);
+    const before = parseClusters(recording, parseHeader(recording).firstClusterOffset).flatMap(cluster => cluster.blocks);
+    const after = parseClusters(bytes, parseHeader(bytes).firstClusterOffset).flatMap(cluster => cluster.blocks);
+    const shift = Math.min(...before.map(block => block.time));
+    expect(after.map(block => `${block.track}@${block.time}`).sort()).toEqual(before.map(block => `${block.track}@${block.time - shift}`).sort());
+  });
+
+  it("rejects blobs that aren't WebM", async () => {
+    await expect(finalizeWebm(new Blob([new Uint8Array(64)]))).rejects.toThrow(EbmlParseError);
+  });
+});
@@ -0,0 +1,17 @@
+import { parseClusters, parseHeader } from "./parser";
+import { writeWebm } from "./writer";
+
+/**
+ * Post-processes a finished MediaRecorder WebM so it is seekable: writes the
+ * Duration that live muxers leave out and builds a Cues index. Throws
+ * EbmlParseError when the blob isn't WebM.
+ */
+export async function finalizeWebm(blob: Blob): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const header = parseHeader(bytes);
+  const blocks = parseClusters(bytes, header.firstClusterOffset).flatMap(cluster => cluster.blocks);
+  if (blocks.length === 0) return blob;
+
+  const shift = blocks.reduce((min, block) => Math.min(min, block.time), Infinity);
+  return writeWebm(header, blocks, { shift, mimeType: blob.type });
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { EbmlId, EbmlParseError, UNKNOWN_SIZE, readElementHeader } from "./ebml";
+import { TRACK_TYPE_AUDIO, TRACK_TYPE_VIDEO, findClusterStart, parseClusters, parseHeader, primaryTrack } from "./parser";
+import { loadFixture, readSegment, withUnknownClusterSizes } from "./__fixtures__";
+
+const recording = loadFixture("live-vp8-opus.webm");
+
+function blockTimes(bytes: Uint8Array, from = 0) {
+  return parseClusters(bytes, from).flatMap(cluster => cluster.blocks.map(block => `${block.track}@${block.time}`));
+}
+
+describe("parseHeader", () => {
+  it("reads the tracks of a live recording with an unknown-size Segment", () => {
+    expect(readSegment(recording).segment.size).toBe(UNKNOWN_SIZE);
+
+    const header = parseHeader(recording);
+    expect(header.timecodeScale).toBe(1_000_000);
+    expect(header.duration).toBeUndefined();
+    expect(header.trackList.map(track => [track.type, track.codecId])).toEqual([
+      [TRACK_TYPE_VIDEO, "V_VP8"],
+      [TRACK_TYPE_AUDIO, "A_OPUS"],
+    ]);
+    expect(header.trackList[0]).toMatchObject({ width: 64, height: 36 });
+    expect(header.trackList[1]).toMatchObject({ sampleRate: 48000 });
+    expect(readElementHeader(recording, header.firstClusterOffset)?.id).toBe(EbmlId.Cluster);
+  });
+
+  it("cuts on the video track, or the first track of an audio recording", () => {
+    expect(primaryTrack(parseHeader(recording))).toBe(1);
+    expect(parseHeader(loadFixture("live-opus.webm")).trackList[0].type).toBe(TRACK_TYPE_AUDIO);
+    expect(primaryTrack(parseHeader(loadFixture("live-opus.webm")))).toBe(1);
+  });
+
+  it("rejects data that isn't WebM", () => {
+    expect(() => parseHeader(new Uint8Array([0, 1, 2, 3]))).toThrow(EbmlParseError);
+    expect(() => parseHeader(recording.subarray(parseHeader(recording).firstClusterOffset))).toThrow(EbmlParseError);
+  });
+});
+
+describe("parseClusters", () => {
+  const { firstClusterOffset } = parseHeader(recording);
+
+  it("reads every block with its absolute time", () => {
+    const clusters = parseClusters(recording, firstClusterOffset);
+    const video = clusters.flatMap(cluster => cluster.blocks).filter(block => block.track === 1);
+    expect(video).toHaveLength(40);
+    const first = video[0].time;
+    expect(video.map(block => block.time - first)).toEqual(Array.from({ length: 40 }, (_, i) => i * 100));
+    expect(video.filter(block => block.keyframe).map(block => block.time - first)).toEqual([0, 1000, 2000, 3000]);
+  });
+
+  it("reads unknown-size Clusters, ending each at the next top-level element", () => {
+    const live = withUnknownClusterSizes(recording);
+    const clusters = parseClusters(live, firstClusterOffset);
+    expect(clusters.every(cluster => readElementHeader(live, cluster.offset)?.size === UNKNOWN_SIZE)).toBe(true);
+    expect(blockTimes(live, firstClusterOffset)).toEqual(blockTimes(recording, firstClusterOffset));
+  });
+
+  it("resyncs on data that starts mid-stream and drops a truncated tail", () => {
+    const live = withUnknownClusterSizes(recording);
+    const second = findClusterStart(live, firstClusterOffset + 1);
+    const midStream = live.subarray(second - 100, live.length - 50);
+
+    const times = blockTimes(midStream);
+    const all = blockTimes(live, firstClusterOffset);
+    expect(times.length).toBeGreaterThan(0);
+    expect(times.length).toBeLessThan(all.length);
+    expect(all.join(",")).toContain(times.join(","));
+    expect(parseClusters(midStream)[0].blocks[0].keyframe).toBe(true);
+  });
+});
@@ -0,0 +1,261 @@
+import {
+  EbmlId,
+  EbmlParseError,
+  TOP_LEVEL_IDS,
+  UNKNOWN_SIZE,
+  children,
+  readElementHeader,
+  readFloat,
+  readSize,
+  readString,
+  readUint,
+} from "./ebml";
+
+export const TRACK_TYPE_VIDEO = 1;
+export const TRACK_TYPE_AUDIO = 2;
+
+export interface WebmTrack {
+  /** Raw bytes of the TrackEntry element. */
+  entry: Uint8Array;
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  /** Video tracks only. */
+  width?: number;
+  height?: number;
+  /** Audio tracks only. */
+  sampleRate?: number;
+  channels?: number;
+}
+
+/** Everything in a WebM stream that precedes the first Cluster. */
+export interface WebmHeader {
+  /** Raw bytes of the EBML header element. */
+  ebmlHeader: Uint8Array;
+  /** Raw bytes of the Segment Info element. */
+  info: Uint8Array;
+  /** Raw bytes of the Tracks element. */
+  tracks: Uint8Array;
+  /** Nanoseconds per timecode unit, 1ms unless the muxer says otherwise. */
+  timecodeScale: number;
+  /** Duration in timecode units, when the muxer wrote one. */
+  duration?: number;
+  trackList: WebmTrack[];
+  /** Offset of the first Cluster, or the end of the data when none was written yet. */
+  firstClusterOffset: number;
+}
+
+export interface WebmBlock {
+  track: number;
+  /** Absolute presentation time in timecode units. */
+  time: number;
+  keyframe: boolean;
+  /** The whole SimpleBlock or BlockGroup element. A view into the source bytes. */
+  bytes: Uint8Array;
+  /** Offset of the signed 16-bit relative timecode inside `bytes`. */
+  timecodeOffset: number;
+  /** End of the Block payload inside `bytes`; a BlockGroup may carry more elements after it. */
+  frameEnd: number;
+}
+
+export interface WebmCluster {
+  /** Offset of the Cluster element in the parsed bytes. */
+  offset: number;
+  timecode: number;
+  blocks: WebmBlock[];
+}
+
+/** Parses the EBML header, Segment Info and Tracks. Throws when the data is not a WebM stream. */
+export function parseHeader(bytes: Uint8Array): WebmHeader {
+  const ebml = readElementHeader(bytes, 0);
+  if (!ebml || ebml.id !== EbmlId.EBML || ebml.size === UNKNOWN_SIZE) {
+    throw new EbmlParseError("Missing EBML header", 0);
+  }
+  const segmentOffset = ebml.dataStart + ebml.size;
+  const segment = readElementHeader(bytes, segmentOffset);
+  if (!segment || segment.id !== EbmlId.Segment) {
+    throw new EbmlParseError("Missing Segment", segmentOffset);
+  }
+
+  let info: Uint8Array | null = null;
+  let tracks: Uint8Array | null = null;
+  let timecodeScale = 1_000_000;
+  let duration: number | undefined;
+  const trackList: WebmTrack[] = [];
+  let offset = segment.dataStart;
+
+  while (offset < bytes.length) {
+    const header = readElementHeader(bytes, offset);
+    if (!header || header.id === EbmlId.Cluster) break;
+    if (header.size === UNKNOWN_SIZE) throw new EbmlParseError("Unexpected unknown-sized element", offset);
+    const end = header.dataStart + header.size;
+    if (end > bytes.length) throw new EbmlParseError("Truncated header element", offset);
+
+    if (header.id === EbmlId.Info) {
+      info = bytes.subarray(offset, end);
+      for (const child of children(bytes, header.dataStart, end)) {
+        if (child.id === EbmlId.TimecodeScale) timecodeScale = readUint(bytes, child.dataStart, child.size);
+        if (child.id === EbmlId.Duration) duration = readFloat(bytes, child.dataStart, child.size);
+      }
+    } else if (header.id === EbmlId.Tracks) {
+      tracks = bytes.subarray(offset, end);
+      for (const entry of children(bytes, header.dataStart, end)) {
+        if (entry.id !== EbmlId.TrackEntry) continue;
+        const track: WebmTrack = { entry: bytes.subarray(entry.start, entry.dataStart + entry.size), number: 0, type: 0, codecId: "" };
+        for (const field of children(bytes, entry.dataStart, entry.dataStart + entry.size)) {
+          if (field.id === EbmlId.TrackNumber) track.number = readUint(bytes, field.dataStart, field.size);
+          if (field.id === EbmlId.TrackType) track.type = readUint(bytes, field.dataStart, field.size);
+          if (field.id === EbmlId.CodecID) track.codecId = readString(bytes, field.dataStart, field.size);
+          if (field.id === EbmlId.CodecPrivate) track.codecPrivate = bytes.slice(field.dataStart, field.dataStart + field.size);
+          if (field.id === EbmlId.Video) {
+            for (const video of children(bytes, field.dataStart, field.dataStart + field.size)) {
+              if (video.id === EbmlId.PixelWidth) track.width = readUint(bytes, video.dataStart, video.size);
+              if (video.id === EbmlId.PixelHeight) track.height = readUint(bytes, video.dataStart, video.size);
+            }
+          }
+          if (field.id === EbmlId.Audio) {
+            for (const audio of children(bytes, field.dataStart, field.dataStart + field.size)) {
+              if (audio.id === EbmlId.SamplingFrequency) track.sampleRate = readFloat(bytes, audio.dataStart, audio.size);
+              if (audio.id === EbmlId.Channels) track.channels = readUint(bytes, audio.dataStart, audio.size);
+            }
+          }
+        }
+        trackList.push(track);
+      }
+    }
+    offset = end;
+  }
+
+  if (!info || !tracks) {
+    throw new EbmlParseError("Segment Info or Tracks missing", segment.dataStart);
+  }
+  return {
+    ebmlHeader: bytes.subarray(0, segmentOffset),
+    info,
+    tracks,
+    timecodeScale,
+    duration,
+    trackList,
+    firstClusterOffset: offset,
+  };
+}
+
+/**
+ * The coded frame carried by a block. Returns null for laced blocks, which
+ * MediaRecorder doesn't produce and the exporters don't handle.
+ */
+export function blockFrame(block: WebmBlock): Uint8Array | null {
+  const flags = block.bytes[block.timecodeOffset + 2];
+  if (flags & 0x06) return null;
+  return block.bytes.subarray(block.timecodeOffset + 3, block.frameEnd);
+}
+
+/** The track clips should be cut on: the first video track, or the first track of any kind. */
+export function primaryTrack(header: WebmHeader): number {
+  const video = header.trackList.find(track => track.type === TRACK_TYPE_VIDEO);
+  return (video ?? header.trackList[0])?.number ?? 1;
+}
+
+function looksLikeCluster(bytes: Uint8Array, offset: number): boolean {
+  const header = readElementHeader(bytes, offset);
+  if (!header || header.id !== EbmlId.Cluster) return false;
+  const first = readElementHeader(bytes, header.dataStart);
+  return !!first && first.id === EbmlId.Timecode && first.size > 0 && first.size <= 8;
+}
+
+/**
+ * Finds the next Cluster at or after `from`. Used to resync on data that
+ * starts in the middle of a stream, such as a later MediaRecorder chunk.
+ */
+export function findClusterStart(bytes: Uint8Array, from = 0): number {
+  for (let offset = from; offset + 4 <= bytes.length; offset++) {
+    if (
+      bytes[offset] === 0x1f &&
+      bytes[offset + 1] === 0x43 &&
+      bytes[offset + 2] === 0xb6 &&
+      bytes[offset + 3] === 0x75 &&
+      looksLikeCluster(bytes, offset)
+    ) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+function parseBlock(element: Uint8Array, blockDataStart: number, blockDataEnd: number, clusterTimecode: number, keyframe: boolean | null): WebmBlock | null {
+  const track = readSize(element, blockDataStart);
+  if (!track || blockDataStart + track.length + 3 > element.length) return null;
+  const timecodeOffset = blockDataStart + track.length;
+  const relative = new DataView(element.buffer, element.byteOffset + timecodeOffset, 2).getInt16(0);
+  const flags = element[timecodeOffset + 2];
+  return {
+    track: track.value,
+    time: clusterTimecode + relative,
+    keyframe: keyframe ?? (flags & 0x80) !== 0,
+    bytes: element,
+    timecodeOffset,
+    frameEnd: blockDataEnd,
+  };
+}
+
+/**
+ * Parses every complete Cluster from `from` onwards. Data before the first
+ * Cluster is skipped and a truncated trailing element is ignored, so this
+ * also works on arbitrary runs of MediaRecorder chunks.
+ */
+export function parseClusters(bytes: Uint8Array, from = 0): WebmCluster[] {
+  const clusters: WebmCluster[] = [];
+  let offset = findClusterStart(bytes, from);
+
+  while (offset >= 0 && offset < bytes.length) {
+    const header = readElementHeader(bytes, offset);
+    if (!header) break;
+    if (header.id !== EbmlId.Cluster) {
+      if (!TOP_LEVEL_IDS.has(header.id) && header.id !== EbmlId.Void) break;
+      if (header.size === UNKNOWN_SIZE) break;
+      offset = header.dataStart + header.size;
+      continue;
+    }
+
+    const end = header.size === UNKNOWN_SIZE ? bytes.length : Math.min(header.dataStart + header.size, bytes.length);
+    const cluster: WebmCluster = { offset, timecode: 0, blocks: [] };
+    let cursor = header.dataStart;
+
+    while (cursor < end) {
+      const child = readElementHeader(bytes, cursor);
+      if (!child || TOP_LEVEL_IDS.has(child.id) || child.size === UNKNOWN_SIZE) break;
+      const childEnd = child.dataStart + child.size;
+      if (childEnd > end) {
+        cursor = bytes.length; // truncated tail
+        break;
+      }
+      const element = bytes.subarray(cursor, childEnd);
+      if (child.id === EbmlId.Timecode) {
+        cluster.timecode = readUint(bytes, child.dataStart, child.size);
+      } else if (child.id === EbmlId.SimpleBlock) {
+        const block = parseBlock(element, child.dataStart - cursor, element.length, cluster.timecode, null);
+        if (block) cluster.blocks.push(block);
+      } else if (child.id === EbmlId.BlockGroup) {
+        let blockStart = -1;
+        let blockEnd = -1;
+        let referenced = false;
+        for (const groupChild of children(bytes, child.dataStart, childEnd)) {
+          if (groupChild.id === EbmlId.Block) {
+            blockStart = groupChild.dataStart - cursor;
+            blockEnd = blockStart + groupChild.size;
+          }
+          if (groupChild.id === EbmlId.ReferenceBlock) referenced = true;
+        }
+        const block = blockStart >= 0 ? parseBlock(element, blockStart, blockEnd, cluster.timecode, !referenced) : null;
+        if (block) cluster.blocks.push(block);
+      }
+      cursor = childEnd;
+    }
+
+    clusters.push(cluster);
+    offset = cursor;
+  }
+
+  return clusters;
+}
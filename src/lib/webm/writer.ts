@@ -0,0 +1,174 @@
+import {
+  EbmlId,
+  children,
+  concatBytes,
+  encodeElement,
+  encodeFloat64,
+  encodeId,
+  encodeSize,
+  encodeUintElement,
+  readElementHeader,
+} from "./ebml";
+import { primaryTrack, type WebmBlock, type WebmHeader, type WebmTrack } from "./parser";
+
+// Relative block timecodes are signed 16-bit, keep clusters well inside that.
+const MAX_CLUSTER_SPAN = 30_000;
+// Audio tracks flag every block as a keyframe; without a floor each packet would get its own cluster.
+const MIN_CLUSTER_SPAN = 1_000;
+
+export interface WriteWebmOptions {
+  /** Subtracted from every block time so the output starts at `time - shift`. */
+  shift: number;
+  mimeType: string;
+}
+
+/** Wraps a freshly encoded frame in a SimpleBlock, for splicing re-encoded frames between copied ones. */
+export function simpleBlock(track: number, time: number, keyframe: boolean, frame: Uint8Array): WebmBlock {
+  const trackNumber = encodeSize(track);
+  // The relative timecode stays zero here; rebaseBlock fills it in once the cluster is known.
+  const payload = concatBytes([trackNumber, new Uint8Array(2), Uint8Array.of(keyframe ? 0x80 : 0), frame]);
+  const bytes = encodeElement(EbmlId.SimpleBlock, payload);
+  const payloadStart = bytes.length - payload.length;
+  return { track, time, keyframe, bytes, timecodeOffset: payloadStart + trackNumber.length, frameEnd: bytes.length };
+}
+
+/** A header describing only the tracks `keep` accepts, for writing part of a recording. */
+export function selectTracks(header: WebmHeader, keep: (track: WebmTrack) => boolean): WebmHeader {
+  const trackList = header.trackList.filter(keep);
+  return { ...header, trackList, tracks: encodeElement(EbmlId.Tracks, trackList.map(track => track.entry)) };
+}
+
+/**
+ * Copies a block and rewrites its relative timecode against a new cluster
+ * timecode. `shift` is subtracted from the block's absolute time first.
+ */
+function rebaseBlock(block: WebmBlock, clusterTimecode: number, shift: number): Uint8Array {
+  const relative = block.time - shift - clusterTimecode;
+  if (relative < -32768 || relative > 32767) {
+    throw new RangeError(`Block timecode ${relative} does not fit in its cluster`);
+  }
+  const copy = block.bytes.slice();
+  new DataView(copy.buffer, block.timecodeOffset, 2).setInt16(0, relative);
+  return copy;
+}
+
+/** Fixed-width unsigned integer element, so offsets can be written before they are known. */
+function encodeUint64Element(id: number, value: number): Uint8Array {
+  const payload = new Uint8Array(8);
+  new DataView(payload.buffer).setBigUint64(0, BigInt(value));
+  return encodeElement(id, payload);
+}
+
+function seekEntry(id: number, position: number): Uint8Array {
+  return encodeElement(EbmlId.Seek, [encodeElement(EbmlId.SeekID, encodeId(id)), encodeUint64Element(EbmlId.SeekPosition, position)]);
+}
+
+/** Splits blocks into clusters that start on primary-track keyframes, so every cue lands on a decodable frame. */
+function groupIntoClusters(blocks: readonly WebmBlock[], track: number): WebmBlock[][] {
+  const groups: WebmBlock[][] = [];
+  let current: WebmBlock[] = [];
+  let clusterStart = 0;
+  for (const block of blocks) {
+    const startsGop = block.track === track && block.keyframe && block.time - clusterStart >= MIN_CLUSTER_SPAN;
+    if (current.length === 0 || startsGop || block.time - clusterStart > MAX_CLUSTER_SPAN) {
+      if (current.length > 0) groups.push(current);
+      current = [];
+      clusterStart = block.time;
+    }
+    current.push(block);
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+/** Rebuilds Segment Info with a Duration element, dropping any stale one. */
+function infoWithDuration(info: Uint8Array, duration: number): Uint8Array {
+  const header = readElementHeader(info, 0);
+  if (!header) return info;
+  const kept: Uint8Array[] = [];
+  for (const child of children(info, header.dataStart, header.dataStart + header.size)) {
+    if (child.id !== EbmlId.Duration) kept.push(info.subarray(child.start, child.dataStart + child.size));
+  }
+  return encodeElement(EbmlId.Info, [...kept, encodeElement(EbmlId.Duration, encodeFloat64(duration))]);
+}
+
+function estimateDuration(blocks: readonly WebmBlock[], track: number, shift: number): number {
+  let last = 0;
+  let previousFrame: number | null = null;
+  let lastFrame: number | null = null;
+  for (const block of blocks) {
+    last = Math.max(last, block.time - shift);
+    if (block.track === track) {
+      previousFrame = lastFrame;
+      lastFrame = block.time;
+    }
+  }
+  // The last frame is shown for roughly one frame interval.
+  const frameGap = previousFrame !== null && lastFrame !== null ? Math.max(0, lastFrame - previousFrame) : 0;
+  return last + frameGap;
+}
+
+/**
+ * Writes a seekable WebM file from parsed blocks (in stream order): a
+ * known-size Segment with SeekHead, Segment Info carrying the Duration,
+ * Tracks, a Cues index on primary-track keyframes and the Clusters.
+ */
+export function writeWebm(header: WebmHeader, blocks: readonly WebmBlock[], { shift, mimeType }: WriteWebmOptions): Blob {
+  const track = primaryTrack(header);
+  const info = infoWithDuration(header.info, estimateDuration(blocks, track, shift));
+
+  const clusters: Uint8Array[] = [];
+  const cueTimes: number[] = [];
+  for (const group of groupIntoClusters(blocks, track)) {
+    const timecode = Math.max(0, group.reduce((min, block) => Math.min(min, block.time), Infinity) - shift);
+    clusters.push(encodeElement(EbmlId.Cluster, [
+      encodeUintElement(EbmlId.Timecode, timecode),
+      ...group.map(block => rebaseBlock(block, timecode, shift)),
+    ]));
+    const first = group[0];
+    cueTimes.push(first.track === track && first.keyframe ? first.time - shift : -1);
+  }
+
+  // Every size below is fixed-width, so positions can be computed in one pass.
+  const cueCount = cueTimes.filter(time => time >= 0).length;
+  const seekHead = (positions: { info: number; tracks: number; cues: number }) =>
+    encodeElement(EbmlId.SeekHead, [
+      seekEntry(EbmlId.Info, positions.info),
+      seekEntry(EbmlId.Tracks, positions.tracks),
+      ...(cueCount > 0 ? [seekEntry(EbmlId.Cues, positions.cues)] : []),
+    ]);
+  const seekHeadSize = seekHead({ info: 0, tracks: 0, cues: 0 }).length;
+  const cuePoint = (time: number, position: number) =>
+    encodeElement(EbmlId.CuePoint, [
+      encodeUint64Element(EbmlId.CueTime, time),
+      encodeElement(EbmlId.CueTrackPositions, [
+        encodeUintElement(EbmlId.CueTrack, track),
+        encodeUint64Element(EbmlId.CueClusterPosition, position),
+      ]),
+    ]);
+  const cuesSize = cueCount > 0
+    ? encodeElement(EbmlId.Cues, Array.from({ length: cueCount }, () => cuePoint(0, 0))).length
+    : 0;
+
+  const infoPosition = seekHeadSize;
+  const tracksPosition = infoPosition + info.length;
+  const cuesPosition = tracksPosition + header.tracks.length;
+  let clusterPosition = cuesPosition + cuesSize;
+
+  const points: Uint8Array[] = [];
+  clusters.forEach((cluster, index) => {
+    if (cueTimes[index] >= 0) points.push(cuePoint(cueTimes[index], clusterPosition));
+    clusterPosition += cluster.length;
+  });
+
+  const levelOne = [
+    seekHead({ info: infoPosition, tracks: tracksPosition, cues: cuesPosition }),
+    info,
+    header.tracks,
+    ...(cueCount > 0 ? [encodeElement(EbmlId.Cues, points)] : []),
+    ...clusters,
+  ];
+  const segmentSize = levelOne.reduce((total, element) => total + element.length, 0);
+
+  return new Blob([concatBytes([header.ebmlHeader, encodeId(EbmlId.Segment), encodeSize(segmentSize, 8)]), ...levelOne], { type: mimeType });
+}
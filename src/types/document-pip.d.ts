@@ -0,0 +1,15 @@
+// Document Picture-in-Picture is Chromium-only and not in lib.dom yet; these cover the parts we use.
+interface DocumentPictureInPictureOptions {
+  width?: number;
+  height?: number;
+  disallowReturnToOpener?: boolean;
+}
+
+interface DocumentPictureInPicture extends EventTarget {
+  readonly window: Window | null;
+  requestWindow(options?: DocumentPictureInPictureOptions): Promise<Window>;
+}
+
+interface Window {
+  documentPictureInPicture?: DocumentPictureInPicture;
+}
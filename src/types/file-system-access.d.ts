@@ -0,0 +1,21 @@
+// showSaveFilePicker is Chromium-only and not in lib.dom yet; these cover the parts we use.
+interface SaveFilePickerAcceptType {
+  description?: string;
+  accept: Record<string, string[]>;
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: SaveFilePickerAcceptType[];
+  excludeAcceptAllOption?: boolean;
+  id?: string;
+}
+
+interface Window {
+  showSaveFilePicker?(options?: SaveFilePickerOptions): Promise<FileSystemFileHandle>;
+}
+
+// Async iteration of directories lives in lib.dom.asynciterable, which this project doesn't load.
+interface FileSystemDirectoryHandle {
+  keys(): AsyncIterableIterator<string>;
+}
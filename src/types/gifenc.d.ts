@@ -0,0 +1,34 @@
+// gifenc ships without type definitions; these cover the parts we use.
+declare module "gifenc" {
+  export type PixelFormat = "rgb565" | "rgb444" | "rgba4444";
+  export type Palette = number[][];
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    /** Frame delay in milliseconds. */
+    delay?: number;
+    /** -1 plays once, 0 loops forever, n loops n times. */
+    repeat?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+    colorDepth?: number;
+    dispose?: number;
+    first?: boolean;
+  }
+
+  export interface GIFEncoderInstance {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+    bytesView(): Uint8Array;
+    reset(): void;
+  }
+
+  export function GIFEncoder(options?: { initialCapacity?: number; auto?: boolean }): GIFEncoderInstance;
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: PixelFormat; oneBitAlpha?: boolean | number; clearAlpha?: boolean },
+  ): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: PixelFormat): Uint8Array;
+}
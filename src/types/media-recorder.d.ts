@@ -0,0 +1,6 @@
+// Keyframe intervals are in the MediaRecorder spec but not in lib.dom yet. Browsers without them ignore the options.
+interface MediaRecorderOptions {
+  /** Longest gap between video keyframes, in milliseconds. */
+  videoKeyFrameIntervalDuration?: number;
+  videoKeyFrameIntervalCount?: number;
+}
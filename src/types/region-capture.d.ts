@@ -0,0 +1,27 @@
+// Region Capture and Capture Handle are Chromium-only and not in lib.dom yet; these cover the parts we use.
+interface CropTarget {}
+
+declare var CropTarget: {
+  prototype: CropTarget;
+  fromElement(element: Element): Promise<CropTarget>;
+} | undefined;
+
+interface CaptureHandle {
+  origin?: string;
+  handle?: string;
+}
+
+interface CaptureHandleConfig {
+  exposeOrigin?: boolean;
+  handle?: string;
+  permittedOrigins?: string[];
+}
+
+interface MediaStreamTrack {
+  cropTo?(target: CropTarget | null): Promise<void>;
+  getCaptureHandle?(): CaptureHandle | null;
+}
+
+interface MediaDevices {
+  setCaptureHandleConfig?(config: CaptureHandleConfig): void;
+}